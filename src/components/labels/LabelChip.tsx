@@ -0,0 +1,24 @@
+/**
+ * LabelChip.tsx - A Label as a Small Colored Chip
+ *
+ * Used on task cards, in the label picker and on the Labels page.
+ */
+
+import { Label } from '@/types/database';
+import { Badge } from '@/components/ui/badge';
+import { STATUS_COLORS } from '@/lib/workflows';
+import { cn } from '@/lib/utils';
+
+interface LabelChipProps {
+  label: Pick<Label, 'name' | 'color'>;
+  className?: string;
+}
+
+export default function LabelChip({ label, className }: LabelChipProps) {
+  return (
+    <Badge variant="outline" className={cn('gap-1.5 font-normal', className)}>
+      <span className={cn('h-2 w-2 shrink-0 rounded-full', STATUS_COLORS[label.color])} />
+      <span className="truncate max-w-[140px]">{label.name || '…'}</span>
+    </Badge>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Label as TaskLabel, LabelColor } from '@/types/database';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import LabelChip from '@/components/labels/LabelChip';
+import { STATUS_COLORS } from '@/lib/workflows';
+import { cn } from '@/lib/utils';
+import { Check, Loader2 } from 'lucide-react';
+
+interface LabelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  label?: TaskLabel | null; // Existing label to edit, or null for a new one
+  onSave: (label: Partial<TaskLabel>) => Promise<void>;
+}
+
+const COLORS = Object.keys(STATUS_COLORS) as LabelColor[];
+
+export default function LabelDialog({ open, onOpenChange, label, onSave }: LabelDialogProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<LabelColor>('gray');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setName(label?.name || '');
+    setColor(label?.color || 'gray');
+  }, [label, open]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setIsLoading(true);
+    try {
+      await onSave({ id: label?.id, name: name.trim(), color });
+      onOpenChange(false);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{label ? 'Edit Label' : 'Create New Label'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="labelName">Name</Label>
+            <Input
+              id="labelName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Bug, Customer, Q3"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex gap-2">
+              {COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  className={cn(
+                    'flex h-7 w-7 items-center justify-center rounded-full text-white ring-offset-background',
+                    STATUS_COLORS[c],
+                    color === c && 'ring-2 ring-ring ring-offset-2'
+                  )}
+                  onClick={() => setColor(c)}
+                  aria-label={c}
+                  title={c}
+                >
+                  {color === c && <Check className="h-4 w-4" />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <div>
+              <LabelChip label={{ name: name.trim(), color }} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || !name.trim()}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {label ? 'Save Changes' : 'Create Label'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
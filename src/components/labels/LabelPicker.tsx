@@ -0,0 +1,79 @@
+/**
+ * LabelPicker.tsx - Choose Labels from the Catalogue
+ *
+ * A button showing the chosen labels that opens a searchable list of all
+ * labels; clicking one toggles it. Used by the task form and the label
+ * filter on the Dashboard.
+ */
+
+import { useState } from 'react';
+import { Label } from '@/types/database';
+import LabelChip from '@/components/labels/LabelChip';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { STATUS_COLORS } from '@/lib/workflows';
+import { cn } from '@/lib/utils';
+import { Check, Tags } from 'lucide-react';
+
+interface LabelPickerProps {
+  labels: Label[]; // The catalogue
+  value: string[]; // Ids of the chosen labels
+  onChange: (labelIds: string[]) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+export default function LabelPicker({
+  labels,
+  value,
+  onChange,
+  disabled,
+  placeholder = 'Add labels',
+  className,
+}: LabelPickerProps) {
+  const [open, setOpen] = useState(false);
+  const chosen = labels.filter((l) => value.includes(l.id));
+
+  const toggle = (labelId: string) =>
+    onChange(value.includes(labelId) ? value.filter((id) => id !== labelId) : [...value, labelId]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn('h-auto min-h-10 w-full justify-start gap-2 font-normal', className)}
+          disabled={disabled}
+        >
+          <Tags className="h-4 w-4 shrink-0 text-muted-foreground" />
+          {chosen.length === 0 ? (
+            <span className="text-muted-foreground">{placeholder}</span>
+          ) : (
+            <span className="flex flex-wrap gap-1">
+              {chosen.map((label) => <LabelChip key={label.id} label={label} />)}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search labels..." />
+          <CommandList>
+            <CommandEmpty>No labels found</CommandEmpty>
+            <CommandGroup>
+              {labels.map((label) => (
+                <CommandItem key={label.id} value={label.name} onSelect={() => toggle(label.id)}>
+                  <span className={cn('mr-2 h-2 w-2 rounded-full', STATUS_COLORS[label.color])} />
+                  <span className="flex-1 truncate">{label.name}</span>
+                  <Check className={cn('h-4 w-4', value.includes(label.id) ? 'opacity-100' : 'opacity-0')} />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,16 +2,19 @@
  * AppLayout.tsx - Main Application Layout
  * 
  * Provides the consistent layout for all authenticated pages:
- * - Sticky header with logo, navigation, and user menu
+ * - Sticky header with logo, navigation, search, notifications, and user menu
+ * - Global search palette, also opened with Ctrl+K / Cmd+K
  * - Responsive navigation (desktop in header, mobile below)
- * - User dropdown with profile info and sign out
+ * - User dropdown with profile info, settings and sign out
  */
 
-import { ReactNode } from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import { ReactNode, useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import NotificationBell from '@/components/layout/NotificationBell';
+import CommandPalette from '@/components/layout/CommandPalette';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -20,7 +23,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { CheckSquare, LayoutDashboard, FolderKanban, Users, LogOut } from 'lucide-react';
+import { Archive, CheckSquare, LayoutDashboard, FolderKanban, CalendarDays, GanttChartSquare, Users, LogOut, Search, Settings, Tags, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface AppLayoutProps {
@@ -30,11 +33,34 @@ interface AppLayoutProps {
 export default function AppLayout({ children }: AppLayoutProps) {
   const { profile, signOut, isAdmin, isDepartmentHead } = useAuth();
   const location = useLocation();
+  const navigate = useNavigate();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
 
-  // Navigation items - User Management only visible to admins
+  // Ctrl+K (Cmd+K on Mac) toggles the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Navigation items - Labels, Archive and Trash only visible to managers, User Management only to admins
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Projects', href: '/projects', icon: FolderKanban },
+    { name: 'Calendar', href: '/calendar', icon: CalendarDays },
+    { name: 'Timeline', href: '/timeline', icon: GanttChartSquare },
+    ...(isAdmin || isDepartmentHead
+      ? [
+          { name: 'Labels', href: '/labels', icon: Tags },
+          { name: 'Archive', href: '/archive', icon: Archive },
+          { name: 'Trash', href: '/trash', icon: Trash2 },
+        ]
+      : []),
     ...(isAdmin ? [{ name: 'User Management', href: '/users', icon: Users }] : []),
   ];
 
@@ -67,7 +93,7 @@ export default function AppLayout({ children }: AppLayoutProps) {
             <nav className="hidden md:flex items-center gap-1">
               {navigation.map((item) => {
                 const Icon = item.icon;
-                const isActive = location.pathname === item.href;
+                const isActive = location.pathname.startsWith(item.href);
                 return (
                   <Link key={item.name} to={item.href}>
                     <Button variant={isActive ? 'secondary' : 'ghost'} size="sm" className="gap-2">
@@ -80,42 +106,64 @@ export default function AppLayout({ children }: AppLayoutProps) {
             </nav>
           </div>
 
-          {/* User Menu Dropdown */}
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" className="gap-2 px-2">
-                <Avatar className="h-8 w-8">
-                  <AvatarFallback className="bg-primary text-primary-foreground text-sm">
-                    {profile ? getInitials(profile.full_name) : '?'}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="hidden sm:flex flex-col items-start">
-                  <span className="text-sm font-medium">{profile?.full_name}</span>
-                  <span className="text-xs text-muted-foreground">{getRoleLabel()}</span>
-                </div>
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="w-56">
-              <DropdownMenuLabel>
-                <div className="flex flex-col">
-                  <span>{profile?.full_name}</span>
-                  <span className="text-xs font-normal text-muted-foreground">{profile?.email}</span>
-                </div>
-              </DropdownMenuLabel>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={signOut} className="text-destructive">
-                <LogOut className="mr-2 h-4 w-4" />
-                Sign out
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <div className="flex items-center gap-2">
+            {/* Global Search */}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-muted-foreground md:w-56 md:justify-start"
+              onClick={() => setIsSearchOpen(true)}
+            >
+              <Search className="h-4 w-4" />
+              <span className="hidden md:inline flex-1 text-left">Search...</span>
+              <kbd className="hidden md:inline rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+            </Button>
+
+            {/* Notification Center */}
+            <NotificationBell />
+
+            {/* User Menu Dropdown */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="gap-2 px-2">
+                  <Avatar className="h-8 w-8">
+                    {profile?.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.full_name} />}
+                    <AvatarFallback className="bg-primary text-primary-foreground text-sm">
+                      {profile ? getInitials(profile.full_name) : '?'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="hidden sm:flex flex-col items-start">
+                    <span className="text-sm font-medium">{profile?.full_name}</span>
+                    <span className="text-xs text-muted-foreground">{getRoleLabel()}</span>
+                  </div>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>
+                  <div className="flex flex-col">
+                    <span>{profile?.full_name}</span>
+                    <span className="text-xs font-normal text-muted-foreground">{profile?.email}</span>
+                  </div>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => navigate('/settings')}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  Settings
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={signOut} className="text-destructive">
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
 
         {/* Mobile Navigation - shown below header on small screens */}
         <nav className="md:hidden flex items-center gap-1 px-4 pb-3 overflow-x-auto">
           {navigation.map((item) => {
             const Icon = item.icon;
-            const isActive = location.pathname === item.href;
+            const isActive = location.pathname.startsWith(item.href);
             return (
               <Link key={item.name} to={item.href}>
                 <Button variant={isActive ? 'secondary' : 'ghost'} size="sm" className="gap-2 whitespace-nowrap">
@@ -130,6 +178,8 @@ export default function AppLayout({ children }: AppLayoutProps) {
 
       {/* Page Content */}
       <main className="p-4 md:p-6">{children}</main>
+
+      <CommandPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </div>
   );
 }
@@ -0,0 +1,145 @@
+/**
+ * CommandPalette.tsx - Global Search (Ctrl+K)
+ *
+ * Searches tasks, projects, comments and people with the database's
+ * full-text search. Results are ranked and show highlighted snippets;
+ * choosing one opens the task or project.
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOpenTask } from '@/hooks/useOpenTask';
+import { SearchResult, SearchResultKind } from '@/types/database';
+import { queryKeys, searchAll } from '@/lib/queries';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { CheckSquare, FolderKanban, Loader2, MessageSquare, User } from 'lucide-react';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 200;
+
+const GROUPS: { kind: SearchResultKind; heading: string; icon: typeof CheckSquare }[] = [
+  { kind: 'task', heading: 'Tasks', icon: CheckSquare },
+  { kind: 'project', heading: 'Projects', icon: FolderKanban },
+  { kind: 'comment', heading: 'Comments', icon: MessageSquare },
+  { kind: 'person', heading: 'People', icon: User },
+];
+
+/** Render text with «matches» from the search RPC highlighted */
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/«(.*?)»/).map((segment, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/15 text-foreground rounded-sm">{segment}</mark>
+        ) : (
+          <span key={index}>{segment}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const openTask = useOpenTask();
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  // Start fresh every time the palette opens
+  useEffect(() => {
+    if (open) setInput('');
+  }, [open]);
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: queryKeys.search(user?.id ?? '', query),
+    queryFn: () => searchAll(query),
+    enabled: !!user && query.length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  /** Open what the result points at */
+  const handleSelect = (result: SearchResult) => {
+    onOpenChange(false);
+    switch (result.kind) {
+      case 'task':
+      case 'comment':
+        openTask(result.task_id);
+        break;
+      case 'project':
+        navigate(`/projects/${result.id}`);
+        break;
+      case 'person':
+        navigate(`/dashboard?assignee=${result.id}`);
+        break;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        {/* Results are already ranked by the database, so cmdk must not filter them */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12">
+          <CommandInput value={input} onValueChange={setInput} placeholder="Search tasks, projects, comments and people..." />
+          <CommandList>
+            {query && !isFetching && <CommandEmpty>No results found.</CommandEmpty>}
+            {isFetching && results.length === 0 && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {query && GROUPS.map(({ kind, heading, icon: Icon }) => {
+              const matches = results.filter((r) => r.kind === kind);
+              if (matches.length === 0) return null;
+              return (
+                <CommandGroup key={kind} heading={heading}>
+                  {matches.map((result) => (
+                    <CommandItem
+                      key={`${kind}-${result.id}`}
+                      value={`${kind}-${result.id}`}
+                      onSelect={() => handleSelect(result)}
+                      className="items-start gap-3 py-2"
+                    >
+                      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">
+                          <Highlighted text={result.title} />
+                        </p>
+                        {result.snippet && (
+                          <p className="line-clamp-2 text-xs text-muted-foreground">
+                            <Highlighted text={result.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * NotificationBell.tsx - Header Notification Center
+ *
+ * Bell button with an unread badge. Opens a list of recent notifications
+ * (assignments, due date changes, completions, comments and mentions) that updates
+ * live; clicking one marks it as read.
+ */
+
+import { useNotifications } from '@/hooks/useNotifications';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { NotificationType } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell, AtSign, UserPlus, CalendarClock, CheckCircle2, MessageSquare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  mention: AtSign,
+  assignment: UserPlus,
+  due_date: CalendarClock,
+  completion: CheckCircle2,
+  comment: MessageSquare,
+};
+
+export default function NotificationBell() {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const { formatRelative } = useDateFormat();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="text-sm font-semibold">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={markAllAsRead}
+            disabled={unreadCount === 0}
+          >
+            Mark all as read
+          </Button>
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type] || Bell;
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className={cn(
+                    'flex w-full items-start gap-3 border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted/50',
+                    !notification.read_at && 'bg-primary/5'
+                  )}
+                  onClick={() => !notification.read_at && markAsRead(notification.id)}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn('text-sm break-words', !notification.read_at && 'font-medium')}>
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatRelative(notification.created_at)}
+                    </p>
+                  </div>
+                  {!notification.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
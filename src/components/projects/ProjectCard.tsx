@@ -1,8 +1,8 @@
 import { Project } from '@/types/database';
+import { useDateFormat } from '@/hooks/useDateFormat';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { FolderKanban, Calendar } from 'lucide-react';
-import { format } from 'date-fns';
 
 interface ProjectCardProps {
   project: Project;
@@ -11,6 +11,8 @@ interface ProjectCardProps {
 }
 
 export default function ProjectCard({ project, taskCount, onClick }: ProjectCardProps) {
+  const { formatMoment } = useDateFormat();
+
   return (
     <Card
       className="cursor-pointer transition-all duration-200 hover:shadow-md hover:border-primary/20 group"
@@ -35,7 +37,7 @@ export default function ProjectCard({ project, taskCount, onClick }: ProjectCard
         )}
         <div className="flex items-center gap-1 text-xs text-muted-foreground">
           <Calendar className="h-3.5 w-3.5" />
-          <span>Created {format(new Date(project.created_at), 'MMM d, yyyy')}</span>
+          <span>Created {formatMoment(project.created_at, { dateStyle: 'medium' })}</span>
         </div>
       </CardContent>
     </Card>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Project } from '@/types/database';
+import { Department, Project } from '@/types/database';
 import {
   Dialog,
   DialogContent,
@@ -10,6 +10,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
 
 interface ProjectDialogProps {
@@ -17,6 +24,8 @@ interface ProjectDialogProps {
   onOpenChange: (open: boolean) => void;
   project?: Project | null;
   onSave: (project: Partial<Project>) => Promise<void>;
+  departments?: Department[];
+  canChooseDepartment?: boolean;
 }
 
 export default function ProjectDialog({
@@ -24,18 +33,23 @@ export default function ProjectDialog({
   onOpenChange,
   project,
   onSave,
+  departments = [],
+  canChooseDepartment = false,
 }: ProjectDialogProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [departmentId, setDepartmentId] = useState('none');
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
     if (project) {
       setName(project.name);
       setDescription(project.description || '');
+      setDepartmentId(project.department_id || 'none');
     } else {
       setName('');
       setDescription('');
+      setDepartmentId('none');
     }
   }, [project, open]);
 
@@ -48,6 +62,7 @@ export default function ProjectDialog({
         id: project?.id,
         name: name.trim(),
         description: description.trim() || null,
+        department_id: departmentId === 'none' ? null : departmentId,
       });
       onOpenChange(false);
     } finally {
@@ -83,6 +98,25 @@ export default function ProjectDialog({
               rows={3}
             />
           </div>
+
+          {canChooseDepartment && (
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Company-wide</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
 
         <div className="flex justify-end gap-2">
@@ -0,0 +1,320 @@
+/**
+ * WorkflowDialog.tsx - Edit a Project's Statuses
+ *
+ * Lets managers give a project its own statuses (name, color and category)
+ * in board order, and optionally limit which moves between them are allowed.
+ * A project without its own workflow starts from a copy of the default one.
+ */
+
+import { useState, useEffect } from 'react';
+import { StatusColor, TaskStatus } from '@/types/database';
+import { WorkflowDraft } from '@/hooks/useWorkflows';
+import { STATUS_CATEGORIES, STATUS_COLORS, Workflow } from '@/lib/workflows';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Loader2, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface WorkflowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectName: string;
+  workflow: Workflow; // The workflow the project follows now
+  onSave: (draft: WorkflowDraft) => Promise<void>;
+  onReset: () => Promise<void>; // Back to the default workflow
+}
+
+// A status row being edited; key stays stable while rows move
+interface DraftStatus {
+  key: string;
+  id: string | null; // null until saved
+  name: string;
+  category: TaskStatus;
+  color: StatusColor;
+}
+
+const COLORS = Object.keys(STATUS_COLORS) as StatusColor[];
+
+/** Transition set entry for a move between two rows */
+const transitionKey = (fromKey: string, toKey: string) => `${fromKey}>${toKey}`;
+
+let nextKey = 0;
+
+export default function WorkflowDialog({ open, onOpenChange, projectName, workflow, onSave, onReset }: WorkflowDialogProps) {
+  const [statuses, setStatuses] = useState<DraftStatus[]>([]);
+  const [limitMoves, setLimitMoves] = useState(false);
+  const [transitions, setTransitions] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isCustom = workflow.projectId !== null;
+
+  // Start from the project's workflow, or a copy of the default one
+  useEffect(() => {
+    if (!open) return;
+    setStatuses(
+      workflow.statuses.map((s) => ({
+        key: s.id,
+        id: isCustom ? s.id : null,
+        name: s.name,
+        category: s.category,
+        color: s.color,
+      }))
+    );
+    setLimitMoves(workflow.transitions.length > 0);
+    setTransitions(new Set(workflow.transitions.map((t) => transitionKey(t.from_status_id, t.to_status_id))));
+  }, [open, workflow]);
+
+  const updateStatus = (key: string, changes: Partial<DraftStatus>) =>
+    setStatuses((prev) => prev.map((s) => (s.key === key ? { ...s, ...changes } : s)));
+
+  const moveStatus = (index: number, offset: number) =>
+    setStatuses((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addStatus = () =>
+    setStatuses((prev) => [
+      ...prev,
+      { key: `new-${nextKey++}`, id: null, name: '', category: 'in_progress', color: 'purple' },
+    ]);
+
+  const removeStatus = (key: string) => setStatuses((prev) => prev.filter((s) => s.key !== key));
+
+  const toggleTransition = (fromKey: string, toKey: string, allowed: boolean) =>
+    setTransitions((prev) => {
+      const next = new Set(prev);
+      if (allowed) next.add(transitionKey(fromKey, toKey));
+      else next.delete(transitionKey(fromKey, toKey));
+      return next;
+    });
+
+  // Every category needs a status, since tasks are moved by category (checkbox, roll-ups, other projects)
+  const missingCategories = STATUS_CATEGORIES.filter((c) => !statuses.some((s) => s.category === c.value));
+  const names = statuses.map((s) => s.name.trim().toLowerCase());
+  const hasBlankName = names.some((name) => !name);
+  const hasDuplicateName = new Set(names).size < names.length;
+  const problem = missingCategories.length > 0
+    ? `Add a ${missingCategories.map((c) => c.label).join(' and a ')} status`
+    : hasBlankName
+      ? 'Every status needs a name'
+      : hasDuplicateName
+        ? 'Status names must be unique'
+        : null;
+
+  const handleSave = async () => {
+    if (problem) return;
+
+    setIsLoading(true);
+    try {
+      const index = (key: string) => statuses.findIndex((s) => s.key === key);
+      await onSave({
+        statuses: statuses.map(({ id, name, category, color }) => ({ id, name: name.trim(), category, color })),
+        transitions: limitMoves
+          ? statuses.flatMap((from) =>
+              statuses
+                .filter((to) => to.key !== from.key && transitions.has(transitionKey(from.key, to.key)))
+                .map((to) => ({ from: index(from.key), to: index(to.key) }))
+            )
+          : [],
+      });
+      onOpenChange(false);
+    } catch {
+      // useWorkflows already reported the error
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsLoading(true);
+    try {
+      await onReset();
+      onOpenChange(false);
+    } catch {
+      // useWorkflows already reported the error
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Workflow for {projectName}</DialogTitle>
+          <DialogDescription>
+            {isCustom
+              ? 'Statuses are shown in this order on the board.'
+              : 'This project uses the default statuses. Changing them gives it its own workflow.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Status rows */}
+          <div className="space-y-2">
+            <div className="grid grid-cols-[auto_1fr_150px_auto] gap-2 text-xs text-muted-foreground px-1">
+              <span className="w-14">Color</span>
+              <span>Name</span>
+              <span>Counts as</span>
+              <span className="w-24" />
+            </div>
+            {statuses.map((status, index) => {
+              const lastOfCategory = statuses.filter((s) => s.category === status.category).length === 1;
+              return (
+                <div key={status.key} className="grid grid-cols-[auto_1fr_150px_auto] items-center gap-2">
+                  <Select value={status.color} onValueChange={(color) => updateStatus(status.key, { color: color as StatusColor })}>
+                    <SelectTrigger className="w-14" aria-label="Color">
+                      <span className={cn('h-3 w-3 rounded-full', STATUS_COLORS[status.color])} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLORS.map((color) => (
+                        <SelectItem key={color} value={color}>
+                          <span className="flex items-center gap-2 capitalize">
+                            <span className={cn('h-3 w-3 rounded-full', STATUS_COLORS[color])} />
+                            {color}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={status.name}
+                    onChange={(e) => updateStatus(status.key, { name: e.target.value })}
+                    placeholder="Status name"
+                    aria-label="Status name"
+                  />
+                  <Select value={status.category} onValueChange={(category) => updateStatus(status.key, { category: category as TaskStatus })}>
+                    <SelectTrigger aria-label="Category"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {STATUS_CATEGORIES.map((category) => (
+                        <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex w-24 justify-end">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveStatus(index, -1)} aria-label="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === statuses.length - 1} onClick={() => moveStatus(index, 1)} aria-label="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={lastOfCategory}
+                      title={lastOfCategory ? 'Each category needs at least one status' : undefined}
+                      onClick={() => removeStatus(status.key)}
+                      aria-label="Remove status"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            <Button variant="outline" size="sm" className="gap-2" onClick={addStatus}>
+              <Plus className="h-4 w-4" />
+              Add status
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Tasks on a removed status move to the first status of the same category.
+            </p>
+          </div>
+
+          {/* Allowed transitions */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="limitMoves">Limit moves between statuses</Label>
+              <Switch id="limitMoves" checked={limitMoves} onCheckedChange={setLimitMoves} />
+            </div>
+            {limitMoves && (
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/40">
+                      <th className="p-2 text-left font-medium text-muted-foreground">From \ To</th>
+                      {statuses.map((to) => (
+                        <th key={to.key} className="p-2 font-medium">{to.name || '…'}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statuses.map((from) => (
+                      <tr key={from.key} className="border-b last:border-0">
+                        <td className="p-2 font-medium">{from.name || '…'}</td>
+                        {statuses.map((to) => (
+                          <td key={to.key} className="p-2 text-center">
+                            {from.key !== to.key && (
+                              <Checkbox
+                                checked={transitions.has(transitionKey(from.key, to.key))}
+                                onCheckedChange={(checked) => toggleTransition(from.key, to.key, checked as boolean)}
+                                aria-label={`Allow ${from.name} to ${to.name}`}
+                              />
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col-reverse sm:flex-row sm:items-center gap-2">
+          {isCustom && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" className="text-destructive" disabled={isLoading}>
+                  Use default workflow
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Go back to the default workflow?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The project's own statuses are removed. Its tasks move to the default status of the same category.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleReset}>Use default workflow</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          {problem && <p className="text-sm text-muted-foreground sm:ml-auto">{problem}</p>}
+          <div className={cn('flex justify-end gap-2', !problem && 'sm:ml-auto')}>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isLoading || !!problem}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Workflow
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * AssigneePicker.tsx - Choose a Task's Assignees
+ *
+ * A button showing the chosen people that opens a searchable list of users;
+ * clicking one toggles them. The first person chosen is the primary assignee.
+ */
+
+import { useState } from 'react';
+import { Profile } from '@/types/database';
+import AvatarStack from '@/components/tasks/AvatarStack';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { Check, User } from 'lucide-react';
+
+interface AssigneePickerProps {
+  users: Profile[]; // People who can be picked
+  value: string[]; // Ids of the chosen people, primary first
+  onChange: (userIds: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function AssigneePicker({ users, value, onChange, disabled, className }: AssigneePickerProps) {
+  const [open, setOpen] = useState(false);
+  const chosen = value.map((id) => users.find((u) => u.id === id)).filter(Boolean);
+
+  const toggle = (userId: string) =>
+    onChange(value.includes(userId) ? value.filter((id) => id !== userId) : [...value, userId]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn('h-auto min-h-10 w-full justify-start gap-2 font-normal', className)}
+          disabled={disabled}
+        >
+          {chosen.length === 0 ? (
+            <>
+              <User className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="text-muted-foreground">Unassigned</span>
+            </>
+          ) : (
+            <>
+              <AvatarStack users={chosen} />
+              <span className="truncate">{chosen.map((u) => u.full_name).join(', ')}</span>
+            </>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search people..." />
+          <CommandList>
+            <CommandEmpty>No people found</CommandEmpty>
+            <CommandGroup>
+              {users.map((u) => (
+                <CommandItem key={u.id} value={`${u.full_name} ${u.email}`} onSelect={() => toggle(u.id)}>
+                  <AvatarStack users={[u]} className="mr-2" />
+                  <span className="flex-1 truncate">{u.full_name}</span>
+                  {value[0] === u.id && <span className="mr-2 text-xs text-muted-foreground">primary</span>}
+                  <Check className={cn('h-4 w-4', value.includes(u.id) ? 'opacity-100' : 'opacity-0')} />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * AvatarStack.tsx - Overlapping Avatars for a Task's People
+ *
+ * Shows the first few people as overlapping avatars (initials for those without
+ * one) and "+N" for the rest; hovering shows everyone's name. Used for
+ * assignees and watchers.
+ */
+
+import { Profile } from '@/types/database';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+
+interface AvatarStackProps {
+  users: Profile[];
+  max?: number; // Avatars shown before the "+N"
+  className?: string;
+}
+
+/** Get initials from name (e.g., "John Doe" -> "JD") */
+const getInitials = (name: string) =>
+  name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+
+export default function AvatarStack({ users, max = 3, className }: AvatarStackProps) {
+  const shown = users.slice(0, max);
+  const hidden = users.length - shown.length;
+
+  return (
+    <div className={cn('flex items-center -space-x-1.5', className)} title={users.map((u) => u.full_name).join(', ')}>
+      {shown.map((u) => (
+        <Avatar key={u.id} className="h-5 w-5 ring-2 ring-background">
+          {u.avatar_url && <AvatarImage src={u.avatar_url} alt={u.full_name} />}
+          <AvatarFallback className="text-[10px] bg-secondary">{getInitials(u.full_name)}</AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden > 0 && (
+        <Avatar className="h-5 w-5 ring-2 ring-background">
+          <AvatarFallback className="text-[10px] bg-muted text-muted-foreground">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * BulkActionBar.tsx - Actions for Selected Tasks
+ *
+ * Floats at the bottom of the page while tasks are selected. Changes status,
+ * priority, assignee, project or due date of every selected task at once,
+ * or moves them all to the trash after a confirmation.
+ */
+
+import { useState } from 'react';
+import { Project, Profile, TaskPriority, TaskStatus } from '@/types/database';
+import { BulkTaskChanges } from '@/hooks/useTaskMutations';
+import { STATUS_CATEGORIES, STATUS_COLORS, Workflow } from '@/lib/workflows';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Calendar, Loader2, Trash2, X } from 'lucide-react';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number; // Tasks shown, for "Select all"
+  projects: Project[];
+  users: Profile[];
+  workflow?: Workflow; // Statuses to offer when all tasks share a workflow; otherwise status categories
+  onSelectAll: () => void;
+  onClear: () => void;
+  onUpdate: (changes: BulkTaskChanges) => Promise<void>;
+  onTrash: () => Promise<void>;
+}
+
+const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'urgent', label: 'Urgent' },
+];
+
+export default function BulkActionBar({
+  selectedCount,
+  totalCount,
+  projects,
+  users,
+  workflow,
+  onSelectAll,
+  onClear,
+  onUpdate,
+  onTrash,
+}: BulkActionBarProps) {
+  const [isWorking, setIsWorking] = useState(false);
+  const [dueDate, setDueDate] = useState('');
+  const [isDuePickerOpen, setIsDuePickerOpen] = useState(false);
+
+  /** Run one bulk action, keeping the bar disabled until it finishes */
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch {
+      // useTaskMutations already reported the error
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const applyDueDate = (value: string | null) => {
+    setIsDuePickerOpen(false);
+    run(() => onUpdate({ due_date: value ? new Date(value).toISOString() : null }));
+  };
+
+  /** Status changes carry the category; a workflow status also pins the exact status */
+  const applyStatus = (value: string) => {
+    const status = workflow?.statuses.find((s) => s.id === value);
+    run(() => onUpdate(status ? { status: status.category, status_id: status.id } : { status: value as TaskStatus }));
+  };
+
+  const taskLabel = `${selectedCount} task${selectedCount === 1 ? '' : 's'}`;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-40 w-[calc(100%-2rem)] max-w-4xl -translate-x-1/2 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-background p-2 shadow-lg">
+        <div className="flex items-center gap-1 pl-2 pr-1">
+          <span className="text-sm font-medium whitespace-nowrap">{selectedCount} selected</span>
+          {selectedCount < totalCount && (
+            <Button variant="link" size="sm" className="h-auto px-1" onClick={onSelectAll} disabled={isWorking}>
+              Select all {totalCount} shown
+            </Button>
+          )}
+        </div>
+
+        {/* Each select applies as soon as a value is picked, then resets */}
+        <Select value="" onValueChange={applyStatus} disabled={isWorking}>
+          <SelectTrigger className="h-8 w-[120px]"><SelectValue placeholder="Status" /></SelectTrigger>
+          <SelectContent>
+            {(workflow
+              ? workflow.statuses.map((s) => ({ value: s.id, label: s.name, color: STATUS_COLORS[s.color] }))
+              : STATUS_CATEGORIES
+            ).map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                <span className="flex items-center gap-2">
+                  <span className={cn('h-2 w-2 rounded-full', option.color)} />
+                  {option.label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(value) => run(() => onUpdate({ priority: value as TaskPriority }))} disabled={isWorking}>
+          <SelectTrigger className="h-8 w-[120px]"><SelectValue placeholder="Priority" /></SelectTrigger>
+          <SelectContent>
+            {PRIORITY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(value) => run(() => onUpdate({ assigned_to: value === 'none' ? null : value }))}
+          disabled={isWorking}
+        >
+          <SelectTrigger className="h-8 w-[140px]"><SelectValue placeholder="Assignee" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Unassigned</SelectItem>
+            {users.filter((u) => !u.deactivated_at).map((u) => (
+              <SelectItem key={u.id} value={u.id}>{u.full_name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(value) => run(() => onUpdate({ project_id: value === 'none' ? null : value }))}
+          disabled={isWorking}
+        >
+          <SelectTrigger className="h-8 w-[140px]"><SelectValue placeholder="Project" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No Project</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover open={isDuePickerOpen} onOpenChange={setIsDuePickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 gap-2" disabled={isWorking}>
+              <Calendar className="h-4 w-4" />
+              Due date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-2">
+            <Input type="date" aria-label="New due date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            <div className="flex justify-between gap-2">
+              <Button variant="ghost" size="sm" onClick={() => applyDueDate(null)}>Clear due date</Button>
+              <Button size="sm" onClick={() => applyDueDate(dueDate)} disabled={!dueDate}>Apply</Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 gap-2 text-destructive" disabled={isWorking}>
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Move {taskLabel} to the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The selected {selectedCount === 1 ? 'task' : 'tasks'} and any subtasks will be moved to the trash.
+                You can undo this right away, or restore them later from the Trash page.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => run(onTrash)}>Move to trash</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <div className="ml-auto flex items-center gap-1">
+          {isWorking && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} aria-label="Clear selection">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
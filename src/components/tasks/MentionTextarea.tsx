@@ -0,0 +1,141 @@
+/**
+ * MentionTextarea.tsx - Textarea with @mention Autocomplete
+ *
+ * Typing "@" followed by part of a name suggests matching people. Picking one
+ * inserts "@Full Name" and records their id in the mention list.
+ */
+
+import { useState, useRef } from 'react';
+import { Profile } from '@/types/database';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { getMentionQuery } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+
+interface MentionTextareaProps {
+  value: string;
+  mentions: string[];
+  users: Profile[];
+  onChange: (value: string, mentions: string[]) => void;
+  onSubmit?: () => void; // Ctrl/Cmd+Enter
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export default function MentionTextarea({
+  value,
+  mentions,
+  users,
+  onChange,
+  onSubmit,
+  placeholder,
+  rows = 2,
+  disabled,
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<{ query: string; start: number } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = query
+    ? users
+        .filter((u) => u.full_name.toLowerCase().includes(query.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  /** Track the text and whether the caret sits in an "@query" */
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value, mentions);
+    setQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+    setHighlighted(0);
+  };
+
+  /** Replace the "@query" with the picked person's name */
+  const pickUser = (picked: Profile) => {
+    if (!query) return;
+    const caret = query.start + 1 + query.query.length;
+    const inserted = `@${picked.full_name} `;
+    const next = value.slice(0, query.start) + inserted + value.slice(caret);
+    onChange(next, [...mentions, picked.id]);
+    setQuery(null);
+
+    // Put the caret right after the inserted name
+    requestAnimationFrame(() => {
+      const position = query.start + inserted.length;
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted((i) => (i + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted((i) => (i - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickUser(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        // Close the suggestions without closing the surrounding dialog
+        e.stopPropagation();
+        setQuery(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        placeholder={placeholder}
+        rows={rows}
+        disabled={disabled}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((u, index) => (
+            <button
+              key={u.id}
+              type="button"
+              className={cn(
+                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-left',
+                index === highlighted ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              )}
+              onMouseDown={(e) => {
+                e.preventDefault(); // Keep focus in the textarea
+                pickUser(u);
+              }}
+            >
+              <Avatar className="h-5 w-5">
+                <AvatarFallback className="text-[10px] bg-secondary">
+                  {u.full_name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2)}
+                </AvatarFallback>
+              </Avatar>
+              <span className="truncate">{u.full_name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
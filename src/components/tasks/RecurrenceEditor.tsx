@@ -0,0 +1,199 @@
+/**
+ * RecurrenceEditor.tsx - Repeat Settings for a Task
+ *
+ * Edits a RecurrenceRule: daily, weekly on chosen weekdays, or monthly on a
+ * day of the month or the nth weekday, ending never, on a date, or after N times.
+ * A null value means the task does not repeat.
+ */
+
+import { RecurrenceRule, RecurrenceFrequency } from '@/types/database';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  disabled?: boolean;
+  anchorDate?: Date; // Used to pre-fill weekday/day-of-month when a frequency is picked
+}
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' };
+
+export default function RecurrenceEditor({ value, onChange, disabled, anchorDate = new Date() }: RecurrenceEditorProps) {
+  // An empty until string means "On date" was picked but no date entered yet
+  const endMode = value?.count ? 'count' : typeof value?.until === 'string' ? 'until' : 'never';
+
+  /** Start a fresh rule when the frequency changes */
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      weekdays: frequency === 'weekly' ? [anchorDate.getDay()] : undefined,
+      monthly_mode: frequency === 'monthly' ? 'day_of_month' : undefined,
+      day_of_month: frequency === 'monthly' ? anchorDate.getDate() : undefined,
+      until: value?.until ?? null,
+      count: value?.count ?? null,
+    });
+  };
+
+  const update = (changes: Partial<RecurrenceRule>) => value && onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <Select value={value?.frequency ?? 'none'} onValueChange={handleFrequencyChange} disabled={disabled}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Every</span>
+            <Input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-16"
+              disabled={disabled}
+            />
+            <span className="text-sm text-muted-foreground">{UNIT_LABELS[value.frequency]}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Weekly: pick weekdays */}
+      {value?.frequency === 'weekly' && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="justify-start"
+          value={(value.weekdays || []).map(String)}
+          onValueChange={(days) => days.length > 0 && update({ weekdays: days.map(Number) })}
+          disabled={disabled}
+        >
+          {WEEKDAY_LABELS.map((label, day) => (
+            <ToggleGroupItem key={label} value={String(day)} className="px-2 text-xs">{label}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {/* Monthly: day of month or nth weekday */}
+      {value?.frequency === 'monthly' && (
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            value={value.monthly_mode ?? 'day_of_month'}
+            onValueChange={(mode) =>
+              update(mode === 'nth_weekday'
+                ? { monthly_mode: 'nth_weekday', nth: 1, weekday: anchorDate.getDay() }
+                : { monthly_mode: 'day_of_month', day_of_month: anchorDate.getDate() })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day_of_month">On day of month</SelectItem>
+              <SelectItem value="nth_weekday">On nth weekday</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {value.monthly_mode === 'nth_weekday' ? (
+            <div className="flex gap-2">
+              <Select value={String(value.nth ?? 1)} onValueChange={(n) => update({ nth: Number(n) })} disabled={disabled}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1st</SelectItem>
+                  <SelectItem value="2">2nd</SelectItem>
+                  <SelectItem value="3">3rd</SelectItem>
+                  <SelectItem value="4">4th</SelectItem>
+                  <SelectItem value="-1">Last</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={String(value.weekday ?? 0)} onValueChange={(d) => update({ weekday: Number(d) })} disabled={disabled}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <SelectItem key={label} value={String(day)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <Input
+              type="number"
+              min={1}
+              max={31}
+              value={value.day_of_month ?? 1}
+              onChange={(e) => update({ day_of_month: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      )}
+
+      {/* End condition */}
+      {value && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Ends</Label>
+            <Select
+              value={endMode}
+              onValueChange={(mode) =>
+                update({
+                  until: mode === 'until' ? value.until ?? '' : null,
+                  count: mode === 'count' ? value.count ?? 5 : null,
+                })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After occurrences</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {endMode === 'until' && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">End date</Label>
+              <Input
+                type="date"
+                value={value.until ?? ''}
+                onChange={(e) => update({ until: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {endMode === 'count' && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Occurrences</Label>
+              <Input
+                type="number"
+                min={1}
+                value={value.count ?? 1}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * SubtaskList.tsx - Child Tasks of a Task
+ *
+ * Lists a task's subtasks with completion checkboxes and lets managers
+ * add new subtasks. Completing every subtask completes the parent
+ * (handled by a database trigger).
+ */
+
+import { useState } from 'react';
+import { Task } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SubtaskListProps {
+  subtasks: Task[];
+  onAdd: (title: string) => Promise<void>;
+  onToggle: (taskId: string, completed: boolean) => Promise<void>;
+  canEdit: boolean;
+}
+
+export default function SubtaskList({ subtasks, onAdd, onToggle, canEdit }: SubtaskListProps) {
+  const [newSubtask, setNewSubtask] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  /** Create the typed subtask and clear the input */
+  const handleAdd = async () => {
+    if (!newSubtask.trim()) return;
+
+    setIsAdding(true);
+    try {
+      await onAdd(newSubtask.trim());
+      setNewSubtask('');
+    } catch {
+      // The caller already reported the error; keep the title to try again
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {subtasks.map((subtask) => {
+        const isCompleted = subtask.status === 'completed';
+        return (
+          <div key={subtask.id} className="flex items-center gap-2">
+            <Checkbox
+              checked={isCompleted}
+              onCheckedChange={(checked) => onToggle(subtask.id, checked as boolean)}
+            />
+            <span className={cn('flex-1 text-sm', isCompleted && 'line-through text-muted-foreground')}>
+              {subtask.title}
+            </span>
+          </div>
+        );
+      })}
+
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={newSubtask}
+            onChange={(e) => setNewSubtask(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="Add subtask"
+            className="h-8"
+          />
+          <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={handleAdd} disabled={isAdding || !newSubtask.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * TaskAttachments.tsx - File Attachments Panel for a Task
+ *
+ * Drop files onto the panel (or browse) to upload them. Images show a
+ * thumbnail; every file can be downloaded or deleted.
+ */
+
+import { useState, useRef } from 'react';
+import { useTaskAttachments } from '@/hooks/useTaskAttachments';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Download, FileText, Loader2, Paperclip, Trash2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TaskAttachmentsProps {
+  taskId: string;
+}
+
+/** Human-readable file size (e.g., 1536 -> "1.5 KB") */
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function TaskAttachments({ taskId }: TaskAttachmentsProps) {
+  const { attachments, thumbnailUrls, loading, uploading, uploadFiles, downloadAttachment, deleteAttachment } =
+    useTaskAttachments(taskId);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) {
+      uploadFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  if (loading) {
+    return <Skeleton className="h-16" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Drop zone */}
+      <div
+        className={cn(
+          'flex flex-col items-center justify-center gap-1 rounded-md border border-dashed p-4 text-sm text-muted-foreground transition-colors cursor-pointer',
+          isDragging && 'border-primary bg-primary/5'
+        )}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {uploading ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : (
+          <Upload className="h-5 w-5" />
+        )}
+        <span>{uploading ? 'Uploading...' : 'Drop files here or click to browse'}</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) uploadFiles(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* Attachment list */}
+      {attachments.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Paperclip className="h-4 w-4" />
+          No attachments
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {attachments.map((attachment) => {
+            const thumbnail = thumbnailUrls[attachment.storage_path];
+            return (
+              <div key={attachment.id} className="flex items-center gap-3 rounded-md border p-2">
+                {thumbnail ? (
+                  <img src={thumbnail} alt={attachment.file_name} className="h-10 w-10 rounded object-cover" />
+                ) : (
+                  <div className="flex h-10 w-10 items-center justify-center rounded bg-muted">
+                    <FileText className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{attachment.file_name}</p>
+                  <p className="text-xs text-muted-foreground">{formatSize(attachment.size_bytes)}</p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => downloadAttachment(attachment)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => deleteAttachment(attachment)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
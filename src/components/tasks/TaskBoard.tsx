@@ -0,0 +1,137 @@
+/**
+ * TaskBoard.tsx - Kanban Board of Tasks
+ *
+ * Shows tasks in one column per status of the given workflow, or one per
+ * status category (pending, in progress, completed) when tasks from several
+ * workflows are shown together. Cards can be dragged between columns to
+ * change their status; the drop is reported through onStatusChange so the
+ * caller can persist it. Columns the workflow doesn't allow moving to are
+ * dimmed while dragging.
+ */
+
+import { useState } from 'react';
+import { Task, TaskWithRelations } from '@/types/database';
+import TaskCard from '@/components/tasks/TaskCard';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { canMoveTo, STATUS_CATEGORIES, STATUS_COLORS, Workflow } from '@/lib/workflows';
+
+type StatusChange = Pick<Task, 'status'> & Partial<Pick<Task, 'status_id'>>;
+
+interface TaskBoardProps {
+  tasks: TaskWithRelations[];
+  workflow?: Workflow; // Columns per workflow status; otherwise per status category
+  onStatusChange: (taskId: string, changes: StatusChange) => void;
+  onComplete: (taskId: string, completed: boolean) => void;
+  onTaskClick: (task: TaskWithRelations) => void;
+}
+
+interface BoardColumn {
+  key: string;
+  label: string;
+  color: string;
+  contains: (task: Task) => boolean;
+  changes: StatusChange; // What dropping a card here changes
+}
+
+// Category columns, colored with the status design tokens
+const CATEGORY_COLUMNS: BoardColumn[] = STATUS_CATEGORIES.map((category) => ({
+  key: category.value,
+  label: category.label,
+  color: category.color,
+  contains: (task) => task.status === category.value,
+  changes: { status: category.value },
+}));
+
+export default function TaskBoard({ tasks, workflow, onStatusChange, onComplete, onTaskClick }: TaskBoardProps) {
+  // Column currently hovered by a dragged card (for highlighting)
+  const [dragOverColumn, setDragOverColumn] = useState<string | null>(null);
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+
+  const columns: BoardColumn[] = workflow
+    ? workflow.statuses.map((status) => ({
+        key: status.id,
+        label: status.name,
+        color: STATUS_COLORS[status.color],
+        contains: (task) => task.status_id === status.id,
+        changes: { status: status.category, status_id: status.id },
+      }))
+    : CATEGORY_COLUMNS;
+
+  /** Whether the dragged card may be dropped on a column */
+  const accepts = (column: BoardColumn) =>
+    !workflow || !draggedTask || canMoveTo(workflow, draggedTask.status_id, column.key);
+
+  const endDrag = () => {
+    setDragOverColumn(null);
+    setDraggedTask(null);
+  };
+
+  /** Move the dropped task into the target column if its status changed */
+  const handleDrop = (e: React.DragEvent, column: BoardColumn) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData('text/plain');
+    const task = tasks.find((t) => t.id === taskId);
+    if (task && !column.contains(task) && accepts(column)) {
+      onStatusChange(taskId, column.changes);
+    }
+    endDrag();
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4 md:overflow-x-auto pb-1">
+      {columns.map((column) => {
+        const columnTasks = tasks.filter(column.contains);
+        return (
+          <div
+            key={column.key}
+            className={cn(
+              'flex flex-col rounded-lg border bg-muted/40 p-3 min-h-[200px] transition-colors md:flex-1 md:min-w-[240px]',
+              dragOverColumn === column.key && accepts(column) && 'border-primary/40 bg-primary/5',
+              !accepts(column) && 'opacity-50'
+            )}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOverColumn(column.key);
+            }}
+            onDragLeave={() => setDragOverColumn(null)}
+            onDrop={(e) => handleDrop(e, column)}
+          >
+            {/* Column header with status dot and task count */}
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <span className={cn('h-2 w-2 rounded-full', column.color)} />
+                <h3 className="text-sm font-medium">{column.label}</h3>
+              </div>
+              <Badge variant="secondary">{columnTasks.length}</Badge>
+            </div>
+
+            <div className="space-y-3 flex-1">
+              {columnTasks.map((task) => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', task.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedTask(task);
+                  }}
+                  onDragEnd={endDrag}
+                >
+                  <TaskCard
+                    task={task}
+                    onComplete={onComplete}
+                    onClick={() => onTaskClick(task)}
+                  />
+                </div>
+              ))}
+              {columnTasks.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-6">Drop tasks here</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,24 +3,35 @@
  * 
  * Displays a single task with:
  * - Checkbox to toggle completion
- * - Title and description
+ * - Title, description and labels
  * - Priority badge with color coding
- * - Project, due date, and assignee info
+ * - Workflow status, project, due date, and assignees (primary named, the rest stacked)
+ * - Parent task and subtask/checklist progress
+ * - Blocked indicator while any blocker is still open
+ * - Repeat indicator for recurring tasks, milestone marker
+ * - Optional selection checkbox for bulk actions
  */
 
 import { TaskWithRelations } from '@/types/database';
+import { useDateFormat } from '@/hooks/useDateFormat';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Calendar, FolderKanban } from 'lucide-react';
+import AvatarStack from '@/components/tasks/AvatarStack';
+import LabelChip from '@/components/labels/LabelChip';
+import { Calendar, Diamond, FolderKanban, ListChecks, CornerDownRight, Lock, Repeat } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { format } from 'date-fns';
+import { describeOpenBlockers, isTaskBlocked } from '@/lib/taskDependencies';
+import { describeRecurrence } from '@/lib/recurrence';
+import { STATUS_COLORS } from '@/lib/workflows';
 
 interface TaskCardProps {
   task: TaskWithRelations;
   onComplete: (taskId: string, completed: boolean) => void;
   onClick: () => void;
+  selected?: boolean;
+  onSelectChange?: (selected: boolean) => void; // Enables the selection checkbox
+  selectionActive?: boolean; // Some task is selected, so every card shows its selection checkbox
 }
 
 // Colors for each priority level (using design system tokens)
@@ -31,23 +42,55 @@ const PRIORITY_COLORS = {
   urgent: 'bg-priority-urgent/10 text-priority-urgent border-priority-urgent/20',
 };
 
-export default function TaskCard({ task, onComplete, onClick }: TaskCardProps) {
+/** Count finished vs. total steps across subtasks and checklist items */
+function getProgress(task: TaskWithRelations) {
+  const subtasks = task.subtasks || [];
+  const items = task.checklist_items || [];
+  return {
+    done: subtasks.filter((t) => t.status === 'completed').length + items.filter((i) => i.is_done).length,
+    total: subtasks.length + items.length,
+  };
+}
+
+export default function TaskCard({ task, onComplete, onClick, selected, onSelectChange, selectionActive }: TaskCardProps) {
   const isCompleted = task.status === 'completed';
+  const progress = getProgress(task);
+  const isBlocked = isTaskBlocked(task);
+  const { formatDay } = useDateFormat();
+  const shortDay = (value: string) => formatDay(value, { month: 'short', day: 'numeric' });
 
-  /** Get initials from name (e.g., "John Doe" -> "JD") */
-  const getInitials = (name: string) => 
-    name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+  // Lists that don't load assignee rows still know the primary assignee
+  const assignees = task.assignees?.length ? task.assignees : task.assigned_user ? [task.assigned_user] : [];
 
   return (
     <Card
       className={cn(
         'group cursor-pointer transition-all duration-200 hover:shadow-md hover:border-primary/20',
-        isCompleted && 'opacity-60'
+        isCompleted && !selected && 'opacity-60',
+        selected && 'ring-2 ring-primary'
       )}
       onClick={onClick}
     >
       <CardContent className="p-4">
         <div className="flex items-start gap-3">
+          {/* Selection for bulk actions - shown on hover until something is selected */}
+          {onSelectChange && (
+            <div
+              onClick={(e) => e.stopPropagation()}
+              className={cn(
+                'border-r pr-3 transition-opacity',
+                !selected && !selectionActive && 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'
+              )}
+            >
+              <Checkbox
+                checked={!!selected}
+                onCheckedChange={(checked) => onSelectChange(checked as boolean)}
+                aria-label={`Select ${task.title}`}
+                className="mt-1 rounded-full"
+              />
+            </div>
+          )}
+
           {/* Checkbox - click stops propagation to prevent opening dialog */}
           <div onClick={(e) => e.stopPropagation()}>
             <Checkbox
@@ -66,9 +109,21 @@ export default function TaskCard({ task, onComplete, onClick }: TaskCardProps) {
               )}>
                 {task.title}
               </h3>
-              <Badge variant="outline" className={cn('shrink-0', PRIORITY_COLORS[task.priority])}>
-                {task.priority}
-              </Badge>
+              <div className="flex items-center gap-1.5 shrink-0">
+                {isBlocked && !isCompleted && (
+                  <Badge
+                    variant="outline"
+                    className="gap-1 bg-priority-urgent/10 text-priority-urgent border-priority-urgent/20"
+                    title={`Blocked by ${describeOpenBlockers(task)}`}
+                  >
+                    <Lock className="h-3 w-3" />
+                    blocked
+                  </Badge>
+                )}
+                <Badge variant="outline" className={PRIORITY_COLORS[task.priority]}>
+                  {task.priority}
+                </Badge>
+              </div>
             </div>
 
             {/* Description (if present) */}
@@ -78,8 +133,29 @@ export default function TaskCard({ task, onComplete, onClick }: TaskCardProps) {
               </p>
             )}
 
-            {/* Metadata: Project, Due Date, Assignee */}
+            {/* Labels */}
+            {task.labels && task.labels.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-3">
+                {task.labels.map((label) => <LabelChip key={label.id} label={label} />)}
+              </div>
+            )}
+
+            {/* Metadata: Status, Parent, Project, Progress, Due Date, Assignee */}
             <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+              {task.workflow_status && (
+                <div className="flex items-center gap-1">
+                  <span className={cn('h-2 w-2 rounded-full', STATUS_COLORS[task.workflow_status.color])} />
+                  <span>{task.workflow_status.name}</span>
+                </div>
+              )}
+
+              {task.parent_task && (
+                <div className="flex items-center gap-1">
+                  <CornerDownRight className="h-3.5 w-3.5" />
+                  <span className="truncate max-w-[160px]">{task.parent_task.title}</span>
+                </div>
+              )}
+
               {task.project && (
                 <div className="flex items-center gap-1">
                   <FolderKanban className="h-3.5 w-3.5" />
@@ -87,21 +163,45 @@ export default function TaskCard({ task, onComplete, onClick }: TaskCardProps) {
                 </div>
               )}
               
-              {task.due_date && (
+              {progress.total > 0 && (
+                <div className={cn(
+                  'flex items-center gap-1',
+                  progress.done === progress.total && 'text-status-completed'
+                )}>
+                  <ListChecks className="h-3.5 w-3.5" />
+                  <span>{progress.done}/{progress.total}</span>
+                </div>
+              )}
+
+              {task.is_milestone ? (
+                <div className="flex items-center gap-1 font-medium text-foreground">
+                  <Diamond className="h-3.5 w-3.5" />
+                  <span>{task.due_date ? shortDay(task.due_date) : 'Milestone'}</span>
+                </div>
+              ) : (task.start_date || task.due_date) && (
                 <div className="flex items-center gap-1">
                   <Calendar className="h-3.5 w-3.5" />
-                  <span>{format(new Date(task.due_date), 'MMM d')}</span>
+                  <span>
+                    {task.start_date && `${shortDay(task.start_date)} – `}
+                    {task.due_date ? shortDay(task.due_date) : '…'}
+                  </span>
+                </div>
+              )}
+
+              {task.recurrence && (
+                <div className="flex items-center gap-1" title={describeRecurrence(task.recurrence)}>
+                  <Repeat className="h-3.5 w-3.5" />
+                  <span>#{task.occurrence_number}</span>
                 </div>
               )}
 
-              {task.assigned_user && (
+              {assignees.length > 0 && (
                 <div className="flex items-center gap-1">
-                  <Avatar className="h-5 w-5">
-                    <AvatarFallback className="text-[10px] bg-secondary">
-                      {getInitials(task.assigned_user.full_name)}
-                    </AvatarFallback>
-                  </Avatar>
-                  <span>{task.assigned_user.full_name}</span>
+                  <AvatarStack users={assignees} />
+                  <span>
+                    {assignees[0].full_name}
+                    {assignees.length > 1 && ` +${assignees.length - 1}`}
+                  </span>
                 </div>
               )}
             </div>
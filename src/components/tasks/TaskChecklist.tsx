@@ -0,0 +1,86 @@
+/**
+ * TaskChecklist.tsx - Lightweight Checklist for a Task
+ *
+ * Lists a task's checklist items with checkboxes. Items can be added and
+ * removed when the user may edit the task; anyone who sees the task can tick them.
+ */
+
+import { useState } from 'react';
+import { TaskChecklistItem } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TaskChecklistProps {
+  items: TaskChecklistItem[];
+  onAdd: (title: string) => Promise<void>;
+  onToggle: (itemId: string, isDone: boolean) => Promise<void>;
+  onDelete: (itemId: string) => Promise<void>;
+  canEdit: boolean;
+}
+
+export default function TaskChecklist({ items, onAdd, onToggle, onDelete, canEdit }: TaskChecklistProps) {
+  const [newItem, setNewItem] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  /** Add the typed item and clear the input */
+  const handleAdd = async () => {
+    if (!newItem.trim()) return;
+
+    setIsAdding(true);
+    try {
+      await onAdd(newItem.trim());
+      setNewItem('');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.id} className="group flex items-center gap-2">
+          <Checkbox
+            checked={item.is_done}
+            onCheckedChange={(checked) => onToggle(item.id, checked as boolean)}
+          />
+          <span className={cn('flex-1 text-sm', item.is_done && 'line-through text-muted-foreground')}>
+            {item.title}
+          </span>
+          {canEdit && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100"
+              onClick={() => onDelete(item.id)}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="Add checklist item"
+            className="h-8"
+          />
+          <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={handleAdd} disabled={isAdding || !newItem.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
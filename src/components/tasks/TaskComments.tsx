@@ -0,0 +1,254 @@
+/**
+ * TaskComments.tsx - Comment Thread Panel for a Task
+ *
+ * Shows a task's discussion with one level of replies. Anyone who can see
+ * the task can comment; authors can edit and delete their own comments.
+ * "@" opens mention autocomplete against the given people.
+ */
+
+import { useState } from 'react';
+import { Profile, TaskCommentWithAuthor } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTaskComments } from '@/hooks/useTaskComments';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import MentionTextarea from '@/components/tasks/MentionTextarea';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { extractMentions, splitMentions } from '@/lib/mentions';
+import { Loader2, MessageSquare, Reply, Pencil, Trash2 } from 'lucide-react';
+
+interface TaskCommentsProps {
+  taskId: string;
+  users: Profile[];
+}
+
+/** Get initials from name (e.g., "John Doe" -> "JD") */
+const getInitials = (name: string) =>
+  name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+
+export default function TaskComments({ taskId, users }: TaskCommentsProps) {
+  const { comments, loading, addComment, updateComment, deleteComment } = useTaskComments(taskId);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const topLevel = comments.filter((c) => !c.parent_id);
+  const repliesTo = (commentId: string) => comments.filter((c) => c.parent_id === commentId);
+
+  if (loading) {
+    return <Skeleton className="h-16" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {topLevel.length === 0 && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <MessageSquare className="h-4 w-4" />
+          No comments yet
+        </p>
+      )}
+
+      {topLevel.map((comment) => (
+        <div key={comment.id} className="space-y-3">
+          <CommentItem
+            comment={comment}
+            users={users}
+            isEditing={editingId === comment.id}
+            onEdit={() => setEditingId(comment.id)}
+            onCancelEdit={() => setEditingId(null)}
+            onSaveEdit={async (body, mentions) => {
+              await updateComment(comment.id, body, mentions);
+              setEditingId(null);
+            }}
+            onDelete={() => deleteComment(comment.id)}
+            onReply={() => setReplyingTo(comment.id)}
+          />
+
+          {/* Replies */}
+          <div className="ml-8 space-y-3 border-l pl-3 empty:hidden">
+            {repliesTo(comment.id).map((reply) => (
+              <CommentItem
+                key={reply.id}
+                comment={reply}
+                users={users}
+                isEditing={editingId === reply.id}
+                onEdit={() => setEditingId(reply.id)}
+                onCancelEdit={() => setEditingId(null)}
+                onSaveEdit={async (body, mentions) => {
+                  await updateComment(reply.id, body, mentions);
+                  setEditingId(null);
+                }}
+                onDelete={() => deleteComment(reply.id)}
+              />
+            ))}
+            {replyingTo === comment.id && (
+              <CommentComposer
+                users={users}
+                placeholder="Write a reply..."
+                submitLabel="Reply"
+                onCancel={() => setReplyingTo(null)}
+                onSubmit={async (body, mentions) => {
+                  await addComment(body, mentions, comment.id);
+                  setReplyingTo(null);
+                }}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <CommentComposer
+        users={users}
+        placeholder="Write a comment... Use @ to mention someone"
+        submitLabel="Comment"
+        onSubmit={(body, mentions) => addComment(body, mentions)}
+      />
+    </div>
+  );
+}
+
+interface CommentItemProps {
+  comment: TaskCommentWithAuthor;
+  users: Profile[];
+  isEditing: boolean;
+  onEdit: () => void;
+  onCancelEdit: () => void;
+  onSaveEdit: (body: string, mentions: string[]) => Promise<void>;
+  onDelete: () => void;
+  onReply?: () => void;
+}
+
+/** A single comment with its actions, or an inline editor while editing */
+function CommentItem({ comment, users, isEditing, onEdit, onCancelEdit, onSaveEdit, onDelete, onReply }: CommentItemProps) {
+  const { user } = useAuth();
+  const { formatMoment, formatRelative } = useDateFormat();
+  const isOwn = comment.author_id === user?.id;
+  const isEdited = comment.updated_at !== comment.created_at;
+  const mentioned = users.filter((u) => comment.mentions.includes(u.id));
+  const authorName = comment.author?.full_name || 'Unknown user';
+
+  return (
+    <div className="flex items-start gap-2">
+      <Avatar className="h-7 w-7">
+        <AvatarFallback className="text-[10px] bg-secondary">{getInitials(authorName)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 text-xs">
+          <span className="font-medium">{authorName}</span>
+          <span className="text-muted-foreground" title={formatMoment(comment.created_at)}>
+            {formatRelative(comment.created_at)}
+            {isEdited && ' (edited)'}
+          </span>
+        </div>
+
+        {isEditing ? (
+          <CommentComposer
+            users={users}
+            initialBody={comment.body}
+            initialMentions={comment.mentions}
+            submitLabel="Save"
+            onCancel={onCancelEdit}
+            onSubmit={onSaveEdit}
+          />
+        ) : (
+          <>
+            <p className="text-sm whitespace-pre-wrap break-words">
+              {splitMentions(comment.body, mentioned).map((segment, index) =>
+                segment.isMention ? (
+                  <span key={index} className="font-medium text-primary">{segment.text}</span>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </p>
+            <div className="flex items-center gap-1 mt-1">
+              {onReply && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs gap-1" onClick={onReply}>
+                  <Reply className="h-3 w-3" />
+                  Reply
+                </Button>
+              )}
+              {isOwn && (
+                <>
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs gap-1" onClick={onEdit}>
+                    <Pencil className="h-3 w-3" />
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs gap-1 text-destructive" onClick={onDelete}>
+                    <Trash2 className="h-3 w-3" />
+                    Delete
+                  </Button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CommentComposerProps {
+  users: Profile[];
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  submitLabel: string;
+  placeholder?: string;
+  initialBody?: string;
+  initialMentions?: string[];
+  onCancel?: () => void; // Shows a Cancel button when given
+}
+
+/** Text box with mention autocomplete and a submit button */
+function CommentComposer({
+  users,
+  onSubmit,
+  submitLabel,
+  placeholder,
+  initialBody = '',
+  initialMentions = [],
+  onCancel,
+}: CommentComposerProps) {
+  const [body, setBody] = useState(initialBody);
+  const [mentions, setMentions] = useState<string[]>(initialMentions);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(body.trim(), extractMentions(body, users, mentions));
+      setBody('');
+      setMentions([]);
+    } catch {
+      // useTaskComments already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea
+        value={body}
+        mentions={mentions}
+        users={users}
+        onChange={(value, ids) => {
+          setBody(value);
+          setMentions(ids);
+        }}
+        onSubmit={handleSubmit}
+        placeholder={placeholder}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={isSaving || !body.trim()}>
+          {isSaving && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
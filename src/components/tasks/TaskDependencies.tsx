@@ -0,0 +1,94 @@
+/**
+ * TaskDependencies.tsx - "Blocked by" / "Blocks" Links of a Task
+ *
+ * Shows which tasks must finish before this one and which tasks wait on it.
+ * Managers can add and remove blockers; cycles are rejected by useTasks.
+ */
+
+import { useState } from 'react';
+import { Task, TaskWithRelations } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lock, ArrowRight, X, CheckCircle2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TaskDependenciesProps {
+  task: TaskWithRelations;
+  candidates: Task[]; // Tasks that may be added as blockers
+  onAdd: (dependsOnId: string) => Promise<void>;
+  onRemove: (dependsOnId: string) => Promise<void>;
+  canEdit: boolean;
+}
+
+export default function TaskDependencies({ task, candidates, onAdd, onRemove, canEdit }: TaskDependenciesProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const blockedBy = task.blocked_by || [];
+  const blocks = task.blocks || [];
+  const available = candidates.filter((c) => c.id !== task.id && !blockedBy.some((b) => b.id === c.id));
+
+  /** Add the selected task as a blocker */
+  const handleAdd = async (dependsOnId: string) => {
+    setIsAdding(true);
+    try {
+      await onAdd(dependsOnId);
+    } catch {
+      // useTasks already reported the error
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Blocked by */}
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">Blocked by</p>
+        {blockedBy.length === 0 && <p className="text-sm text-muted-foreground">No blockers</p>}
+        {blockedBy.map((blocker) => {
+          const isDone = blocker.status === 'completed';
+          return (
+            <div key={blocker.id} className="flex items-center gap-2 text-sm">
+              {isDone ? (
+                <CheckCircle2 className="h-3.5 w-3.5 text-status-completed" />
+              ) : (
+                <Lock className="h-3.5 w-3.5 text-priority-urgent" />
+              )}
+              <span className={cn('flex-1', isDone && 'line-through text-muted-foreground')}>{blocker.title}</span>
+              {canEdit && (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemove(blocker.id)}>
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+        {canEdit && available.length > 0 && (
+          <Select value="" onValueChange={handleAdd} disabled={isAdding}>
+            <SelectTrigger className="h-8"><SelectValue placeholder="Add blocker..." /></SelectTrigger>
+            <SelectContent>
+              {available.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>{candidate.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {/* Blocks */}
+      {blocks.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Blocks</p>
+          <div className="flex flex-wrap gap-2">
+            {blocks.map((blocked) => (
+              <Badge key={blocked.id} variant="secondary" className="gap-1">
+                <ArrowRight className="h-3 w-3" />
+                {blocked.title}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
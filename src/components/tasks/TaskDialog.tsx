@@ -2,20 +2,52 @@
  * TaskDialog.tsx - Create/Edit Task Modal
  * 
  * A dialog for creating new tasks or viewing/editing existing ones.
- * Includes fields for: title, description, priority, status, project, assignee, due date
+ * Includes fields for: title, description, priority, status, project, labels, parent task, assignees, start and due date, milestone, repeat
+ * Existing tasks also show their watchers (with a Watch toggle), subtasks, checklist, dependencies, attachments and comment thread.
  */
 
 import { useState, useEffect } from 'react';
-import { TaskWithRelations, TaskPriority, TaskStatus, Project, Profile } from '@/types/database';
+import { useQuery } from '@tanstack/react-query';
+import { TaskWithRelations, TaskPriority, Project, Profile, RecurrenceRule } from '@/types/database';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Loader2, FolderKanban, User, Flag } from 'lucide-react';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import SubtaskList from '@/components/tasks/SubtaskList';
+import TaskChecklist from '@/components/tasks/TaskChecklist';
+import TaskDependencies from '@/components/tasks/TaskDependencies';
+import RecurrenceEditor from '@/components/tasks/RecurrenceEditor';
+import TaskComments from '@/components/tasks/TaskComments';
+import TaskAttachments from '@/components/tasks/TaskAttachments';
+import TaskHistory from '@/components/tasks/TaskHistory';
+import LabelPicker from '@/components/labels/LabelPicker';
+import AssigneePicker from '@/components/tasks/AssigneePicker';
+import AvatarStack from '@/components/tasks/AvatarStack';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { UpdateTaskOptions } from '@/hooks/useTasks';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflows } from '@/hooks/useWorkflows';
+import { useLabels } from '@/hooks/useLabels';
+import { describeOpenBlockers, isTaskBlocked } from '@/lib/taskDependencies';
+import { canMoveTo, firstStatusOf, STATUS_COLORS } from '@/lib/workflows';
+import { queryKeys, fetchTaskTreeIds } from '@/lib/queries';
+import { Loader2, FolderKanban, Flag, CornerDownRight, Lock, Archive, Trash2, RefreshCw, Eye, EyeOff, Diamond } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 
 interface TaskDialogProps {
   open: boolean;
@@ -23,8 +55,19 @@ interface TaskDialogProps {
   task?: TaskWithRelations | null; // Existing task to edit, or null for new task
   projects: Project[];
   users: Profile[];
-  onSave: (task: Partial<TaskWithRelations>) => Promise<void>;
+  onSave: (task: Partial<TaskWithRelations>, options?: UpdateTaskOptions) => Promise<void>;
+  onCreateSubtask?: (subtask: Partial<TaskWithRelations>) => Promise<void>; // Creates a task under the open one
   canEdit: boolean; // Whether user has permission to edit
+  tasks?: TaskWithRelations[]; // All loaded tasks, for parent selection and fresh subtask/checklist data
+  onToggleComplete?: (taskId: string, completed: boolean) => Promise<void>;
+  onAddChecklistItem?: (taskId: string, title: string) => Promise<void>;
+  onToggleChecklistItem?: (itemId: string, isDone: boolean) => Promise<void>;
+  onDeleteChecklistItem?: (itemId: string) => Promise<void>;
+  onAddDependency?: (taskId: string, dependsOnId: string) => Promise<void>;
+  onRemoveDependency?: (taskId: string, dependsOnId: string) => Promise<void>;
+  onDelete?: (taskId: string) => Promise<void>; // Moves the task and its subtasks to the trash
+  onArchive?: (taskId: string) => Promise<void>; // Archives a top-level task and its subtasks
+  onWatch?: (taskId: string, watching: boolean) => Promise<void>; // Current user starts or stops watching
 }
 
 // Priority options with colors matching the design system
@@ -35,50 +78,111 @@ const PRIORITIES: { value: TaskPriority; label: string; color: string }[] = [
   { value: 'urgent', label: 'Urgent', color: 'text-priority-urgent' },
 ];
 
-// Status options
-const STATUSES: { value: TaskStatus; label: string }[] = [
-  { value: 'pending', label: 'Pending' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'completed', label: 'Completed' },
-];
-
-export default function TaskDialog({ open, onOpenChange, task, projects, users, onSave, canEdit }: TaskDialogProps) {
+export default function TaskDialog({
+  open,
+  onOpenChange,
+  task,
+  projects,
+  users,
+  onSave,
+  onCreateSubtask,
+  canEdit,
+  tasks = [],
+  onToggleComplete,
+  onAddChecklistItem,
+  onToggleChecklistItem,
+  onDeleteChecklistItem,
+  onAddDependency,
+  onRemoveDependency,
+  onDelete,
+  onArchive,
+  onWatch,
+}: TaskDialogProps) {
   // Form state
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [priority, setPriority] = useState<TaskPriority>('medium');
-  const [status, setStatus] = useState<TaskStatus>('pending');
+  const [statusId, setStatusId] = useState('');
   const [projectId, setProjectId] = useState('none');
-  const [assignedTo, setAssignedTo] = useState('none');
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [parentTaskId, setParentTaskId] = useState('none');
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]); // Primary first
+  const [startDate, setStartDate] = useState('');
   const [dueDate, setDueDate] = useState('');
+  const [isMilestone, setIsMilestone] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [overrideBlockers, setOverrideBlockers] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
-  // Reset form when dialog opens or task changes
-  useEffect(() => {
-    if (task) {
+  // updated_at of the version the form was filled from
+  const [loadedVersion, setLoadedVersion] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { labels } = useLabels();
+
+  // Status choices come from the workflow of the selected project
+  const { workflowFor } = useWorkflows();
+  const workflow = workflowFor(projectId === 'none' ? null : projectId);
+  // The picked status, or the workflow's first pending status for a new task
+  const selectedStatus = workflow.statuses.find((s) => s.id === statusId) || firstStatusOf(workflow, 'pending');
+  const status = selectedStatus?.category ?? 'pending';
+
+  /** Switch project, keeping the status category when the new project has a different workflow */
+  const handleProjectChange = (value: string) => {
+    const next = workflowFor(value === 'none' ? null : value);
+    if (!next.statuses.some((s) => s.id === statusId)) {
+      setStatusId(firstStatusOf(next, status)?.id ?? '');
+    }
+    setProjectId(value);
+  };
+
+  /** Fill the form from a task, or reset it to defaults for a new task */
+  const populateForm = (source?: TaskWithRelations | null) => {
+    if (source) {
       // Editing existing task - populate form with task data
-      setTitle(task.title);
-      setDescription(task.description || '');
-      setPriority(task.priority);
-      setStatus(task.status);
-      setProjectId(task.project_id || 'none');
-      setAssignedTo(task.assigned_to || 'none');
-      setDueDate(task.due_date ? format(new Date(task.due_date), 'yyyy-MM-dd') : '');
+      setTitle(source.title);
+      setDescription(source.description || '');
+      setPriority(source.priority);
+      setStatusId(source.status_id);
+      setProjectId(source.project_id || 'none');
+      setLabelIds((source.labels || []).map((l) => l.id));
+      setParentTaskId(source.parent_task_id || 'none');
+      setAssigneeIds(
+        source.assignees?.length ? source.assignees.map((u) => u.id) : source.assigned_to ? [source.assigned_to] : []
+      );
+      setStartDate(source.start_date ? format(new Date(source.start_date), 'yyyy-MM-dd') : '');
+      setDueDate(source.due_date ? format(new Date(source.due_date), 'yyyy-MM-dd') : '');
+      setIsMilestone(source.is_milestone);
+      setRecurrence(source.recurrence);
     } else {
       // Creating new task - reset to defaults
       setTitle('');
       setDescription('');
       setPriority('medium');
-      setStatus('pending');
+      setStatusId('');
       setProjectId('none');
-      setAssignedTo('none');
+      setLabelIds([]);
+      setParentTaskId('none');
+      setAssigneeIds([]);
+      setStartDate('');
       setDueDate('');
+      setIsMilestone(false);
+      setRecurrence(null);
     }
+    setLoadedVersion(source?.updated_at || null);
+  };
+
+  // Reset form when dialog opens or task changes
+  useEffect(() => {
+    populateForm(task);
+    setOverrideBlockers(false);
   }, [task, open]);
 
+  // yyyy-MM-dd strings compare in date order
+  const datesReversed = !isMilestone && !!startDate && !!dueDate && startDate > dueDate;
+
   /** Handle form submission */
   const handleSave = async () => {
-    if (!title.trim()) return;
+    if (!title.trim() || datesReversed) return;
     
     setIsLoading(true);
     try {
@@ -88,24 +192,158 @@ export default function TaskDialog({ open, onOpenChange, task, projects, users,
         description: description.trim() || null,
         priority,
         status,
+        status_id: selectedStatus?.id,
         project_id: projectId === 'none' ? null : projectId,
-        assigned_to: assignedTo === 'none' ? null : assignedTo,
-        due_date: dueDate ? new Date(dueDate).toISOString() : null,
-      });
+        labels: labels.filter((l) => labelIds.includes(l.id)),
+        parent_task_id: parentTaskId === 'none' ? null : parentTaskId,
+        assigned_to: assigneeIds[0] ?? null,
+        assignees: assigneeIds.map((id) => assigneeOptions.find((u) => u.id === id)).filter(Boolean),
+        // Milestones are a single day, so they never keep a start date.
+        // parseISO reads the yyyy-MM-dd inputs as local days (new Date would take UTC midnight)
+        start_date: startDate && !isMilestone ? parseISO(startDate).toISOString() : null,
+        due_date: dueDate ? parseISO(dueDate).toISOString() : null,
+        is_milestone: isMilestone,
+        recurrence,
+      }, { overrideBlockers });
       onOpenChange(false);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Subtasks and checklist come from the latest fetch, not the snapshot the dialog opened with
+  const currentTask = tasks.find((t) => t.id === task?.id) || task;
+
+  // A task cannot be its own parent, nor the parent of one of its ancestors
+  const isDescendant = (candidateId: string): boolean => {
+    const candidate = tasks.find((t) => t.id === candidateId);
+    if (!candidate?.parent_task_id) return false;
+    return candidate.parent_task_id === task?.id || isDescendant(candidate.parent_task_id);
+  };
+  const parentOptions = tasks.filter((t) => t.id !== task?.id && !isDescendant(t.id));
+
+  // Deactivated users can't take new work, but current assignees stay pickable
+  // even when they're deactivated or outside the user's department
+  const currentAssignees = currentTask?.assignees || [];
+  const assigneeOptions = [
+    ...users.filter((u) => !u.deactivated_at || currentAssignees.some((a) => a.id === u.id)),
+    ...currentAssignees.filter((a) => !users.some((u) => u.id === a.id)),
+  ];
+  const watchers = currentTask?.watchers || [];
+  const isWatching = watchers.some((w) => w.id === user?.id);
+  const [isWatchSaving, setIsWatchSaving] = useState(false);
+
+  /** Start or stop watching the task as the current user */
+  const handleToggleWatch = async () => {
+    if (!task || !onWatch) return;
+
+    setIsWatchSaving(true);
+    try {
+      await onWatch(task.id, !isWatching);
+    } catch {
+      // useTaskMutations already reported the error
+    } finally {
+      setIsWatchSaving(false);
+    }
+  };
+
+  // Someone else saved the task after the form was filled (arrives through realtime)
+  const remoteChange = currentTask && loadedVersion && currentTask.updated_at !== loadedVersion &&
+    currentTask.updated_by && currentTask.updated_by !== user?.id
+    ? users.find((u) => u.id === currentTask.updated_by)?.full_name || 'Someone'
+    : null;
+
+  // Starting or finishing a blocked task needs an explicit override
+  const isBlocked = currentTask ? isTaskBlocked(currentTask) : false;
+  const needsOverride = isBlocked && status !== 'pending' && status !== task?.status;
+
+  // How many subtasks go to the trash or the archive with the task, counted once either is asked for
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [confirmingArchive, setConfirmingArchive] = useState(false);
+  const { data: treeIds } = useQuery({
+    queryKey: queryKeys.taskTree(user?.id ?? '', task?.id ?? ''),
+    queryFn: () => fetchTaskTreeIds(task!.id, { activeOnly: true }),
+    enabled: (confirmingDelete || confirmingArchive) && !!task,
+  });
+  const subtaskCount = treeIds ? treeIds.length - 1 : null;
+
+  /** Move the task to the trash after confirmation, then close */
+  const handleDelete = async () => {
+    if (!task || !onDelete) return;
+
+    setIsLoading(true);
+    try {
+      await onDelete(task.id);
+      onOpenChange(false);
+    } catch {
+      // useTasks already reported the error
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /** Archive the task after confirmation, then close */
+  const handleArchive = async () => {
+    if (!task || !onArchive) return;
+
+    setIsLoading(true);
+    try {
+      await onArchive(task.id);
+      onOpenChange(false);
+    } catch {
+      // useTasks already reported the error
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleSubtask = async (taskId: string, completed: boolean) => {
+    try {
+      await onToggleComplete?.(taskId, completed);
+    } catch {
+      // useTasks already reported the error
+    }
+  };
+
+  /** Create a subtask that inherits project and priority from this task */
+  const handleAddSubtask = async (subtaskTitle: string) => {
+    if (!task || !onCreateSubtask) return;
+    await onCreateSubtask({
+      title: subtaskTitle,
+      parent_task_id: task.id,
+      project_id: task.project_id,
+      priority: task.priority,
+      status: 'pending',
+    });
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{task ? 'Task Details' : 'Create New Task'}</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {/* Remote change indicator */}
+          {remoteChange && (
+            <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm text-muted-foreground">
+              <RefreshCw className="h-4 w-4 shrink-0" />
+              <span className="flex-1">{remoteChange} just changed this task</span>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => populateForm(currentTask)}>
+                Load changes
+              </Button>
+            </div>
+          )}
+
+          {/* Blocked warning */}
+          {isBlocked && (
+            <div className="flex items-start gap-2 rounded-md border border-priority-urgent/20 bg-priority-urgent/10 p-3 text-sm text-priority-urgent">
+              <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>Blocked by {describeOpenBlockers(currentTask)}</span>
+            </div>
+          )}
+
           {/* Title input */}
           <div className="space-y-2">
             <Label htmlFor="title">Title</Label>
@@ -152,11 +390,21 @@ export default function TaskDialog({ open, onOpenChange, task, projects, users,
 
             <div className="space-y-2">
               <Label>Status</Label>
-              <Select value={status} onValueChange={(v) => setStatus(v as TaskStatus)}>
-                <SelectTrigger><SelectValue /></SelectTrigger>
+              <Select value={selectedStatus?.id ?? ''} onValueChange={setStatusId} disabled={!canEdit}>
+                <SelectTrigger><SelectValue placeholder="Status" /></SelectTrigger>
                 <SelectContent>
-                  {STATUSES.map((opt) => (
-                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                  {workflow.statuses.map((opt) => (
+                    <SelectItem
+                      key={opt.id}
+                      value={opt.id}
+                      // The workflow may not allow moving here from the saved status
+                      disabled={!!task && !canMoveTo(workflow, task.status_id, opt.id)}
+                    >
+                      <span className="flex items-center gap-2">
+                        <span className={cn('h-2 w-2 rounded-full', STATUS_COLORS[opt.color])} />
+                        {opt.name}
+                      </span>
+                    </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -166,7 +414,7 @@ export default function TaskDialog({ open, onOpenChange, task, projects, users,
           {/* Project select */}
           <div className="space-y-2">
             <Label>Project</Label>
-            <Select value={projectId} onValueChange={setProjectId} disabled={!canEdit}>
+            <Select value={projectId} onValueChange={handleProjectChange} disabled={!canEdit}>
               <SelectTrigger><SelectValue placeholder="Select project" /></SelectTrigger>
               <SelectContent>
                 <SelectItem value="none">No project</SelectItem>
@@ -182,43 +430,246 @@ export default function TaskDialog({ open, onOpenChange, task, projects, users,
             </Select>
           </div>
 
-          {/* Assignee select */}
+          {/* Labels */}
+          <div className="space-y-2">
+            <Label>Labels</Label>
+            <LabelPicker labels={labels} value={labelIds} onChange={setLabelIds} disabled={!canEdit} />
+          </div>
+
+          {/* Parent task select */}
+          {canEdit && parentOptions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Parent Task</Label>
+              <Select value={parentTaskId} onValueChange={setParentTaskId}>
+                <SelectTrigger><SelectValue placeholder="Select parent task" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No parent (top-level task)</SelectItem>
+                  {parentOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      <span className="flex items-center gap-2">
+                        <CornerDownRight className="h-3.5 w-3.5" />
+                        {option.title}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Assignees */}
           <div className="space-y-2">
             <Label>Assign To</Label>
-            <Select value={assignedTo} onValueChange={setAssignedTo} disabled={!canEdit}>
-              <SelectTrigger><SelectValue placeholder="Select user" /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="none">Unassigned</SelectItem>
-                {users.map((user) => (
-                  <SelectItem key={user.id} value={user.id}>
-                    <span className="flex items-center gap-2">
-                      <User className="h-3.5 w-3.5" />
-                      {user.full_name}
+            <AssigneePicker users={assigneeOptions} value={assigneeIds} onChange={setAssigneeIds} disabled={!canEdit} />
+          </div>
+
+          {/* Watchers (existing tasks) */}
+          {task && (
+            <div className="space-y-2">
+              <Label>Watchers</Label>
+              <div className="flex items-center gap-2">
+                {watchers.length > 0 ? (
+                  <>
+                    <AvatarStack users={watchers} max={5} />
+                    <span className="flex-1 truncate text-sm text-muted-foreground">
+                      {watchers.map((w) => w.full_name).join(', ')}
                     </span>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+                  </>
+                ) : (
+                  <span className="flex-1 text-sm text-muted-foreground">Nobody is watching this task</span>
+                )}
+                {onWatch && (
+                  <Button variant="outline" size="sm" className="gap-1.5" onClick={handleToggleWatch} disabled={isWatchSaving}>
+                    {isWatching ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+                    {isWatching ? 'Unwatch' : 'Watch'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Start and due date inputs */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startDate">Start Date</Label>
+              <Input
+                id="startDate"
+                type="date"
+                value={isMilestone ? '' : startDate}
+                max={dueDate || undefined}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={!canEdit || isMilestone}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dueDate">{isMilestone ? 'Date' : 'Due Date'}</Label>
+              <Input
+                id="dueDate"
+                type="date"
+                value={dueDate}
+                min={isMilestone ? undefined : startDate || undefined}
+                onChange={(e) => setDueDate(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+          </div>
+          {datesReversed && (
+            <p className="text-sm text-destructive">The start date must not be after the due date</p>
+          )}
+
+          {/* Milestone switch */}
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Diamond className="h-4 w-4 text-muted-foreground" />
+              <Label htmlFor="isMilestone" className="text-sm">Milestone</Label>
+            </div>
+            <Switch id="isMilestone" checked={isMilestone} onCheckedChange={setIsMilestone} disabled={!canEdit} />
           </div>
 
-          {/* Due date input */}
+          {/* Repeat settings */}
           <div className="space-y-2">
-            <Label htmlFor="dueDate">Due Date</Label>
-            <Input
-              id="dueDate"
-              type="date"
-              value={dueDate}
-              onChange={(e) => setDueDate(e.target.value)}
+            <Label>Repeat</Label>
+            <RecurrenceEditor
+              value={recurrence}
+              onChange={setRecurrence}
               disabled={!canEdit}
+              anchorDate={dueDate ? parseISO(dueDate) : undefined}
             />
           </div>
+
+          {/* Subtasks and checklist (existing tasks only) */}
+          {currentTask && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <Label>Subtasks</Label>
+                <SubtaskList
+                  subtasks={currentTask.subtasks || []}
+                  onAdd={handleAddSubtask}
+                  onToggle={handleToggleSubtask}
+                  canEdit={canEdit && !!onCreateSubtask}
+                />
+              </div>
+
+              {onAddDependency && onRemoveDependency && (
+                <div className="space-y-2">
+                  <Label>Dependencies</Label>
+                  <TaskDependencies
+                    task={currentTask}
+                    candidates={tasks}
+                    onAdd={(dependsOnId) => onAddDependency(currentTask.id, dependsOnId)}
+                    onRemove={(dependsOnId) => onRemoveDependency(currentTask.id, dependsOnId)}
+                    canEdit={canEdit}
+                  />
+                </div>
+              )}
+
+              {onAddChecklistItem && onToggleChecklistItem && onDeleteChecklistItem && (
+                <div className="space-y-2">
+                  <Label>Checklist</Label>
+                  <TaskChecklist
+                    items={currentTask.checklist_items || []}
+                    onAdd={(itemTitle) => onAddChecklistItem(currentTask.id, itemTitle)}
+                    onToggle={onToggleChecklistItem}
+                    onDelete={onDeleteChecklistItem}
+                    canEdit={canEdit}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Attachments</Label>
+                <TaskAttachments taskId={currentTask.id} />
+              </div>
+
+              <Separator />
+              <div className="space-y-2">
+                <Label>Comments</Label>
+                <TaskComments taskId={currentTask.id} users={users} />
+              </div>
+
+              <Separator />
+              <div className="space-y-2">
+                <Label>History</Label>
+                <TaskHistory
+                  taskId={currentTask.id}
+                  updatedAt={currentTask.updated_at}
+                  users={users}
+                  projects={projects}
+                />
+              </div>
+            </>
+          )}
         </div>
 
+        {/* Override switch for moving a blocked task forward */}
+        {needsOverride && canEdit && (
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <Label htmlFor="overrideBlockers" className="text-sm">Override open blockers</Label>
+            <Switch id="overrideBlockers" checked={overrideBlockers} onCheckedChange={setOverrideBlockers} />
+          </div>
+        )}
+
         {/* Action buttons */}
         <div className="flex justify-end gap-2">
+          {/* Subtasks are archived with their parent, not on their own */}
+          {task && canEdit && onArchive && !task.parent_task_id && (
+            <AlertDialog open={confirmingArchive} onOpenChange={setConfirmingArchive}>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" className={cn('gap-2', !onDelete && 'mr-auto')} disabled={isLoading}>
+                  <Archive className="h-4 w-4" />
+                  Archive
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Archive this task?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {subtaskCount === null
+                      ? 'Counting subtasks...'
+                      : subtaskCount > 0
+                        ? `This task and ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'} will be hidden from every list.`
+                        : 'This task will be hidden from every list.'}{' '}
+                    You can unarchive it from the Archive page.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleArchive} disabled={subtaskCount === null}>Archive</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          {task && canEdit && onDelete && (
+            <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" className="mr-auto gap-2 text-destructive" disabled={isLoading}>
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Move this task to the trash?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {subtaskCount === null
+                      ? 'Counting subtasks...'
+                      : subtaskCount > 0
+                        ? `This task and ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'} will be moved to the trash.`
+                        : 'This task will be moved to the trash.'}{' '}
+                    You can restore it from the Trash page.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete} disabled={subtaskCount === null}>Move to trash</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
           <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
           {canEdit && (
-            <Button onClick={handleSave} disabled={isLoading || !title.trim()}>
+            <Button onClick={handleSave} disabled={isLoading || !title.trim() || datesReversed}>
               {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {task ? 'Save Changes' : 'Create Task'}
             </Button>
@@ -0,0 +1,107 @@
+/**
+ * TaskHistory.tsx - Activity Timeline for a Task
+ *
+ * Lists who changed which field, from what to what, and when. Events are
+ * written by a database trigger, so every change is recorded no matter
+ * where it was made.
+ */
+
+import { useEffect, useRef } from 'react';
+import { Profile, Project, TaskEventField, TaskEventWithActor } from '@/types/database';
+import { useTaskEvents } from '@/hooks/useTaskEvents';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { Skeleton } from '@/components/ui/skeleton';
+import { History } from 'lucide-react';
+
+interface TaskHistoryProps {
+  taskId: string;
+  updatedAt?: string; // Refetches when the task changes while open
+  users: Profile[];
+  projects: Project[];
+}
+
+const FIELD_LABELS: Record<TaskEventField, string> = {
+  status: 'status',
+  priority: 'priority',
+  assigned_to: 'assignee',
+  start_date: 'start date',
+  due_date: 'due date',
+  project_id: 'project',
+  description: 'description',
+};
+
+/** Capitalize and un-snake an enum value (e.g., "in_progress" -> "In progress") */
+const humanize = (value: string) => {
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+export default function TaskHistory({ taskId, updatedAt, users, projects }: TaskHistoryProps) {
+  const { events, loading, refetch } = useTaskEvents(taskId);
+  const { formatDay, formatMoment, formatRelative } = useDateFormat();
+  const lastUpdatedAt = useRef(updatedAt);
+
+  // The hook already fetched on mount; only refetch when the task is saved again
+  useEffect(() => {
+    if (updatedAt === lastUpdatedAt.current) return;
+    lastUpdatedAt.current = updatedAt;
+    refetch();
+  }, [updatedAt]);
+
+  /** Render a stored value the way the rest of the UI shows it */
+  const formatValue = (field: TaskEventField, value: string | null) => {
+    if (value === null || value === '') return 'none';
+    switch (field) {
+      case 'assigned_to':
+        return users.find((u) => u.id === value)?.full_name || 'a former user';
+      case 'project_id':
+        return projects.find((p) => p.id === value)?.name || 'another project';
+      case 'start_date':
+      case 'due_date':
+        return formatDay(value);
+      case 'status':
+      case 'priority':
+        return humanize(value);
+      default:
+        return value;
+    }
+  };
+
+  /** One-line description of an event */
+  const describe = (event: TaskEventWithActor) => {
+    if (event.event_type === 'created' || !event.field) return 'created this task';
+    if (event.field === 'description') return 'edited the description';
+    return `changed ${FIELD_LABELS[event.field]} from ${formatValue(event.field, event.old_value)} to ${formatValue(event.field, event.new_value)}`;
+  };
+
+  if (loading) {
+    return <Skeleton className="h-16" />;
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <History className="h-4 w-4" />
+        No activity recorded
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative ml-1.5 space-y-3 border-l pl-4">
+      {events.map((event) => (
+        <li key={event.id} className="relative text-sm">
+          {/* Timeline dot */}
+          <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+          <p>
+            <span className="font-medium">{event.actor?.full_name || 'System'}</span>{' '}
+            <span className="text-muted-foreground">{describe(event)}</span>
+          </p>
+          <p className="text-xs text-muted-foreground" title={formatMoment(event.created_at)}>
+            {formatRelative(event.created_at)}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * TaskViewToggle.tsx - List/Board Layout Switch
+ */
+
+import { TaskViewMode } from '@/hooks/useTaskViewMode';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { List, Columns3 } from 'lucide-react';
+
+interface TaskViewToggleProps {
+  value: TaskViewMode;
+  onChange: (mode: TaskViewMode) => void;
+}
+
+export default function TaskViewToggle({ value, onChange }: TaskViewToggleProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={value}
+      // Radix emits an empty string when the active item is clicked again
+      onValueChange={(v) => v && onChange(v as TaskViewMode)}
+    >
+      <ToggleGroupItem value="list" aria-label="List view">
+        <List className="h-4 w-4" />
+      </ToggleGroupItem>
+      <ToggleGroupItem value="board" aria-label="Board view">
+        <Columns3 className="h-4 w-4" />
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
@@ -8,6 +8,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
 import { AppRole, Profile } from '@/types/database';
 
 // Define what data and methods are available from this context
@@ -18,8 +19,9 @@ interface AuthContextType {
   role: AppRole | null;        // User's role (admin, department_head, employee)
   loading: boolean;            // True while fetching auth state
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, fullName: string, inviteToken?: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>; // Reload the profile after the user edits it
   isAdmin: boolean;            // Convenience check for admin role
   isDepartmentHead: boolean;   // Convenience check for department head role
   isEmployee: boolean;         // Convenience check for employee role
@@ -85,6 +87,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         supabase.from('user_roles').select('role').eq('user_id', userId).single()
       ]);
 
+      // A session from before the account was deactivated ends here
+      if (profileResult.data?.deactivated_at) {
+        toast({ title: 'Account deactivated', description: 'Ask an admin if you need access again', variant: 'destructive' });
+        await supabase.auth.signOut();
+        return;
+      }
+
       if (profileResult.data) setProfile(profileResult.data as Profile);
       if (roleResult.data) setRole(roleResult.data.role as AppRole);
     } catch (error) {
@@ -100,19 +109,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error };
   };
 
-  /** Create new account with email, password, and name */
-  const signUp = async (email: string, password: string, fullName: string) => {
+  /** Create new account with email, password, and name, accepting an invitation when given its token */
+  const signUp = async (email: string, password: string, fullName: string, inviteToken?: string) => {
     const { error } = await supabase.auth.signUp({
       email,
       password,
       options: {
         emailRedirectTo: `${window.location.origin}/`,
-        data: { full_name: fullName } // Stored in user metadata
+        data: { full_name: fullName, invite_token: inviteToken } // Stored in user metadata
       }
     });
     return { error };
   };
 
+  /** Reload the current user's profile and role */
+  const refreshProfile = async () => {
+    if (user) await fetchUserData(user.id);
+  };
+
   /** Sign out and clear all auth state */
   const signOut = async () => {
     await supabase.auth.signOut();
@@ -133,6 +147,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       signIn,
       signUp,
       signOut,
+      refreshProfile,
       isAdmin: role === 'admin',
       isDepartmentHead: role === 'department_head',
       isEmployee: role === 'employee'
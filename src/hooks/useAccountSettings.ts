@@ -0,0 +1,167 @@
+/**
+ * useAccountSettings.ts - Current User's Profile and Account Hook
+ *
+ * Provides the operations behind the Settings page:
+ * - Updates name, timezone and locale (own profile only, enforced by RLS)
+ * - Uploads and removes the avatar in the avatars storage bucket
+ * - Changes the sign-in email (after confirmation) and password
+ * People lists and tasks show names and avatars, so those are refetched too.
+ */
+
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Profile } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { queryKeys, taskQueryKeys } from '@/lib/queries';
+
+const AVATARS_BUCKET = 'avatars';
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024; // Matches the bucket's file_size_limit
+export const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export type ProfileSettings = Pick<Profile, 'full_name' | 'timezone' | 'locale'>;
+
+export function useAccountSettings() {
+  const queryClient = useQueryClient();
+  const { user, refreshProfile } = useAuth();
+  const userId = user?.id ?? '';
+  const [uploading, setUploading] = useState(false);
+
+  /** Reload the signed-in profile and every cached list that shows people */
+  const refreshPeople = () =>
+    Promise.all([
+      refreshProfile(),
+      ...[queryKeys.profiles(userId), ...taskQueryKeys(userId)].map((queryKey) =>
+        queryClient.invalidateQueries({ queryKey })
+      ),
+    ]);
+
+  const setAvatarUrl = async (avatarUrl: string | null) => {
+    const { error } = await supabase.from('profiles').update({ avatar_url: avatarUrl }).eq('id', userId);
+    if (error) throw error;
+  };
+
+  /** Delete the user's avatar files except the one to keep */
+  const removeAvatarFiles = async (keepPath?: string) => {
+    const { data: files, error } = await supabase.storage.from(AVATARS_BUCKET).list(userId);
+    if (error) throw error;
+
+    const stale = (files || []).map((f) => `${userId}/${f.name}`).filter((path) => path !== keepPath);
+    if (stale.length === 0) return;
+
+    const { error: removeError } = await supabase.storage.from(AVATARS_BUCKET).remove(stale);
+    if (removeError) throw removeError;
+  };
+
+  /** Save name, timezone and locale */
+  const updateProfile = async (settings: ProfileSettings) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ full_name: settings.full_name, timezone: settings.timezone, locale: settings.locale })
+        .eq('id', userId);
+
+      if (error) throw error;
+      toast({ title: 'Profile updated' });
+      await refreshPeople();
+    } catch (error) {
+      toast({ title: 'Error updating profile', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Upload a new avatar and drop the previous one */
+  const uploadAvatar = async (file: File) => {
+    if (!AVATAR_TYPES.includes(file.type) || file.size > MAX_AVATAR_SIZE) {
+      toast({
+        title: 'Image not accepted',
+        description: 'Use a PNG, JPEG, GIF or WebP image of at most 2 MB',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      // A new name per upload, so browsers don't keep showing a cached old avatar
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const storagePath = `${userId}/${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from(AVATARS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data } = supabase.storage.from(AVATARS_BUCKET).getPublicUrl(storagePath);
+      try {
+        await setAvatarUrl(data.publicUrl);
+      } catch (error) {
+        // Don't leave an unreferenced file behind
+        await supabase.storage.from(AVATARS_BUCKET).remove([storagePath]);
+        throw error;
+      }
+
+      await removeAvatarFiles(storagePath);
+      toast({ title: 'Avatar updated' });
+      await refreshPeople();
+    } catch (error) {
+      toast({ title: 'Error uploading avatar', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  /** Go back to showing initials */
+  const removeAvatar = async () => {
+    setUploading(true);
+    try {
+      await setAvatarUrl(null);
+      await removeAvatarFiles();
+      toast({ title: 'Avatar removed' });
+      await refreshPeople();
+    } catch (error) {
+      toast({ title: 'Error removing avatar', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  /** Start an email change; it takes effect once the new address is confirmed */
+  const changeEmail = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email },
+        { emailRedirectTo: `${window.location.origin}/settings` }
+      );
+
+      if (error) throw error;
+      toast({ title: 'Confirm your new email', description: `We sent a confirmation link to ${email}` });
+    } catch (error) {
+      toast({ title: 'Error changing email', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Set a new password for the signed-in user */
+  const changePassword = async (password: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) throw error;
+      toast({ title: 'Password changed' });
+    } catch (error) {
+      toast({ title: 'Error changing password', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    uploading,
+    updateProfile,
+    uploadAvatar,
+    removeAvatar,
+    changeEmail,
+    changePassword,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * useArchive.ts - Archive Hook
+ *
+ * Provides the archived projects and tasks the user can see:
+ * - Groups each archived item with the tasks that were archived with it
+ * - Unarchives items together with everything archived alongside them
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Project, Task } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { queryKeys, taskQueryKeys, fetchArchive } from '@/lib/queries';
+
+// An archived project and the tasks archived with it
+export interface ArchivedProject {
+  project: Project;
+  tasks: Task[];
+}
+
+// A task archived on its own (not with its project) and the subtasks archived with it
+export interface ArchivedTask {
+  task: Task;
+  subtasks: Task[];
+}
+
+export function useArchive() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? '';
+
+  const archiveQuery = useQuery({ queryKey: queryKeys.archive(userId), queryFn: fetchArchive, enabled: !!user });
+
+  useEffect(() => {
+    if (!archiveQuery.error) return;
+    console.error('Error fetching archive:', archiveQuery.error);
+    toast({ title: 'Error loading archive', description: archiveQuery.error.message, variant: 'destructive' });
+  }, [archiveQuery.error]);
+
+  // Items archived together share an archived_at timestamp
+  const { projects, tasks } = useMemo(() => {
+    const archivedProjects = archiveQuery.data?.projects || [];
+    const archivedTasks = archiveQuery.data?.tasks || [];
+
+    const sameBatch = (task: Task, archivedAt: string | null) => task.archived_at === archivedAt;
+    const withProject = (task: Task) =>
+      archivedProjects.some((p) => p.id === task.project_id && sameBatch(task, p.archived_at));
+
+    /** Subtasks archived together with a task, at any depth */
+    const subtasksOf = (task: Task): Task[] => {
+      const children = archivedTasks.filter((t) => t.parent_task_id === task.id && sameBatch(t, task.archived_at));
+      return children.flatMap((child) => [child, ...subtasksOf(child)]);
+    };
+
+    return {
+      projects: archivedProjects.map<ArchivedProject>((project) => ({
+        project,
+        tasks: archivedTasks.filter((t) => t.project_id === project.id && sameBatch(t, project.archived_at)),
+      })),
+      // Only top-level tasks are archived on their own; subtasks always go with their parent
+      tasks: archivedTasks
+        .filter((t) => !t.parent_task_id && !withProject(t))
+        .map<ArchivedTask>((task) => ({ task, subtasks: subtasksOf(task) })),
+    };
+  }, [archiveQuery.data]);
+
+  /** Refetch the archive and every list the unarchived items appear in */
+  const invalidateAll = () =>
+    Promise.all(
+      [queryKeys.archive(userId), queryKeys.projects(userId), ...taskQueryKeys(userId)].map((queryKey) =>
+        queryClient.invalidateQueries({ queryKey })
+      )
+    );
+
+  const unarchiveTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const { error } = await supabase.rpc('unarchive_task', { _task_id: taskId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  const unarchiveProjectMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const { error } = await supabase.rpc('unarchive_project', { _project_id: projectId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  /** Unarchive a task and the subtasks archived with it */
+  const unarchiveTask = async (taskId: string) => {
+    try {
+      await unarchiveTaskMutation.mutateAsync(taskId);
+      toast({ title: 'Task unarchived' });
+    } catch (error) {
+      toast({ title: 'Error unarchiving task', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Unarchive a project and the tasks archived with it */
+  const unarchiveProject = async (projectId: string) => {
+    try {
+      await unarchiveProjectMutation.mutateAsync(projectId);
+      toast({ title: 'Project unarchived' });
+    } catch (error) {
+      toast({ title: 'Error unarchiving project', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    projects,
+    tasks,
+    loading: archiveQuery.isLoading,
+    unarchiveTask,
+    unarchiveProject,
+  };
+}
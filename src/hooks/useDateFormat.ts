@@ -0,0 +1,37 @@
+/**
+ * useDateFormat.ts - Date Display Hook
+ *
+ * Formats dates with the timezone and locale saved in the current user's
+ * profile (Settings page); either falls back to the browser when unset.
+ * See lib/dateFormat.ts for which values use the timezone.
+ */
+
+import { useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DateDisplaySettings,
+  formatDay,
+  formatMoment,
+  formatRelative,
+  isSupportedTimeZone,
+} from '@/lib/dateFormat';
+
+export function useDateFormat() {
+  const { profile } = useAuth();
+  const timezone = profile?.timezone;
+  const locale = profile?.locale;
+
+  return useMemo(() => {
+    const settings: DateDisplaySettings = {
+      timeZone: timezone && isSupportedTimeZone(timezone) ? timezone : undefined,
+      locale: locale || undefined,
+    };
+
+    return {
+      locale: settings.locale,
+      formatMoment: (value: Date | string, options?: Intl.DateTimeFormatOptions) => formatMoment(value, settings, options),
+      formatDay: (value: Date | string, options?: Intl.DateTimeFormatOptions) => formatDay(value, settings, options),
+      formatRelative: (value: Date | string) => formatRelative(value, settings),
+    };
+  }, [timezone, locale]);
+}
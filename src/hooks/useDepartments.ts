@@ -0,0 +1,65 @@
+/**
+ * useDepartments.ts - Department Management Hook
+ *
+ * Provides department data and operations:
+ * - Fetches all departments
+ * - Creates departments (admins only, enforced by RLS)
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Department } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+export function useDepartments() {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user, isAdmin } = useAuth();
+
+  /** Fetch all departments ordered by name */
+  const fetchDepartments = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase.from('departments').select('*').order('name');
+
+      if (error) throw error;
+      setDepartments(data || []);
+    } catch (error) {
+      console.error('Error fetching departments:', error);
+      toast({ title: 'Error loading departments', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDepartments();
+  }, [user]);
+
+  /** Create a new department */
+  const createDepartment = async (departmentData: Partial<Department>) => {
+    try {
+      const { error } = await supabase.from('departments').insert({
+        name: departmentData.name!,
+        description: departmentData.description,
+      });
+
+      if (error) throw error;
+      toast({ title: 'Department created successfully' });
+      await fetchDepartments();
+    } catch (error) {
+      toast({ title: 'Error creating department', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    departments,
+    loading,
+    createDepartment,
+    refetch: fetchDepartments,
+    canManageDepartments: isAdmin,
+  };
+}
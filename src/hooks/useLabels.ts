@@ -0,0 +1,113 @@
+/**
+ * useLabels.ts - Label Catalogue Hook
+ *
+ * Provides the organization-wide labels from the shared query cache:
+ * - Creates, renames, recolors and deletes labels (admins and department heads, enforced by RLS)
+ * Deleting a label removes it from every task, so task lists are refetched too.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Label } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { queryKeys, taskQueryKeys, fetchLabels } from '@/lib/queries';
+
+export function useLabels() {
+  const queryClient = useQueryClient();
+  const { user, isAdmin, isDepartmentHead } = useAuth();
+  const userId = user?.id ?? '';
+
+  const labelsQuery = useQuery({ queryKey: queryKeys.labels(userId), queryFn: fetchLabels, enabled: !!user });
+
+  useEffect(() => {
+    if (!labelsQuery.error) return;
+    console.error('Error fetching labels:', labelsQuery.error);
+    toast({ title: 'Error loading labels', description: labelsQuery.error.message, variant: 'destructive' });
+  }, [labelsQuery.error]);
+
+  const labels = useMemo(() => labelsQuery.data || [], [labelsQuery.data]);
+
+  /** Refetch the catalogue and every task list, since tasks show label names and colors */
+  const invalidateAll = () =>
+    Promise.all(
+      [queryKeys.labels(userId), queryKeys.taskLabels(userId), ...taskQueryKeys(userId)].map((queryKey) =>
+        queryClient.invalidateQueries({ queryKey })
+      )
+    );
+
+  const createLabelMutation = useMutation({
+    mutationFn: async (labelData: Partial<Label>) => {
+      const { error } = await supabase.from('labels').insert({
+        name: labelData.name!,
+        color: labelData.color,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.labels(userId) }),
+  });
+
+  const updateLabelMutation = useMutation({
+    mutationFn: async ({ labelId, labelData }: { labelId: string; labelData: Partial<Label> }) => {
+      const { error } = await supabase
+        .from('labels')
+        .update({ name: labelData.name, color: labelData.color })
+        .eq('id', labelId);
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  const deleteLabelMutation = useMutation({
+    mutationFn: async (labelId: string) => {
+      const { error } = await supabase.from('labels').delete().eq('id', labelId);
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  /** Add a label to the catalogue */
+  const createLabel = async (labelData: Partial<Label>) => {
+    try {
+      await createLabelMutation.mutateAsync(labelData);
+      toast({ title: 'Label created' });
+    } catch (error) {
+      toast({ title: 'Error creating label', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Rename or recolor a label; every task carrying it follows */
+  const updateLabel = async (labelId: string, labelData: Partial<Label>) => {
+    try {
+      await updateLabelMutation.mutateAsync({ labelId, labelData });
+      toast({ title: 'Label updated' });
+    } catch (error) {
+      toast({ title: 'Error updating label', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Delete a label and take it off every task */
+  const deleteLabel = async (labelId: string) => {
+    try {
+      await deleteLabelMutation.mutateAsync(labelId);
+      toast({ title: 'Label deleted' });
+    } catch (error) {
+      toast({ title: 'Error deleting label', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    labels,
+    loading: labelsQuery.isLoading,
+    createLabel,
+    updateLabel,
+    deleteLabel,
+    // Same rule as the labels RLS policy
+    canManageLabels: isAdmin || isDepartmentHead,
+  };
+}
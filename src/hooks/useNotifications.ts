@@ -0,0 +1,123 @@
+/**
+ * useNotifications.ts - Notification Center Hook
+ *
+ * Provides the signed-in user's notifications:
+ * - Fetches the most recent notifications and the unread count
+ * - Keeps them live through a Supabase realtime subscription
+ * - Marks one or all notifications as read
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Notification } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+// Older notifications stay in the database but aren't loaded into the bell
+const NOTIFICATION_LIMIT = 50;
+
+export function useNotifications() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  /**
+   * Fetch the latest notifications, newest first
+   */
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications((data || []) as Notification[]);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    // Merge inserts and read-state updates pushed by the database
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const created = payload.new as Notification;
+          setNotifications((prev) =>
+            [created, ...prev.filter((n) => n.id !== created.id)].slice(0, NOTIFICATION_LIMIT)
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const updated = payload.new as Notification;
+          setNotifications((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  /** Mark a single notification as read */
+  const markAsRead = async (notificationId: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.id === notificationId ? { ...n, read_at: readAt } : n)));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', notificationId);
+
+    if (error) {
+      toast({ title: 'Error updating notification', description: error.message, variant: 'destructive' });
+      await fetchNotifications();
+    }
+  };
+
+  /** Mark every unread notification as read */
+  const markAllAsRead = async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) {
+      toast({ title: 'Error updating notifications', description: error.message, variant: 'destructive' });
+      await fetchNotifications();
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read_at).length,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    refetch: fetchNotifications,
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * useOpenTask.ts - Open a Task by URL
+ *
+ * Tasks open at /tasks/:taskId. The page they were opened from is passed
+ * along as the background location, so it stays rendered behind the task
+ * dialog and the back button returns to it.
+ */
+
+import { useLocation, useNavigate, Location } from 'react-router-dom';
+
+export interface TaskRouteState {
+  backgroundLocation?: Location;
+}
+
+export function useOpenTask() {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  return (taskId: string) => {
+    // Opening one task from another keeps the original page in the background
+    const background = (location.state as TaskRouteState | null)?.backgroundLocation ?? location;
+    navigate(`/tasks/${taskId}`, { state: { backgroundLocation: background } satisfies TaskRouteState });
+  };
+}
@@ -1,75 +1,117 @@
 /**
  * useProjects.ts - Project Management Hook
- * 
+ *
  * Provides project-related data and operations:
- * - Fetches all projects with their task counts
- * - Creates and updates projects
+ * - Reads projects and their task counts from the shared TanStack Query cache
+ * - Creates and updates projects, and moves them to the trash or the archive with their tasks
  * - Role-based permission checking
+ * - Scopes department heads' new projects to their department
+ * - Keeps projects and task counts live through Supabase realtime
  */
 
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Project } from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
 import { toast } from '@/hooks/use-toast';
+import { queryKeys, taskQueryKeys, fetchProjects, fetchTasks } from '@/lib/queries';
 
 export function useProjects() {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [projectTaskCounts, setProjectTaskCounts] = useState<Record<string, number>>({});
-  const [loading, setLoading] = useState(true);
-  const { user, isAdmin, isDepartmentHead } = useAuth();
+  const queryClient = useQueryClient();
+  const { user, profile, isAdmin, isDepartmentHead } = useAuth();
+  const userId = user?.id ?? '';
+  const enabled = !!user;
 
-  /**
-   * Fetch all projects and count tasks per project
-   */
-  const fetchProjects = async () => {
-    if (!user) return;
+  // Same cache entries as useTasks, so pages using both fetch each list once
+  const projectsQuery = useQuery({ queryKey: queryKeys.projects(userId), queryFn: fetchProjects, enabled });
+  const tasksQuery = useQuery({ queryKey: queryKeys.tasks(userId), queryFn: fetchTasks, enabled });
 
-    try {
-      // Fetch projects and tasks in parallel
-      const [projectsRes, tasksRes] = await Promise.all([
-        supabase.from('projects').select('*').order('name'),
-        supabase.from('tasks').select('project_id')
-      ]);
-
-      if (projectsRes.error) throw projectsRes.error;
-      if (tasksRes.error) throw tasksRes.error;
-
-      // Count how many tasks each project has
-      const counts: Record<string, number> = {};
-      (tasksRes.data || []).forEach((task: any) => {
-        if (task.project_id) {
-          counts[task.project_id] = (counts[task.project_id] || 0) + 1;
-        }
-      });
+  // Merge other users' changes into the cache as they happen
+  useRealtimeSync();
 
-      setProjects(projectsRes.data || []);
-      setProjectTaskCounts(counts);
-    } catch (error: any) {
-      console.error('Error fetching projects:', error);
-      toast({ title: 'Error loading projects', description: error.message, variant: 'destructive' });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const loadError = projectsQuery.error || tasksQuery.error;
 
-  // Fetch on mount and when user changes
   useEffect(() => {
-    fetchProjects();
-  }, [user]);
+    if (!loadError) return;
+    console.error('Error fetching projects:', loadError);
+    toast({ title: 'Error loading projects', description: loadError.message, variant: 'destructive' });
+  }, [loadError]);
 
-  /** Create a new project */
-  const createProject = async (projectData: Partial<Project>) => {
-    try {
+  /** Refetch the project list after a change */
+  const invalidateProjects = () => queryClient.invalidateQueries({ queryKey: queryKeys.projects(userId) });
+
+  // Count how many tasks each project has
+  const projectTaskCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    (tasksQuery.data || []).forEach((task) => {
+      if (task.project_id) {
+        counts[task.project_id] = (counts[task.project_id] || 0) + 1;
+      }
+    });
+    return counts;
+  }, [tasksQuery.data]);
+
+  const createProjectMutation = useMutation({
+    mutationFn: async (projectData: Partial<Project>) => {
       const { error } = await supabase.from('projects').insert({
         name: projectData.name!,
         description: projectData.description,
+        // Department heads can only create projects in their own department
+        department_id: isDepartmentHead ? profile?.department_id : projectData.department_id,
         created_by: user?.id,
       });
+      if (error) throw error;
+    },
+    onSuccess: invalidateProjects,
+  });
+
+  const updateProjectMutation = useMutation({
+    mutationFn: async ({ projectId, projectData }: { projectId: string; projectData: Partial<Project> }) => {
+      // Department heads cannot move projects out of their department
+      const updateData = isDepartmentHead ? { ...projectData, department_id: undefined } : projectData;
+      const { error } = await supabase.from('projects').update(updateData).eq('id', projectId);
+      if (error) throw error;
+    },
+    onSuccess: invalidateProjects,
+  });
 
+  const trashProjectMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const { data, error } = await supabase.rpc('trash_project', { _project_id: projectId });
       if (error) throw error;
+      return data;
+    },
+    // The project's tasks go to the trash with it
+    onSuccess: () =>
+      Promise.all(
+        [queryKeys.projects(userId), queryKeys.trash(userId), ...taskQueryKeys(userId)].map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey })
+        )
+      ),
+  });
+
+  const archiveProjectMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const { data, error } = await supabase.rpc('archive_project', { _project_id: projectId });
+      if (error) throw error;
+      return data;
+    },
+    // The project's tasks are archived with it
+    onSuccess: () =>
+      Promise.all(
+        [queryKeys.projects(userId), queryKeys.archive(userId), ...taskQueryKeys(userId)].map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey })
+        )
+      ),
+  });
+
+  /** Create a new project */
+  const createProject = async (projectData: Partial<Project>) => {
+    try {
+      await createProjectMutation.mutateAsync(projectData);
       toast({ title: 'Project created successfully' });
-      await fetchProjects();
     } catch (error: any) {
       toast({ title: 'Error creating project', description: error.message, variant: 'destructive' });
       throw error;
@@ -79,24 +121,61 @@ export function useProjects() {
   /** Update an existing project */
   const updateProject = async (projectId: string, projectData: Partial<Project>) => {
     try {
-      const { error } = await supabase.from('projects').update(projectData).eq('id', projectId);
-
-      if (error) throw error;
+      await updateProjectMutation.mutateAsync({ projectId, projectData });
       toast({ title: 'Project updated successfully' });
-      await fetchProjects();
     } catch (error: any) {
       toast({ title: 'Error updating project', description: error.message, variant: 'destructive' });
       throw error;
     }
   };
 
+  /**
+   * Move a project and all of its tasks to the trash
+   * Nothing is lost until the project is purged from the Trash page
+   */
+  const trashProject = async (projectId: string) => {
+    try {
+      const count = await trashProjectMutation.mutateAsync(projectId);
+      toast({
+        title: 'Project moved to trash',
+        description: count > 0 ? `${count} task${count === 1 ? '' : 's'} moved with it` : undefined,
+      });
+    } catch (error) {
+      toast({ title: 'Error moving project to trash', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Archive a project and all of its tasks
+   * They leave the lists and can be unarchived from the Archive page
+   */
+  const archiveProject = async (projectId: string) => {
+    try {
+      const count = await archiveProjectMutation.mutateAsync(projectId);
+      toast({
+        title: 'Project archived',
+        description: count > 0 ? `${count} task${count === 1 ? '' : 's'} archived with it` : undefined,
+      });
+    } catch (error) {
+      toast({ title: 'Error archiving project', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
   return {
-    projects,
+    projects: projectsQuery.data || [],
     projectTaskCounts,
-    loading,
+    loading: projectsQuery.isLoading || tasksQuery.isLoading,
     createProject,
     updateProject,
-    refetch: fetchProjects,
+    trashProject,
+    archiveProject,
+    refetch: () =>
+      Promise.all([
+        invalidateProjects(),
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks(userId) }),
+      ]),
     canManageProjects: isAdmin || isDepartmentHead,
   };
 }
@@ -0,0 +1,153 @@
+/**
+ * useRealtimeSync.ts - Live Cache Updates
+ *
+ * Subscribes to Supabase realtime changes on tasks, projects, checklist items,
+ * dependencies, labels, assignees and watchers, and merges them into the shared query cache.
+ * Workflow changes refetch the workflows. Realtime applies RLS per subscriber, so
+ * users only receive rows they can see.
+ */
+
+import { useEffect, useId } from 'react';
+import { useQueryClient, InfiniteData } from '@tanstack/react-query';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Label,
+  Project,
+  Task,
+  TaskAssignee,
+  TaskChecklistItem,
+  TaskDependency,
+  TaskLabel,
+  TaskWatcher,
+  TaskWithRelations,
+} from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys, TaskPage } from '@/lib/queries';
+
+/** Rows moved to the trash or the archive leave the lists just like deleted ones */
+const isRemoval = <T extends { deleted_at?: string | null; archived_at?: string | null }>(
+  payload: RealtimePostgresChangesPayload<T>
+) => payload.eventType === 'DELETE' || !!(payload.new as T).deleted_at || !!(payload.new as T).archived_at;
+
+/** Merge a realtime change into a list of rows keyed by id */
+function applyChange<T extends { id: string; deleted_at?: string | null; archived_at?: string | null }>(
+  rows: T[],
+  payload: RealtimePostgresChangesPayload<T>
+): T[] {
+  if (isRemoval(payload)) {
+    const removedId = payload.eventType === 'DELETE' ? (payload.old as Partial<T>).id : (payload.new as T).id;
+    return rows.filter((row) => row.id !== removedId);
+  }
+  const changed = payload.new as T;
+  return rows.some((row) => row.id === changed.id)
+    ? rows.map((row) => (row.id === changed.id ? changed : row))
+    : [changed, ...rows];
+}
+
+export function useRealtimeSync() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const channelId = useId(); // Channels are shared by topic, so each hook instance needs its own
+
+  useEffect(() => {
+    if (!user) return;
+
+    /** Patch a cached list; lists that were never loaded are left alone */
+    const merge = <T extends { id: string }>(
+      key: readonly unknown[],
+      payload: RealtimePostgresChangesPayload<T>,
+      sort?: (a: T, b: T) => number
+    ) => {
+      queryClient.setQueryData<T[]>(key, (rows) => {
+        if (!rows) return rows;
+        const merged = applyChange(rows, payload);
+        return sort ? merged.sort(sort) : merged;
+      });
+    };
+
+    /**
+     * Patch or drop a changed task in the paginated lists. New tasks may
+     * belong anywhere in any filtered list, so those lists are refetched.
+     */
+    const mergeIntoPages = (payload: RealtimePostgresChangesPayload<Task>) => {
+      const listKey = queryKeys.taskList(user.id);
+      if (payload.eventType === 'INSERT') {
+        queryClient.invalidateQueries({ queryKey: listKey });
+        return;
+      }
+      const taskId = payload.eventType === 'DELETE' ? payload.old.id : payload.new.id;
+      queryClient.setQueriesData<InfiniteData<TaskPage>>({ queryKey: listKey }, (data) => {
+        if (!data) return data;
+        const pages = data.pages.map((page) => ({
+          ...page,
+          tasks: isRemoval(payload)
+            ? page.tasks.filter((t) => t.id !== taskId)
+            : page.tasks.map((t) => (t.id === taskId ? { ...t, ...payload.new } : t)),
+        }));
+        return { ...data, pages };
+      });
+    };
+
+    /** Patch a task opened on its own; a deleted one becomes "not found", a trashed or archived one shows as such */
+    const mergeIntoTask = (payload: RealtimePostgresChangesPayload<Task>) => {
+      if (payload.eventType === 'INSERT') return;
+      const taskId = payload.eventType === 'DELETE' ? payload.old.id : payload.new.id;
+      queryClient.setQueryData<TaskWithRelations | null>(queryKeys.task(user.id, taskId), (task) =>
+        task && (payload.eventType === 'DELETE' ? null : { ...task, ...payload.new })
+      );
+    };
+
+    const channel = supabase
+      .channel(`sync:${user.id}${channelId}`)
+      .on<Task>('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, (payload) => {
+        merge(queryKeys.tasks(user.id), payload);
+        mergeIntoPages(payload);
+        mergeIntoTask(payload);
+        queryClient.invalidateQueries({ queryKey: queryKeys.taskStats(user.id) });
+      })
+      .on<Project>('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, (payload) =>
+        merge(queryKeys.projects(user.id), payload, (a, b) => a.name.localeCompare(b.name))
+      )
+      .on<TaskChecklistItem>('postgres_changes', { event: '*', schema: 'public', table: 'task_checklist_items' }, (payload) =>
+        merge(queryKeys.checklistItems(user.id), payload, (a, b) => a.position - b.position)
+      )
+      .on<TaskDependency>('postgres_changes', { event: '*', schema: 'public', table: 'task_dependencies' }, (payload) => {
+        merge(queryKeys.dependencies(user.id), payload);
+        queryClient.invalidateQueries({ queryKey: queryKeys.hiddenBlockers(user.id) });
+      })
+      // Paginated lists and single tasks carry label and people rows, so those are refetched
+      .on<Label>('postgres_changes', { event: '*', schema: 'public', table: 'labels' }, (payload) => {
+        merge(queryKeys.labels(user.id), payload, (a, b) => a.name.localeCompare(b.name));
+        queryClient.invalidateQueries({ queryKey: queryKeys.taskList(user.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.task(user.id) });
+      })
+      .on<TaskLabel>('postgres_changes', { event: '*', schema: 'public', table: 'task_labels' }, (payload) => {
+        merge(queryKeys.taskLabels(user.id), payload);
+        queryClient.invalidateQueries({ queryKey: queryKeys.taskList(user.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.task(user.id) });
+      })
+      .on<TaskAssignee>('postgres_changes', { event: '*', schema: 'public', table: 'task_assignees' }, (payload) => {
+        merge(queryKeys.taskAssignees(user.id), payload);
+        queryClient.invalidateQueries({ queryKey: queryKeys.taskList(user.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.task(user.id) });
+      })
+      .on<TaskWatcher>('postgres_changes', { event: '*', schema: 'public', table: 'task_watchers' }, (payload) => {
+        merge(queryKeys.taskWatchers(user.id), payload);
+        queryClient.invalidateQueries({ queryKey: queryKeys.taskList(user.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.task(user.id) });
+      })
+      // A workflow is saved as several rows at once; refetching beats merging each
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'workflow_statuses' }, () =>
+        queryClient.invalidateQueries({ queryKey: queryKeys.workflows(user.id) })
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'workflow_transitions' }, () =>
+        queryClient.invalidateQueries({ queryKey: queryKeys.workflows(user.id) })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
@@ -0,0 +1,171 @@
+/**
+ * useTaskAttachments.ts - Task File Attachments Hook
+ *
+ * Provides the files attached to a single task:
+ * - Fetches attachment records and signed thumbnail URLs for images
+ * - Uploads files to Supabase Storage and records them
+ * - Downloads and deletes attachments
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TaskAttachment } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+export const ATTACHMENTS_BUCKET = 'task-attachments';
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // Matches the bucket's file_size_limit
+
+// Signed URLs are short-lived; thumbnails are refreshed on every fetch
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export function useTaskAttachments(taskId: string | null | undefined) {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const { user } = useAuth();
+
+  /**
+   * Fetch the task's attachments, newest first, plus signed URLs for image thumbnails
+   */
+  const fetchAttachments = async () => {
+    if (!user || !taskId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const images = (data || []).filter((a) => a.content_type?.startsWith('image/'));
+      const urls: Record<string, string> = {};
+      if (images.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .createSignedUrls(images.map((a) => a.storage_path), SIGNED_URL_TTL_SECONDS);
+
+        if (signError) throw signError;
+        (signed || []).forEach((s) => {
+          if (s.signedUrl && s.path) urls[s.path] = s.signedUrl;
+        });
+      }
+
+      setAttachments(data || []);
+      setThumbnailUrls(urls);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      toast({ title: 'Error loading attachments', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setAttachments([]);
+    setThumbnailUrls({});
+    setLoading(true);
+    fetchAttachments();
+  }, [user, taskId]);
+
+  /**
+   * Upload files into the task's folder and record each one
+   * Files over the size limit are skipped with a warning
+   */
+  const uploadFiles = async (files: File[]) => {
+    if (!taskId || !user) return;
+
+    const tooLarge = files.filter((f) => f.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: 'Some files are too large',
+        description: `${tooLarge.map((f) => f.name).join(', ')} exceed the 20 MB limit`,
+        variant: 'destructive',
+      });
+    }
+
+    const accepted = files.filter((f) => f.size <= MAX_ATTACHMENT_SIZE);
+    if (accepted.length === 0) return;
+
+    setUploading(true);
+    try {
+      for (const file of accepted) {
+        const storagePath = `${taskId}/${crypto.randomUUID()}-${file.name}`;
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .upload(storagePath, file, { contentType: file.type || undefined });
+
+        if (uploadError) throw uploadError;
+
+        const { error } = await supabase.from('task_attachments').insert({
+          task_id: taskId,
+          uploaded_by: user.id,
+          file_name: file.name,
+          storage_path: storagePath,
+          content_type: file.type || null,
+          size_bytes: file.size,
+        });
+
+        if (error) {
+          // Don't leave an unreferenced file behind
+          await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+          throw error;
+        }
+      }
+
+      toast({ title: accepted.length === 1 ? 'File uploaded' : `${accepted.length} files uploaded` });
+    } catch (error) {
+      toast({ title: 'Error uploading file', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      await fetchAttachments();
+    }
+  };
+
+  /** Download an attachment through a short-lived signed URL */
+  const downloadAttachment = async (attachment: TaskAttachment) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrl(attachment.storage_path, 60, { download: attachment.file_name });
+
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank');
+    } catch (error) {
+      toast({ title: 'Error downloading file', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  /** Delete the stored file and its record */
+  const deleteAttachment = async (attachment: TaskAttachment) => {
+    try {
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .remove([attachment.storage_path]);
+
+      if (storageError) throw storageError;
+
+      const { error } = await supabase.from('task_attachments').delete().eq('id', attachment.id);
+
+      if (error) throw error;
+      toast({ title: 'Attachment deleted' });
+      await fetchAttachments();
+    } catch (error) {
+      toast({ title: 'Error deleting attachment', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return {
+    attachments,
+    thumbnailUrls,
+    loading,
+    uploading,
+    uploadFiles,
+    downloadAttachment,
+    deleteAttachment,
+    refetch: fetchAttachments,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * useTaskComments.ts - Task Discussion Hook
+ *
+ * Provides the comment thread of a single task:
+ * - Fetches comments with their authors
+ * - Adds comments and replies, edits and deletes own comments
+ * - Mentioned user ids are stored on the comment; a database trigger notifies them
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TaskCommentWithAuthor, Profile } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+export function useTaskComments(taskId: string | null | undefined) {
+  const [comments, setComments] = useState<TaskCommentWithAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  /**
+   * Fetch the task's comments, oldest first, then their authors' profiles
+   */
+  const fetchComments = async () => {
+    if (!user || !taskId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      const authorIds = [...new Set((data || []).map((c) => c.author_id))];
+      const { data: authors, error: authorsError } = authorIds.length
+        ? await supabase.from('profiles').select('*').in('id', authorIds)
+        : { data: [] as Profile[], error: null };
+
+      if (authorsError) throw authorsError;
+
+      setComments((data || []).map((comment) => ({
+        ...comment,
+        author: authors?.find((a) => a.id === comment.author_id) || null,
+      })));
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      toast({ title: 'Error loading comments', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch when the task (or user) changes
+  useEffect(() => {
+    setComments([]);
+    setLoading(true);
+    fetchComments();
+  }, [user, taskId]);
+
+  /** Post a new comment, or a reply when parentId is given */
+  const addComment = async (body: string, mentions: string[], parentId: string | null = null) => {
+    if (!taskId || !user) return;
+
+    try {
+      const { error } = await supabase.from('task_comments').insert({
+        task_id: taskId,
+        parent_id: parentId,
+        author_id: user.id,
+        body,
+        mentions,
+      });
+
+      if (error) throw error;
+      await fetchComments();
+    } catch (error) {
+      toast({ title: 'Error posting comment', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Edit one of the current user's comments */
+  const updateComment = async (commentId: string, body: string, mentions: string[]) => {
+    try {
+      const { error } = await supabase.from('task_comments').update({ body, mentions }).eq('id', commentId);
+
+      if (error) throw error;
+      await fetchComments();
+    } catch (error) {
+      toast({ title: 'Error updating comment', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Delete one of the current user's comments (its replies go with it) */
+  const deleteComment = async (commentId: string) => {
+    try {
+      const { error } = await supabase.from('task_comments').delete().eq('id', commentId);
+
+      if (error) throw error;
+      await fetchComments();
+    } catch (error) {
+      toast({ title: 'Error deleting comment', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    comments,
+    loading,
+    addComment,
+    updateComment,
+    deleteComment,
+    refetch: fetchComments,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * useTaskEvents.ts - Task History Hook
+ *
+ * Fetches the activity log of a single task (written by a database trigger)
+ * together with the profiles of the people who made each change.
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Profile, TaskEvent, TaskEventWithActor } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+export function useTaskEvents(taskId: string | null | undefined) {
+  const [events, setEvents] = useState<TaskEventWithActor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  /**
+   * Fetch the task's events, newest first, then their actors' profiles
+   */
+  const fetchEvents = async () => {
+    if (!user || !taskId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_events')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const actorIds = [...new Set((data || []).map((e) => e.actor_id).filter(Boolean))];
+      const { data: actors, error: actorsError } = actorIds.length
+        ? await supabase.from('profiles').select('*').in('id', actorIds)
+        : { data: [] as Profile[], error: null };
+
+      if (actorsError) throw actorsError;
+
+      setEvents((data || []).map((event) => ({
+        ...(event as TaskEvent),
+        actor: actors?.find((a) => a.id === event.actor_id) || null,
+      })));
+    } catch (error) {
+      console.error('Error fetching task history:', error);
+      toast({ title: 'Error loading history', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setEvents([]);
+    setLoading(true);
+    fetchEvents();
+  }, [user, taskId]);
+
+  return {
+    events,
+    loading,
+    refetch: fetchEvents,
+  };
+}
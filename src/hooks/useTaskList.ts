@@ -0,0 +1,93 @@
+/**
+ * useTaskList.ts - Paginated Task List Hook
+ *
+ * Provides one filtered, sorted list of tasks for the Dashboard:
+ * - Filters and sorting run in the database; pages are loaded by cursor
+ * - Task totals per status are counted by the database
+ * - Task operations come from useTaskMutations
+ * - Other users' changes are merged live through Supabase realtime
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useInfiniteQuery, useQuery, keepPreviousData } from '@tanstack/react-query';
+import { TaskWithRelations } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
+import { useTaskMutations } from '@/hooks/useTaskMutations';
+import { useTaskPickers } from '@/hooks/useTaskPickers';
+import { useWorkflows } from '@/hooks/useWorkflows';
+import { toast } from '@/hooks/use-toast';
+import { queryKeys, fetchTaskPage, fetchTaskStats, TaskCursor, TaskListFilters } from '@/lib/queries';
+
+export const DEFAULT_TASK_FILTERS: TaskListFilters = {
+  search: '',
+  status: 'all',
+  priority: 'all',
+  projectId: 'all',
+  assigneeId: 'all',
+  dueFrom: '',
+  dueTo: '',
+  labelIds: [],
+  labelMatch: 'any',
+  sort: 'created_at',
+};
+
+export function useTaskList(filters: TaskListFilters) {
+  const { user } = useAuth();
+  const userId = user?.id ?? '';
+  const enabled = !!user;
+
+  const listQuery = useInfiniteQuery({
+    queryKey: queryKeys.taskList(userId, filters),
+    queryFn: ({ pageParam }) => fetchTaskPage(filters, pageParam),
+    initialPageParam: null as TaskCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData, // Keep showing the old results while new filters load
+    enabled,
+  });
+  const statsQuery = useQuery({ queryKey: queryKeys.taskStats(userId), queryFn: fetchTaskStats, enabled });
+  const { projects, users, allProjects, allUsers, loading: pickersLoading, error: pickersError } = useTaskPickers();
+  const { statuses } = useWorkflows();
+
+  // Merge other users' changes into the cache as they happen
+  useRealtimeSync();
+
+  const loadError = listQuery.error || statsQuery.error || pickersError;
+
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching tasks:', loadError);
+    toast({ title: 'Error loading tasks', description: loadError.message, variant: 'destructive' });
+  }, [loadError]);
+
+  // Flatten the loaded pages and attach project, status and assignee
+  const tasks = useMemo<TaskWithRelations[]>(
+    () =>
+      (listQuery.data?.pages || []).flatMap((page) =>
+        page.tasks.map((task) => ({
+          ...task,
+          project: allProjects.find((p) => p.id === task.project_id) || null,
+          workflow_status: statuses.find((s) => s.id === task.status_id) || null,
+          assigned_user: allUsers.find((u) => u.id === task.assigned_to) || null,
+        }))
+      ),
+    [listQuery.data, allProjects, statuses, allUsers]
+  );
+
+  const mutations = useTaskMutations({
+    findTask: (taskId) => tasks.find((t) => t.id === taskId),
+  });
+
+  return {
+    tasks,
+    stats: statsQuery.data || { total: 0, completed: 0, inProgress: 0, pending: 0 },
+    projects,
+    users,
+    loading: listQuery.isLoading || statsQuery.isLoading || pickersLoading,
+    isFiltering: listQuery.isPlaceholderData, // New filters applied, results still loading
+    hasNextPage: listQuery.hasNextPage,
+    isFetchingNextPage: listQuery.isFetchingNextPage,
+    fetchNextPage: listQuery.fetchNextPage,
+    ...mutations,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * useTaskListFilters.ts - Dashboard Filters in the URL
+ *
+ * Keeps the task list's filters and sort order in the query string, so a
+ * filtered dashboard survives reloads, can be shared as a link, and comes
+ * back as it was after opening a task. Only non-default values are written;
+ * label ids are written as one comma-separated value.
+ */
+
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_TASK_FILTERS } from '@/hooks/useTaskList';
+import { TaskListFilters } from '@/lib/queries';
+
+// Query string parameter for each filter
+const PARAMS: Record<keyof TaskListFilters, string> = {
+  search: 'q',
+  status: 'status',
+  priority: 'priority',
+  projectId: 'project',
+  assigneeId: 'assignee',
+  dueFrom: 'from',
+  dueTo: 'to',
+  labelIds: 'labels',
+  labelMatch: 'match',
+  sort: 'sort',
+};
+
+const STATUSES: string[] = ['all', 'pending', 'in_progress', 'completed'];
+const PRIORITIES: string[] = ['all', 'low', 'medium', 'high', 'urgent'];
+const SORTS: string[] = ['created_at', 'due_date', 'priority', 'title'];
+const LABEL_MATCHES: string[] = ['any', 'all'];
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Read filters from the query string, ignoring values the list can't use */
+function parseFilters(params: URLSearchParams): TaskListFilters {
+  const read = (key: Exclude<keyof TaskListFilters, 'labelIds'>, isValid: (value: string) => boolean = () => true) => {
+    const value = params.get(PARAMS[key]);
+    return value !== null && isValid(value) ? value : DEFAULT_TASK_FILTERS[key];
+  };
+
+  return {
+    search: read('search'),
+    status: read('status', (v) => STATUSES.includes(v)) as TaskListFilters['status'],
+    priority: read('priority', (v) => PRIORITIES.includes(v)) as TaskListFilters['priority'],
+    projectId: read('projectId'),
+    assigneeId: read('assigneeId'),
+    dueFrom: read('dueFrom', (v) => DATE.test(v)),
+    dueTo: read('dueTo', (v) => DATE.test(v)),
+    labelIds: params.get(PARAMS.labelIds)?.split(',').filter(Boolean) ?? DEFAULT_TASK_FILTERS.labelIds,
+    labelMatch: read('labelMatch', (v) => LABEL_MATCHES.includes(v)) as TaskListFilters['labelMatch'],
+    sort: read('sort', (v) => SORTS.includes(v)) as TaskListFilters['sort'],
+  };
+}
+
+export function useTaskListFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+
+  /** Change one filter; replaces the history entry so typing doesn't flood the back button */
+  const updateFilter = <K extends keyof TaskListFilters>(key: K, value: TaskListFilters[K]) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        const serialize = (v: TaskListFilters[K]) => (Array.isArray(v) ? v.join(',') : (v as string));
+        if (serialize(value) === serialize(DEFAULT_TASK_FILTERS[key])) next.delete(PARAMS[key]);
+        else next.set(PARAMS[key], serialize(value));
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  return { filters, updateFilter };
+}
@@ -0,0 +1,539 @@
+/**
+ * useTaskMutations.ts - Task Write Operations
+ *
+ * All task changes in one place, shared by the full task hook (useTasks)
+ * and the paginated list (useTaskList):
+ * - Creates, updates, trashes, archives, and toggles task completion (updates are optimistic)
+ * - Changes or trashes many tasks in one call, with an undo in the toast
+ * - Refuses to start or finish blocked tasks unless overridden
+ * - Schedules the next occurrence when a recurring task is completed
+ * - Manages checklist items and dependencies, and sets a task's labels and assignees
+ * - Lets the current user watch or stop watching a task
+ * - Refreshes every cached task list afterwards
+ */
+
+import { createElement, ReactElement } from 'react';
+import { useMutation, useQueryClient, InfiniteData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Task, TaskDependency, TaskWithRelations } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { ToastAction } from '@/components/ui/toast';
+import { queryKeys, taskQueryKeys, TaskPage } from '@/lib/queries';
+import { describeOpenBlockers, isTaskBlocked, wouldCreateCycle } from '@/lib/taskDependencies';
+import { getNextOccurrence } from '@/lib/recurrence';
+
+export interface UpdateTaskOptions {
+  overrideBlockers?: boolean; // Allow starting/completing a task whose blockers are still open
+}
+
+// Fields that can be changed on many tasks at once; a status_id comes with its category in status
+export type BulkTaskChanges = Partial<
+  Pick<Task, 'status' | 'status_id' | 'priority' | 'assigned_to' | 'project_id' | 'due_date'>
+>;
+
+interface TaskMutationsConfig {
+  findTask: (taskId: string) => TaskWithRelations | undefined; // Loaded task with its relations
+  dependencies?: TaskDependency[]; // Every dependency, when the caller has them all
+}
+
+export function useTaskMutations({ findTask, dependencies }: TaskMutationsConfig) {
+  const queryClient = useQueryClient();
+  const { user, isAdmin, isDepartmentHead } = useAuth();
+  const userId = user?.id ?? '';
+  const { formatDay } = useDateFormat();
+
+  /** Mark the given cached lists stale and refetch them */
+  const invalidate = (...keys: (readonly unknown[])[]) =>
+    Promise.all(keys.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+
+  /** Refetch every cached view of tasks */
+  const invalidateTasks = () => invalidate(...taskQueryKeys(userId));
+
+  const createTaskMutation = useMutation({
+    mutationFn: async ({ labels, assignees, ...taskData }: Partial<TaskWithRelations>) => {
+      const { data, error } = await supabase.from('tasks').insert({
+        title: taskData.title!,
+        description: taskData.description,
+        priority: taskData.priority,
+        status: taskData.status,
+        status_id: taskData.status_id,
+        project_id: taskData.project_id,
+        parent_task_id: taskData.parent_task_id,
+        assigned_to: taskData.assigned_to,
+        start_date: taskData.start_date,
+        due_date: taskData.due_date,
+        is_milestone: taskData.is_milestone,
+        recurrence: taskData.recurrence,
+        created_by: user?.id,
+      }).select('id').single();
+      if (error) throw error;
+      if (labels?.length) await saveLabels(data.id, labels.map((l) => l.id));
+      // The primary assignee came with the insert; this adds the others
+      if (assignees && assignees.length > 1) await saveAssignees(data.id, assignees.map((a) => a.id));
+    },
+    onSuccess: () =>
+      Promise.all([
+        invalidateTasks(),
+        invalidate(queryKeys.taskLabels(userId), queryKeys.taskAssignees(userId)),
+      ]),
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ taskId, updateData }: { taskId: string; updateData: Partial<Task> }) => {
+      const { error } = await supabase.from('tasks').update(updateData).eq('id', taskId);
+      if (error) throw error;
+    },
+    // Show the change immediately in every cached list; put them back if Supabase rejects it
+    onMutate: async ({ taskId, updateData }) => {
+      const lists = [queryKeys.tasks(userId), queryKeys.taskList(userId), queryKeys.task(userId)];
+      await Promise.all(lists.map((queryKey) => queryClient.cancelQueries({ queryKey })));
+      const previous = lists.flatMap((queryKey) => queryClient.getQueriesData({ queryKey }));
+
+      const patch = <T extends Task>(task: T): T => (task.id === taskId ? { ...task, ...updateData } : task);
+      queryClient.setQueryData<Task[]>(queryKeys.tasks(userId), (rows) => rows?.map(patch));
+      queryClient.setQueriesData<InfiniteData<TaskPage>>({ queryKey: queryKeys.taskList(userId) }, (data) =>
+        data && { ...data, pages: data.pages.map((page) => ({ ...page, tasks: page.tasks.map(patch) })) }
+      );
+      queryClient.setQueriesData<TaskWithRelations | null>({ queryKey: queryKeys.task(userId) }, (task) => task && patch(task));
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    // Triggers may have changed other rows too (parent roll-up, next occurrence)
+    onSettled: invalidateTasks,
+  });
+
+  const setLabelsMutation = useMutation({
+    mutationFn: ({ taskId, labelIds }: { taskId: string; labelIds: string[] }) => saveLabels(taskId, labelIds),
+    onSuccess: () => Promise.all([invalidateTasks(), invalidate(queryKeys.taskLabels(userId))]),
+  });
+
+  const setAssigneesMutation = useMutation({
+    mutationFn: ({ taskId, userIds }: { taskId: string; userIds: string[] }) => saveAssignees(taskId, userIds),
+    onSuccess: () => Promise.all([invalidateTasks(), invalidate(queryKeys.taskAssignees(userId))]),
+  });
+
+  const watchMutation = useMutation({
+    mutationFn: async ({ taskId, watching }: { taskId: string; watching: boolean }) => {
+      const { error } = watching
+        ? await supabase.from('task_watchers').insert({ task_id: taskId, user_id: userId, created_by: userId })
+        : await supabase.from('task_watchers').delete().eq('task_id', taskId).eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => invalidate(queryKeys.taskWatchers(userId), queryKeys.taskList(userId), queryKeys.task(userId)),
+  });
+
+  const trashTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const { data, error } = await supabase.rpc('trash_task', { _task_id: taskId });
+      if (error) throw error;
+      return data;
+    },
+    // Subtasks go to the trash with their parent
+    onSuccess: () => Promise.all([invalidateTasks(), invalidate(queryKeys.trash(userId))]),
+  });
+
+  const archiveTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const { data, error } = await supabase.rpc('archive_task', { _task_id: taskId });
+      if (error) throw error;
+      return data;
+    },
+    // Subtasks are archived with their parent
+    onSuccess: () => Promise.all([invalidateTasks(), invalidate(queryKeys.archive(userId))]),
+  });
+
+  const bulkUpdateMutation = useMutation({
+    mutationFn: async (updates: Partial<Task>[]) => {
+      const { data, error } = await supabase.rpc('bulk_update_tasks', { _updates: updates as Json });
+      if (error) throw error;
+      return data;
+    },
+    onSettled: invalidateTasks,
+  });
+
+  const bulkTrashMutation = useMutation({
+    mutationFn: async (taskIds: string[]) => {
+      const { data, error } = await supabase.rpc('trash_tasks', { _task_ids: taskIds });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => Promise.all([invalidateTasks(), invalidate(queryKeys.trash(userId))]),
+  });
+
+  const bulkRestoreMutation = useMutation({
+    mutationFn: async (taskIds: string[]) => {
+      const { error } = await supabase.rpc('restore_tasks', { _task_ids: taskIds });
+      if (error) throw error;
+    },
+    onSuccess: () => Promise.all([invalidateTasks(), invalidate(queryKeys.trash(userId))]),
+  });
+
+  /** Replace a task's labels in one call */
+  const saveLabels = async (taskId: string, labelIds: string[]) => {
+    const { error } = await supabase.rpc('set_task_labels', { _task_id: taskId, _label_ids: labelIds });
+    if (error) throw error;
+  };
+
+  /** Replace a task's assignees in one call; the primary stays if still listed */
+  const saveAssignees = async (taskId: string, userIds: string[]) => {
+    const { error } = await supabase.rpc('set_task_assignees', { _task_id: taskId, _user_ids: userIds });
+    if (error) throw error;
+  };
+
+  /** An "Undo" button for a toast */
+  const undoAction = (onUndo: () => void): ReactElement =>
+    createElement(ToastAction, { altText: 'Undo', onClick: onUndo }, 'Undo');
+
+  /**
+   * Create a new task in the database
+   */
+  const createTask = async (taskData: Partial<TaskWithRelations>) => {
+    try {
+      await createTaskMutation.mutateAsync(taskData);
+      toast({ title: 'Task created successfully' });
+    } catch (error: any) {
+      toast({ title: 'Error creating task', description: error.message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Update an existing task, and its labels and assignees when given
+   * Automatically sets completed_at timestamp when status changes to or from 'completed'
+   * Starting or completing a task with open blockers requires options.overrideBlockers;
+   * the database refuses it too, including for blockers the user can't see
+   */
+  const updateTask = async (
+    taskId: string,
+    { labels, assignees, ...taskData }: Partial<TaskWithRelations>,
+    options: UpdateTaskOptions = {}
+  ) => {
+    const current = findTask(taskId);
+    const isProgressing = (taskData.status === 'in_progress' || taskData.status === 'completed') &&
+      taskData.status !== current?.status;
+    const isBlocked = current ? isTaskBlocked(current) : false;
+
+    if (isProgressing && isBlocked && !options.overrideBlockers) {
+      const message = `Waiting on: ${describeOpenBlockers(current)}`;
+      toast({ title: 'Task is blocked', description: message, variant: 'destructive' });
+      throw new Error(message);
+    }
+
+    try {
+      const updateData: any = { ...taskData };
+      if (isProgressing && options.overrideBlockers) updateData.override_blockers = true;
+      
+      // Set completion timestamp when the status category changes (not between two done statuses)
+      if (taskData.status && taskData.status !== current?.status) {
+        updateData.completed_at = taskData.status === 'completed' ? new Date().toISOString() : null;
+      }
+
+      await updateTaskMutation.mutateAsync({ taskId, updateData });
+      const currentLabelIds = (current?.labels || []).map((l) => l.id).sort().join();
+      if (labels && labels.map((l) => l.id).sort().join() !== currentLabelIds) {
+        await setLabelsMutation.mutateAsync({ taskId, labelIds: labels.map((l) => l.id) });
+      }
+      const currentAssigneeIds = (current?.assignees || []).map((a) => a.id).sort().join();
+      if (assignees && assignees.map((a) => a.id).sort().join() !== currentAssigneeIds) {
+        await setAssigneesMutation.mutateAsync({ taskId, userIds: assignees.map((a) => a.id) });
+      }
+      toast({ title: 'Task updated successfully' });
+
+      // Completing an occurrence of a recurring task schedules the next one
+      if (current?.recurrence && taskData.status === 'completed' && current.status !== 'completed') {
+        await scheduleNextOccurrence({ ...current, ...taskData });
+        await invalidateTasks();
+      }
+    } catch (error: any) {
+      toast({ title: 'Error updating task', description: error.message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Start or stop watching a task as the current user
+   * Watchers are notified of due date changes, completion and new comments
+   */
+  const watchTask = async (taskId: string, watching: boolean) => {
+    try {
+      await watchMutation.mutateAsync({ taskId, watching });
+      toast({ title: watching ? 'Watching task' : 'Stopped watching task' });
+    } catch (error) {
+      toast({ title: 'Error updating watchers', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Move a task and its subtasks to the trash
+   * Nothing is lost until the task is purged from the Trash page
+   */
+  const trashTask = async (taskId: string) => {
+    try {
+      const count = await trashTaskMutation.mutateAsync(taskId);
+      toast({
+        title: 'Task moved to trash',
+        description: count > 1 ? `${count - 1} subtask${count > 2 ? 's' : ''} moved with it` : undefined,
+      });
+    } catch (error) {
+      toast({ title: 'Error moving task to trash', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Archive a top-level task and its subtasks
+   * They leave the task lists and can be unarchived from the Archive page
+   */
+  const archiveTask = async (taskId: string) => {
+    try {
+      const count = await archiveTaskMutation.mutateAsync(taskId);
+      toast({
+        title: 'Task archived',
+        description: count > 1 ? `${count - 1} subtask${count > 2 ? 's' : ''} archived with it` : undefined,
+      });
+    } catch (error) {
+      toast({ title: 'Error archiving task', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Apply the same change to many tasks in one call
+   * Blocked tasks are left out of starting or completing. Undo puts back each
+   * task's previous values; next occurrences of completed recurring tasks stay.
+   */
+  const bulkUpdateTasks = async (taskIds: string[], changes: BulkTaskChanges) => {
+    const tasks = taskIds.map(findTask).filter(Boolean);
+    const isProgressing = changes.status === 'in_progress' || changes.status === 'completed';
+    const blocked = isProgressing
+      ? tasks.filter((t) => t.status !== changes.status && isTaskBlocked(t))
+      : [];
+    const targets = tasks.filter((t) => !blocked.includes(t));
+    const blockedNote = blocked.length > 0
+      ? `${blocked.length} blocked task${blocked.length === 1 ? ' was' : 's were'} skipped`
+      : undefined;
+
+    if (targets.length === 0) {
+      toast({ title: 'No tasks updated', description: blockedNote, variant: 'destructive' });
+      return;
+    }
+
+    // Completion time follows status changes, as in updateTask
+    const now = new Date().toISOString();
+    const updates: Partial<Task>[] = targets.map((t) => ({
+      id: t.id,
+      ...changes,
+      ...(changes.status && changes.status !== t.status
+        ? { completed_at: changes.status === 'completed' ? now : null }
+        : {}),
+    }));
+    const previous = updates.map((update, i) =>
+      Object.fromEntries(Object.keys(update).map((key) => [key, targets[i][key as keyof Task]])) as Partial<Task>
+    );
+
+    try {
+      const count = await bulkUpdateMutation.mutateAsync(updates);
+      toast({
+        title: `${count} task${count === 1 ? '' : 's'} updated`,
+        description: blockedNote,
+        action: undoAction(() => undoBulkUpdate(previous)),
+      });
+
+      const completedRecurring = targets.filter(
+        (t) => t.recurrence && changes.status === 'completed' && t.status !== 'completed'
+      );
+      if (completedRecurring.length > 0) {
+        await Promise.all(completedRecurring.map((t) => scheduleNextOccurrence({ ...t, status: 'completed' })));
+        await invalidateTasks();
+      }
+    } catch (error) {
+      toast({ title: 'Error updating tasks', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Put back the values a bulk update replaced */
+  const undoBulkUpdate = async (previous: Partial<Task>[]) => {
+    try {
+      await bulkUpdateMutation.mutateAsync(previous);
+      toast({ title: 'Changes undone' });
+    } catch (error) {
+      toast({ title: 'Error undoing changes', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  /**
+   * Move many tasks and their subtasks to the trash in one call
+   */
+  const bulkTrashTasks = async (taskIds: string[]) => {
+    try {
+      const count = await bulkTrashMutation.mutateAsync(taskIds);
+      toast({
+        title: `${count} task${count === 1 ? '' : 's'} moved to trash`,
+        description: count > taskIds.length ? 'Including subtasks' : undefined,
+        action: undoAction(() => undoBulkTrash(taskIds)),
+      });
+    } catch (error) {
+      toast({ title: 'Error moving tasks to trash', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Bring back tasks a bulk delete moved to the trash */
+  const undoBulkTrash = async (taskIds: string[]) => {
+    try {
+      await bulkRestoreMutation.mutateAsync(taskIds);
+      toast({ title: 'Tasks restored' });
+    } catch (error) {
+      toast({ title: 'Error restoring tasks', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  /**
+   * Create the next occurrence of a just-completed recurring task
+   * Keeps project, assignee and priority; the database ignores duplicates
+   */
+  const scheduleNextOccurrence = async (task: Task) => {
+    const previousDue = task.due_date ? new Date(task.due_date) : new Date();
+    const nextDue = getNextOccurrence(task.recurrence!, previousDue, task.occurrence_number);
+    if (!nextDue) {
+      toast({ title: 'Recurring task finished', description: 'This was the last occurrence' });
+      return;
+    }
+
+    const { error } = await supabase.rpc('create_next_occurrence', {
+      _task_id: task.id,
+      _due_date: nextDue.toISOString(),
+    });
+
+    if (error) {
+      toast({ title: 'Error scheduling next occurrence', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Next occurrence scheduled', description: `Due ${formatDay(nextDue)}` });
+  };
+
+  /**
+   * Toggle a task between completed and pending status
+   */
+  const toggleTaskComplete = async (taskId: string, completed: boolean, options: UpdateTaskOptions = {}) => {
+    await updateTask(taskId, { status: completed ? 'completed' : 'pending' }, options);
+  };
+
+  /**
+   * Mark taskId as blocked by dependsOnId
+   * Cycles are rejected here (when all dependencies are loaded) and again by a database trigger
+   */
+  const addDependency = async (taskId: string, dependsOnId: string) => {
+    try {
+      if (dependencies && wouldCreateCycle(dependencies, taskId, dependsOnId)) {
+        throw new Error('This dependency would create a cycle');
+      }
+
+      const { error } = await supabase.from('task_dependencies').insert({
+        task_id: taskId,
+        depends_on_task_id: dependsOnId,
+        created_by: user?.id,
+      });
+
+      if (error) throw error;
+      await invalidate(queryKeys.dependencies(userId), queryKeys.taskList(userId), queryKeys.task(userId));
+    } catch (error) {
+      toast({ title: 'Error adding dependency', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Remove the link that blocks taskId on dependsOnId
+   */
+  const removeDependency = async (taskId: string, dependsOnId: string) => {
+    try {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('task_id', taskId)
+        .eq('depends_on_task_id', dependsOnId);
+
+      if (error) throw error;
+      await invalidate(queryKeys.dependencies(userId), queryKeys.taskList(userId), queryKeys.task(userId));
+    } catch (error) {
+      toast({ title: 'Error removing dependency', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Add a checklist item to the end of a task's checklist
+   */
+  const addChecklistItem = async (taskId: string, title: string) => {
+    try {
+      const existing = findTask(taskId)?.checklist_items || [];
+      const { error } = await supabase.from('task_checklist_items').insert({
+        task_id: taskId,
+        title,
+        position: existing.length,
+      });
+
+      if (error) throw error;
+      await invalidate(queryKeys.checklistItems(userId), queryKeys.taskList(userId), queryKeys.task(userId));
+    } catch (error) {
+      toast({ title: 'Error adding checklist item', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Check or uncheck a checklist item
+   */
+  const toggleChecklistItem = async (itemId: string, isDone: boolean) => {
+    try {
+      const { error } = await supabase.from('task_checklist_items').update({ is_done: isDone }).eq('id', itemId);
+
+      if (error) throw error;
+      await invalidate(queryKeys.checklistItems(userId), queryKeys.taskList(userId), queryKeys.task(userId));
+    } catch (error) {
+      toast({ title: 'Error updating checklist item', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /**
+   * Remove a checklist item
+   */
+  const deleteChecklistItem = async (itemId: string) => {
+    try {
+      const { error } = await supabase.from('task_checklist_items').delete().eq('id', itemId);
+
+      if (error) throw error;
+      await invalidate(queryKeys.checklistItems(userId), queryKeys.taskList(userId), queryKeys.task(userId));
+    } catch (error) {
+      toast({ title: 'Error deleting checklist item', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    createTask,
+    updateTask,
+    toggleTaskComplete,
+    trashTask,
+    archiveTask,
+    watchTask,
+    bulkUpdateTasks,
+    bulkTrashTasks,
+    addChecklistItem,
+    toggleChecklistItem,
+    deleteChecklistItem,
+    addDependency,
+    removeDependency,
+    // Only admins and department heads can create/manage tasks
+    canManageTasks: isAdmin || isDepartmentHead,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * useTaskPickers.ts - Projects and People for Task Forms
+ *
+ * Provides the project and profile lists from the shared query cache:
+ * - All visible projects and users, for showing who and where a task belongs
+ * - Picker options, limited to their own department for department heads
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys, fetchProjects, fetchProfiles } from '@/lib/queries';
+
+export function useTaskPickers() {
+  const { user, profile, isDepartmentHead } = useAuth();
+  const userId = user?.id ?? '';
+  const enabled = !!user;
+
+  const projectsQuery = useQuery({ queryKey: queryKeys.projects(userId), queryFn: fetchProjects, enabled });
+  const usersQuery = useQuery({ queryKey: queryKeys.profiles(userId), queryFn: fetchProfiles, enabled });
+
+  const allProjects = useMemo(() => projectsQuery.data || [], [projectsQuery.data]);
+  const allUsers = useMemo(() => usersQuery.data || [], [usersQuery.data]);
+
+  // Department heads may only pick projects and assignees from their own department.
+  // RLS enforces this too; filtering here keeps the pickers honest.
+  const departmentId = profile?.department_id;
+  const projects = useMemo(
+    () => (isDepartmentHead ? allProjects.filter((p) => p.department_id === departmentId) : allProjects),
+    [allProjects, isDepartmentHead, departmentId]
+  );
+  const users = useMemo(
+    () => (isDepartmentHead ? allUsers.filter((u) => u.department_id === departmentId) : allUsers),
+    [allUsers, isDepartmentHead, departmentId]
+  );
+
+  return {
+    projects,
+    users,
+    allProjects,
+    allUsers,
+    loading: projectsQuery.isLoading || usersQuery.isLoading,
+    error: projectsQuery.error || usersQuery.error,
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * useTaskSelection.ts - Multi-Select for Task Lists
+ *
+ * Tracks which of the shown tasks are selected for bulk actions. Tasks that
+ * stop being shown (filtered out, trashed, or moved by someone else) drop out
+ * of the selection, so bulk actions only touch what the user can see.
+ */
+
+import { useEffect, useState } from 'react';
+
+export function useTaskSelection(visibleIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const visibleKey = visibleIds.join(',');
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const next = prev.filter((id) => visibleIds.includes(id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [visibleKey]);
+
+  /** Add or remove one task */
+  const toggle = (taskId: string, selected: boolean) =>
+    setSelectedIds((prev) =>
+      selected ? (prev.includes(taskId) ? prev : [...prev, taskId]) : prev.filter((id) => id !== taskId)
+    );
+
+  return {
+    selectedIds,
+    isSelected: (taskId: string) => selectedIds.includes(taskId),
+    toggle,
+    selectAll: () => setSelectedIds(visibleIds),
+    clear: () => setSelectedIds([]),
+  };
+}
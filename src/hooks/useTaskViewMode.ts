@@ -0,0 +1,39 @@
+/**
+ * useTaskViewMode.ts - Task Layout Preference Hook
+ *
+ * Remembers whether the current user prefers the list or the board layout.
+ * The choice is kept in localStorage, keyed by user id, so each person
+ * who signs in on the same browser keeps their own preference.
+ */
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type TaskViewMode = 'list' | 'board';
+
+const STORAGE_PREFIX = 'taskflow:task-view-mode:';
+
+/** Read the stored mode for a user, falling back to the list layout */
+function readViewMode(userId: string | undefined): TaskViewMode {
+  if (!userId) return 'list';
+  const stored = localStorage.getItem(STORAGE_PREFIX + userId);
+  return stored === 'board' ? 'board' : 'list';
+}
+
+export function useTaskViewMode() {
+  const { user } = useAuth();
+  const [viewMode, setViewModeState] = useState<TaskViewMode>(() => readViewMode(user?.id));
+
+  // Load the stored preference when the signed-in user changes
+  useEffect(() => {
+    setViewModeState(readViewMode(user?.id));
+  }, [user?.id]);
+
+  /** Switch layout and persist the choice for this user */
+  const setViewMode = (mode: TaskViewMode) => {
+    setViewModeState(mode);
+    if (user) localStorage.setItem(STORAGE_PREFIX + user.id, mode);
+  };
+
+  return { viewMode, setViewMode };
+}
@@ -1,137 +1,137 @@
 /**
  * useTasks.ts - Task Management Hook
  * 
- * Provides all task-related data and operations:
- * - Fetches tasks, projects, and users from database
- * - Creates, updates, and toggles task completion
- * - Handles role-based permissions for task management
+ * Provides every visible task with its relations, plus all task operations:
+ * - Reads tasks, projects, and users through the shared TanStack Query cache
+ * - Links subtasks to their parent, checklist items, "blocked by" dependencies, labels,
+ *   assignees and watchers
+ * - Task, checklist, dependency, label, assignee and watcher changes come from useTaskMutations
+ * - Merges other users' changes live through Supabase realtime
+ * - Limits department heads to their own department's projects and people
+ *
+ * Loads whole tables; the Dashboard list uses the paginated useTaskList instead.
  */
 
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-import { TaskWithRelations, Task, Project, Profile } from '@/types/database';
+import { useEffect, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { TaskWithRelations } from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
+import { useTaskMutations } from '@/hooks/useTaskMutations';
+import { useTaskPickers } from '@/hooks/useTaskPickers';
+import { useWorkflows } from '@/hooks/useWorkflows';
+import { useLabels } from '@/hooks/useLabels';
 import { toast } from '@/hooks/use-toast';
+import {
+  queryKeys,
+  fetchTasks,
+  fetchChecklistItems,
+  fetchDependencies,
+  fetchHiddenBlockers,
+  fetchTaskLabels,
+  fetchTaskAssignees,
+  fetchTaskWatchers,
+  primaryFirst,
+} from '@/lib/queries';
 
-export function useTasks() {
-  // State for all data
-  const [tasks, setTasks] = useState<TaskWithRelations[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [users, setUsers] = useState<Profile[]>([]);
-  const [loading, setLoading] = useState(true);
-  
-  const { user, isAdmin, isDepartmentHead } = useAuth();
-
-  /**
-   * Fetch all tasks, projects, and users from database
-   * Then combine them to create tasks with their related data
-   */
-  const fetchData = async () => {
-    if (!user) return;
+export type { UpdateTaskOptions } from '@/hooks/useTaskMutations';
 
-    try {
-      // Fetch all data in parallel for speed
-      const [tasksRes, projectsRes, usersRes] = await Promise.all([
-        supabase.from('tasks').select('*').order('created_at', { ascending: false }),
-        supabase.from('projects').select('*').order('name'),
-        supabase.from('profiles').select('*')
-      ]);
+export function useTasks() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? '';
+  const enabled = !!user;
 
-      if (tasksRes.error) throw tasksRes.error;
-      if (projectsRes.error) throw projectsRes.error;
-      if (usersRes.error) throw usersRes.error;
+  // Raw rows as stored in the database, shared with every other hook through the query cache
+  const tasksQuery = useQuery({ queryKey: queryKeys.tasks(userId), queryFn: fetchTasks, enabled });
+  const checklistQuery = useQuery({ queryKey: queryKeys.checklistItems(userId), queryFn: fetchChecklistItems, enabled });
+  const dependenciesQuery = useQuery({ queryKey: queryKeys.dependencies(userId), queryFn: fetchDependencies, enabled });
+  const hiddenBlockersQuery = useQuery({ queryKey: queryKeys.hiddenBlockers(userId), queryFn: fetchHiddenBlockers, enabled });
+  const taskLabelsQuery = useQuery({ queryKey: queryKeys.taskLabels(userId), queryFn: fetchTaskLabels, enabled });
+  const assigneesQuery = useQuery({ queryKey: queryKeys.taskAssignees(userId), queryFn: fetchTaskAssignees, enabled });
+  const watchersQuery = useQuery({ queryKey: queryKeys.taskWatchers(userId), queryFn: fetchTaskWatchers, enabled });
+  const { projects, users, allProjects, allUsers, loading: pickersLoading, error: pickersError } = useTaskPickers();
+  const { statuses } = useWorkflows();
+  const { labels } = useLabels();
 
-      // Combine tasks with their related project and user data
-      const tasksWithRelations: TaskWithRelations[] = (tasksRes.data || []).map((task: any) => ({
-        ...task,
-        project: projectsRes.data?.find((p: Project) => p.id === task.project_id) || null,
-        assigned_user: usersRes.data?.find((u: Profile) => u.id === task.assigned_to) || null,
-      }));
+  // Merge other users' changes into the cache as they happen
+  useRealtimeSync();
 
-      setTasks(tasksWithRelations);
-      setProjects(projectsRes.data || []);
-      setUsers(usersRes.data || []);
-    } catch (error: any) {
-      console.error('Error fetching data:', error);
-      toast({ title: 'Error loading data', description: error.message, variant: 'destructive' });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const loadError = [
+    tasksQuery, checklistQuery, dependenciesQuery, hiddenBlockersQuery, taskLabelsQuery, assigneesQuery, watchersQuery,
+  ].find((q) => q.error)?.error || pickersError;
 
-  // Fetch data when user changes (login/logout)
   useEffect(() => {
-    fetchData();
-  }, [user]);
+    if (!loadError) return;
+    console.error('Error fetching data:', loadError);
+    toast({ title: 'Error loading data', description: loadError.message, variant: 'destructive' });
+  }, [loadError]);
 
-  /**
-   * Create a new task in the database
-   */
-  const createTask = async (taskData: Partial<Task>) => {
-    try {
-      const { error } = await supabase.from('tasks').insert({
-        title: taskData.title!,
-        description: taskData.description,
-        priority: taskData.priority,
-        status: taskData.status,
-        project_id: taskData.project_id,
-        assigned_to: taskData.assigned_to,
-        due_date: taskData.due_date,
-        created_by: user?.id,
-      });
+  const loading = tasksQuery.isLoading || checklistQuery.isLoading || dependenciesQuery.isLoading || hiddenBlockersQuery.isLoading ||
+    taskLabelsQuery.isLoading || assigneesQuery.isLoading || watchersQuery.isLoading || pickersLoading;
 
-      if (error) throw error;
-      toast({ title: 'Task created successfully' });
-      await fetchData(); // Refresh the list
-    } catch (error: any) {
-      toast({ title: 'Error creating task', description: error.message, variant: 'destructive' });
-      throw error;
-    }
-  };
+  /** Mark the given cached lists stale and refetch them */
+  const invalidate = (...keys: (readonly unknown[])[]) =>
+    Promise.all(keys.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
 
-  /**
-   * Update an existing task
-   * Automatically sets completed_at timestamp when status changes to 'completed'
-   */
-  const updateTask = async (taskId: string, taskData: Partial<Task>) => {
-    try {
-      const updateData: any = { ...taskData };
-      
-      // Set completion timestamp based on status
-      if (taskData.status === 'completed') {
-        updateData.completed_at = new Date().toISOString();
-      } else if (taskData.status) {
-        updateData.completed_at = null;
-      }
+  /** Refetch everything this hook shows */
+  const refetch = () =>
+    invalidate(
+      queryKeys.tasks(userId),
+      queryKeys.projects(userId),
+      queryKeys.profiles(userId),
+      queryKeys.checklistItems(userId),
+      queryKeys.dependencies(userId),
+      queryKeys.hiddenBlockers(userId),
+      queryKeys.labels(userId),
+      queryKeys.taskLabels(userId),
+      queryKeys.taskAssignees(userId),
+      queryKeys.taskWatchers(userId)
+    );
 
-      const { error } = await supabase.from('tasks').update(updateData).eq('id', taskId);
+  // Combine tasks with their related project, status, user, subtask, checklist, dependency, label and people data
+  const tasks = useMemo<TaskWithRelations[]>(() => {
+    const taskRows = tasksQuery.data || [];
+    const allDependencies = dependenciesQuery.data || [];
+    const findTask = (id: string) => taskRows.find((t) => t.id === id);
+    const findUser = (id: string) => allUsers.find((u) => u.id === id);
+    const people = (rows: { task_id: string; user_id: string }[] | undefined, taskId: string) =>
+      (rows || []).filter((r) => r.task_id === taskId).map((r) => findUser(r.user_id)).filter(Boolean);
+    return taskRows.map((task) => ({
+      ...task,
+      project: allProjects.find((p) => p.id === task.project_id) || null,
+      workflow_status: statuses.find((s) => s.id === task.status_id) || null,
+      assigned_user: allUsers.find((u) => u.id === task.assigned_to) || null,
+      parent_task: taskRows.find((t) => t.id === task.parent_task_id) || null,
+      subtasks: taskRows.filter((t) => t.parent_task_id === task.id),
+      checklist_items: (checklistQuery.data || []).filter((item) => item.task_id === task.id),
+      blocked_by: allDependencies.filter((d) => d.task_id === task.id).map((d) => findTask(d.depends_on_task_id)).filter(Boolean),
+      hidden_blocker_count: (hiddenBlockersQuery.data || []).find((h) => h.task_id === task.id)?.blocker_count ?? 0,
+      blocks: allDependencies.filter((d) => d.depends_on_task_id === task.id).map((d) => findTask(d.task_id)).filter(Boolean),
+      // The catalogue is sorted by name, so labels come out in name order
+      labels: labels.filter((l) => (taskLabelsQuery.data || []).some((tl) => tl.task_id === task.id && tl.label_id === l.id)),
+      assignees: primaryFirst(people(assigneesQuery.data, task.id), task.assigned_to),
+      watchers: people(watchersQuery.data, task.id),
+    }));
+  }, [
+    tasksQuery.data, allProjects, statuses, allUsers, checklistQuery.data, dependenciesQuery.data, hiddenBlockersQuery.data,
+    labels, taskLabelsQuery.data, assigneesQuery.data, watchersQuery.data,
+  ]);
 
-      if (error) throw error;
-      toast({ title: 'Task updated successfully' });
-      await fetchData(); // Refresh the list
-    } catch (error: any) {
-      toast({ title: 'Error updating task', description: error.message, variant: 'destructive' });
-      throw error;
-    }
-  };
+  const dependencies = useMemo(() => dependenciesQuery.data || [], [dependenciesQuery.data]);
 
-  /**
-   * Toggle a task between completed and pending status
-   */
-  const toggleTaskComplete = async (taskId: string, completed: boolean) => {
-    await updateTask(taskId, { status: completed ? 'completed' : 'pending' });
-  };
+  const mutations = useTaskMutations({
+    findTask: (taskId) => tasks.find((t) => t.id === taskId),
+    dependencies,
+  });
 
   return {
     tasks,
     projects,
     users,
+    dependencies,
     loading,
-    createTask,
-    updateTask,
-    toggleTaskComplete,
-    refetch: fetchData,
-    // Only admins and department heads can create/manage tasks
-    canManageTasks: isAdmin || isDepartmentHead,
+    ...mutations,
+    refetch,
   };
 }
@@ -0,0 +1,208 @@
+/**
+ * useTrash.ts - Trash Hook
+ *
+ * Provides the trashed projects and tasks the user can see:
+ * - Groups each trashed item with the tasks that went to the trash with it
+ * - Restores items together with everything trashed alongside them
+ * - Purges items for good, removing their stored attachment files first
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Project, Task } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { ATTACHMENTS_BUCKET } from '@/hooks/useTaskAttachments';
+import { queryKeys, taskQueryKeys, fetchTrash, fetchTaskTreeIds } from '@/lib/queries';
+
+// A project in the trash and the tasks trashed with it
+export interface TrashedProject {
+  project: Project;
+  tasks: Task[];
+  purgeCount: number; // Every task in the project, including ones trashed earlier; purging deletes them all
+}
+
+// A task trashed on its own (not with its project or parent) and the subtasks trashed with it
+export interface TrashedTask {
+  task: Task;
+  subtasks: Task[];
+}
+
+/**
+ * Remove the stored files of every attachment on the given tasks
+ * Deleting rows leaves files in Storage, so this runs before a purge
+ */
+async function removeAttachmentFiles(taskIds: string[]) {
+  if (taskIds.length === 0) return;
+
+  const { data: attachments, error } = await supabase
+    .from('task_attachments')
+    .select('storage_path')
+    .in('task_id', taskIds);
+  if (error) throw error;
+
+  if (attachments && attachments.length > 0) {
+    const { error: storageError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .remove(attachments.map((a) => a.storage_path));
+    if (storageError) throw storageError;
+  }
+}
+
+export function useTrash() {
+  const queryClient = useQueryClient();
+  const { user, isAdmin, isDepartmentHead } = useAuth();
+  const userId = user?.id ?? '';
+
+  const trashQuery = useQuery({ queryKey: queryKeys.trash(userId), queryFn: fetchTrash, enabled: !!user });
+
+  useEffect(() => {
+    if (!trashQuery.error) return;
+    console.error('Error fetching trash:', trashQuery.error);
+    toast({ title: 'Error loading trash', description: trashQuery.error.message, variant: 'destructive' });
+  }, [trashQuery.error]);
+
+  // Items trashed together share a deleted_at timestamp
+  const { projects, tasks } = useMemo(() => {
+    const trashedProjects = trashQuery.data?.projects || [];
+    const trashedTasks = trashQuery.data?.tasks || [];
+
+    const sameBatch = (task: Task, deletedAt: string | null) => task.deleted_at === deletedAt;
+    const withProject = (task: Task) =>
+      trashedProjects.some((p) => p.id === task.project_id && sameBatch(task, p.deleted_at));
+    const withParent = (task: Task) =>
+      trashedTasks.some((t) => t.id === task.parent_task_id && sameBatch(task, t.deleted_at));
+
+    /** Subtasks trashed together with a task, at any depth */
+    const subtasksOf = (task: Task): Task[] => {
+      const children = trashedTasks.filter((t) => t.parent_task_id === task.id && sameBatch(t, task.deleted_at));
+      return children.flatMap((child) => [child, ...subtasksOf(child)]);
+    };
+
+    return {
+      projects: trashedProjects.map<TrashedProject>((project) => ({
+        project,
+        tasks: trashedTasks.filter((t) => t.project_id === project.id && sameBatch(t, project.deleted_at)),
+        purgeCount: trashedTasks.filter((t) => t.project_id === project.id).length,
+      })),
+      tasks: trashedTasks
+        .filter((t) => !withProject(t) && !withParent(t))
+        .map<TrashedTask>((task) => ({ task, subtasks: subtasksOf(task) })),
+    };
+  }, [trashQuery.data]);
+
+  /** Refetch the trash and every list the restored or purged items appear in */
+  const invalidateAll = () =>
+    Promise.all(
+      [queryKeys.trash(userId), queryKeys.projects(userId), ...taskQueryKeys(userId)].map((queryKey) =>
+        queryClient.invalidateQueries({ queryKey })
+      )
+    );
+
+  const restoreTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const { error } = await supabase.rpc('restore_task', { _task_id: taskId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  const restoreProjectMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const { error } = await supabase.rpc('restore_project', { _project_id: projectId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  const purgeTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      await removeAttachmentFiles(await fetchTaskTreeIds(taskId));
+      const { error } = await supabase.from('tasks').delete().eq('id', taskId).not('deleted_at', 'is', null);
+      if (error) throw error;
+    },
+    // Subtasks, checklist items, comments and dependencies are deleted by cascade
+    onSuccess: () =>
+      Promise.all([
+        invalidateAll(),
+        queryClient.invalidateQueries({ queryKey: queryKeys.checklistItems(userId) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.dependencies(userId) }),
+      ]),
+  });
+
+  const purgeProjectMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const { data: projectTasks, error } = await supabase.from('tasks').select('id').eq('project_id', projectId);
+      if (error) throw error;
+      const trees = await Promise.all((projectTasks || []).map((t) => fetchTaskTreeIds(t.id)));
+      await removeAttachmentFiles([...new Set(trees.flat())]);
+
+      const { error: purgeError } = await supabase.rpc('purge_project', { _project_id: projectId });
+      if (purgeError) throw purgeError;
+    },
+    onSuccess: () =>
+      Promise.all([
+        invalidateAll(),
+        queryClient.invalidateQueries({ queryKey: queryKeys.checklistItems(userId) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.dependencies(userId) }),
+      ]),
+  });
+
+  /** Restore a task and the subtasks trashed with it */
+  const restoreTask = async (taskId: string) => {
+    try {
+      await restoreTaskMutation.mutateAsync(taskId);
+      toast({ title: 'Task restored' });
+    } catch (error) {
+      toast({ title: 'Error restoring task', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Restore a project and the tasks trashed with it */
+  const restoreProject = async (projectId: string) => {
+    try {
+      await restoreProjectMutation.mutateAsync(projectId);
+      toast({ title: 'Project restored' });
+    } catch (error) {
+      toast({ title: 'Error restoring project', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Permanently delete a trashed task, its subtasks and their attached files */
+  const purgeTask = async (taskId: string) => {
+    try {
+      await purgeTaskMutation.mutateAsync(taskId);
+      toast({ title: 'Task permanently deleted' });
+    } catch (error) {
+      toast({ title: 'Error deleting task', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Permanently delete a trashed project, all of its tasks and their attached files */
+  const purgeProject = async (projectId: string) => {
+    try {
+      await purgeProjectMutation.mutateAsync(projectId);
+      toast({ title: 'Project permanently deleted' });
+    } catch (error) {
+      toast({ title: 'Error deleting project', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    projects,
+    tasks,
+    loading: trashQuery.isLoading,
+    restoreTask,
+    restoreProject,
+    purgeTask,
+    purgeProject,
+    // Managers can purge tasks; only admins can delete projects (RLS enforces both)
+    canPurgeTasks: isAdmin || isDepartmentHead,
+    canPurgeProjects: isAdmin,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * useWorkflows.ts - Workflow Statuses Hook
+ *
+ * Provides the status workflows from the shared query cache:
+ * - The workflow that applies to any project (its own, or the default one)
+ * - Saves a project's statuses and allowed transitions in one call
+ * - Puts a project back on the default workflow
+ * Tasks on removed statuses are moved by the database, so task lists are refetched too.
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Project, StatusColor, TaskStatus } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { queryKeys, taskQueryKeys, fetchWorkflows } from '@/lib/queries';
+import { getWorkflow } from '@/lib/workflows';
+
+// A workflow being edited; new statuses have no id yet, so transitions refer to list positions
+export interface WorkflowDraft {
+  statuses: { id: string | null; name: string; category: TaskStatus; color: StatusColor }[];
+  transitions: { from: number; to: number }[];
+}
+
+export function useWorkflows() {
+  const queryClient = useQueryClient();
+  const { user, profile, isAdmin, isDepartmentHead } = useAuth();
+  const userId = user?.id ?? '';
+
+  const workflowsQuery = useQuery({ queryKey: queryKeys.workflows(userId), queryFn: fetchWorkflows, enabled: !!user });
+
+  useEffect(() => {
+    if (!workflowsQuery.error) return;
+    console.error('Error fetching workflows:', workflowsQuery.error);
+    toast({ title: 'Error loading workflows', description: workflowsQuery.error.message, variant: 'destructive' });
+  }, [workflowsQuery.error]);
+
+  const statuses = useMemo(() => workflowsQuery.data?.statuses || [], [workflowsQuery.data]);
+  const transitions = useMemo(() => workflowsQuery.data?.transitions || [], [workflowsQuery.data]);
+
+  /** The workflow a project's tasks follow; null for tasks without a project */
+  const workflowFor = useCallback(
+    (projectId: string | null) => getWorkflow(statuses, transitions, projectId),
+    [statuses, transitions]
+  );
+
+  /** Refetch workflows and every task list, since tasks may have changed status */
+  const invalidateAll = () =>
+    Promise.all(
+      [queryKeys.workflows(userId), ...taskQueryKeys(userId)].map((queryKey) =>
+        queryClient.invalidateQueries({ queryKey })
+      )
+    );
+
+  const saveWorkflowMutation = useMutation({
+    mutationFn: async ({ projectId, draft }: { projectId: string; draft: WorkflowDraft }) => {
+      const { error } = await supabase.rpc('save_project_workflow', {
+        _project_id: projectId,
+        _statuses: draft.statuses as Json,
+        _transitions: draft.transitions as Json,
+      });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  const resetWorkflowMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const { error } = await supabase.rpc('reset_project_workflow', { _project_id: projectId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+  });
+
+  /** Replace a project's statuses and transitions */
+  const saveWorkflow = async (projectId: string, draft: WorkflowDraft) => {
+    try {
+      await saveWorkflowMutation.mutateAsync({ projectId, draft });
+      toast({ title: 'Workflow saved' });
+    } catch (error) {
+      toast({ title: 'Error saving workflow', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  /** Drop a project's own statuses; its tasks move to the default status of their category */
+  const resetWorkflow = async (projectId: string) => {
+    try {
+      await resetWorkflowMutation.mutateAsync(projectId);
+      toast({ title: 'Project uses the default workflow again' });
+    } catch (error) {
+      toast({ title: 'Error resetting workflow', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return {
+    statuses,
+    loading: workflowsQuery.isLoading,
+    workflowFor,
+    saveWorkflow,
+    resetWorkflow,
+    // Same rule as project editing (RLS enforces it): admins, or the department head of the project's department
+    canManageWorkflow: (project: Project) =>
+      isAdmin || (isDepartmentHead && !!project.department_id && project.department_id === profile?.department_id),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * calendar.ts - Task Calendar Helpers
+ *
+ * Pure functions behind the Calendar page:
+ * - The days a month or week view shows (whole weeks, Sunday first)
+ * - Stepping the view back and forth, and its title
+ * - Moving a due date to another day while keeping its time of day
+ * - Whether a task is overdue
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  isBefore,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Task } from '@/types/database';
+import { formatDay } from '@/lib/dateFormat';
+
+export type CalendarView = 'month' | 'week';
+
+/** Every day shown for the month or week containing anchor, padded to whole weeks */
+export function getCalendarDays(anchor: Date, view: CalendarView): Date[] {
+  const start = startOfWeek(view === 'month' ? startOfMonth(anchor) : anchor);
+  const end = endOfWeek(view === 'month' ? endOfMonth(anchor) : anchor);
+  return eachDayOfInterval({ start, end });
+}
+
+/** The anchor of the next (amount = 1) or previous (amount = -1) month or week */
+export function shiftCalendar(anchor: Date, view: CalendarView, amount: number): Date {
+  return view === 'month' ? addMonths(anchor, amount) : addWeeks(anchor, amount);
+}
+
+/**
+ * "March 2026" for a month, "Mar 29 – Apr 4, 2026" for a week
+ * (in en-US; other locales order and name the parts their own way)
+ */
+export function getCalendarTitle(anchor: Date, view: CalendarView, locale?: string): string {
+  if (view === 'month') return formatDay(anchor, { locale }, { month: 'long', year: 'numeric' });
+
+  const start = startOfWeek(anchor);
+  const end = addDays(start, 6);
+  return `${formatDay(start, { locale }, { month: 'short', day: 'numeric' })} – ${formatDay(end, { locale }, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+/** A due date moved to another day, at the same time of day (as an ISO string) */
+export function moveToDay(dueDate: string, day: Date): string {
+  const current = new Date(dueDate);
+  const moved = new Date(day);
+  moved.setHours(current.getHours(), current.getMinutes(), current.getSeconds(), current.getMilliseconds());
+  return moved.toISOString();
+}
+
+/** An open task whose due day has passed */
+export function isOverdue(task: Pick<Task, 'due_date' | 'status'>, now: Date = new Date()): boolean {
+  return !!task.due_date && task.status !== 'completed' && isBefore(startOfDay(new Date(task.due_date)), startOfDay(now));
+}
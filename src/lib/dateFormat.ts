@@ -0,0 +1,65 @@
+/**
+ * dateFormat.ts - Date Display Helpers
+ *
+ * Pure functions that format dates with the user's timezone and locale:
+ * - Moments (when something happened) in the given timezone and locale
+ * - Days (due and start dates, calendar and timeline days) in the locale only.
+ *   Tasks are placed on the browser's days everywhere, so moving a day into
+ *   another timezone could show a different day than the calendar does.
+ * - How long ago something happened, e.g. "3 hours ago"
+ * Settings left undefined follow the browser.
+ */
+
+export interface DateDisplaySettings {
+  timeZone?: string; // IANA zone, e.g. Europe/Berlin
+  locale?: string;   // BCP 47 tag, e.g. en-GB
+}
+
+type DateInput = Date | string;
+
+const toDate = (value: DateInput) => (typeof value === 'string' ? new Date(value) : value);
+
+/** A moment, "Jan 5, 2026, 3:04 PM" by default */
+export function formatMoment(
+  value: DateInput,
+  settings: DateDisplaySettings,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string {
+  return new Intl.DateTimeFormat(settings.locale, { ...options, timeZone: settings.timeZone }).format(toDate(value));
+}
+
+/** A day, "Jan 5, 2026" by default */
+export function formatDay(
+  value: DateInput,
+  settings: DateDisplaySettings,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string {
+  return new Intl.DateTimeFormat(settings.locale, options).format(toDate(value));
+}
+
+// Largest unit first; a moment is described in the largest unit it spans
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+/** How long ago (or from now) a moment is, e.g. "3 hours ago" or "yesterday" */
+export function formatRelative(value: DateInput, settings: DateDisplaySettings, now = new Date()): string {
+  const seconds = (toDate(value).getTime() - now.getTime()) / 1000;
+  const [unit, size] = RELATIVE_UNITS.find(([, unitSeconds]) => Math.abs(seconds) >= unitSeconds) ?? ['second', 1];
+  return new Intl.RelativeTimeFormat(settings.locale, { numeric: 'auto' }).format(Math.round(seconds / size), unit);
+}
+
+/** Whether this browser knows a timezone; zones saved on another browser may be missing */
+export function isSupportedTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * mentions.ts - @mention Helpers for Comments
+ *
+ * Mentions are written into the comment body as "@Full Name"; the ids of the
+ * mentioned users are stored alongside so the database can notify them.
+ */
+
+import { Profile } from '@/types/database';
+
+/** The "@query" being typed right before the caret, or null */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|\s)@([^@\n]{0,30})$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
+
+/** Keep only the mentioned ids whose "@Full Name" is still in the body */
+export function extractMentions(body: string, users: Profile[], candidateIds: string[]): string[] {
+  return [...new Set(candidateIds)].filter((id) => {
+    const mentioned = users.find((u) => u.id === id);
+    return mentioned && body.includes(`@${mentioned.full_name}`);
+  });
+}
+
+/** Split a body into plain text and mention segments for highlighting */
+export function splitMentions(body: string, mentioned: Profile[]): { text: string; isMention: boolean }[] {
+  const names = mentioned
+    .map((u) => `@${u.full_name}`)
+    .sort((a, b) => b.length - a.length) // Longest first so "@Ann Lee" wins over "@Ann"
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (names.length === 0) return [{ text: body, isMention: false }];
+
+  // Splitting on a capturing group puts the matched mentions at odd indexes
+  return body
+    .split(new RegExp(`(${names.join('|')})`))
+    .map((text, index) => ({ text, isMention: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0);
+}
@@ -0,0 +1,459 @@
+/**
+ * queries.ts - Shared TanStack Query Keys and Fetchers
+ *
+ * Every hook that reads tasks, projects or people goes through these, so
+ * pages share one cache instead of each downloading the same rows.
+ * Keys include the user id because RLS makes results differ per user.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Label,
+  Project,
+  Profile,
+  SearchResult,
+  Task,
+  TaskAssignee,
+  TaskChecklistItem,
+  TaskDependency,
+  TaskLabel,
+  TaskPriority,
+  TaskStatus,
+  TaskWatcher,
+  TaskWithRelations,
+  WorkflowStatus,
+  WorkflowTransition,
+} from '@/types/database';
+
+export type TaskSortField = 'created_at' | 'due_date' | 'priority' | 'title';
+export type LabelMatch = 'any' | 'all';
+
+// Server-side filters and sort order of the paginated task list
+export interface TaskListFilters {
+  search: string;
+  status: TaskStatus | 'all';
+  priority: TaskPriority | 'all';
+  projectId: string | 'all' | 'none';
+  assigneeId: string | 'all' | 'none';
+  dueFrom: string; // yyyy-MM-dd, or '' for no lower bound
+  dueTo: string;   // yyyy-MM-dd, or '' for no upper bound
+  labelIds: string[];
+  labelMatch: LabelMatch; // Tasks with any of the labels, or with all of them
+  sort: TaskSortField;
+}
+
+// Position after the last row of a page: its sort value plus id as tie-breaker
+export interface TaskCursor {
+  value: string | null;
+  id: string;
+}
+
+export interface TaskPage {
+  tasks: TaskWithRelations[];
+  nextCursor: TaskCursor | null;
+}
+
+export const TASK_PAGE_SIZE = 25;
+
+// Direction per sort field; due dates run soonest first with undated tasks last
+const SORT_ASCENDING: Record<TaskSortField, boolean> = {
+  created_at: false,
+  due_date: true,
+  priority: false,
+  title: true,
+};
+
+export const queryKeys = {
+  tasks: (userId: string) => ['tasks', userId] as const,
+  taskList: (userId: string, filters?: TaskListFilters) =>
+    (filters ? ['task-list', userId, filters] : ['task-list', userId]) as readonly unknown[],
+  taskStats: (userId: string) => ['task-stats', userId] as const,
+  task: (userId: string, taskId?: string) =>
+    (taskId ? ['task', userId, taskId] : ['task', userId]) as readonly unknown[],
+  projectTasks: (userId: string, projectId?: string) =>
+    (projectId ? ['project-tasks', userId, projectId] : ['project-tasks', userId]) as readonly unknown[],
+  taskTree: (userId: string, taskId: string) => ['task-tree', userId, taskId] as const,
+  taskExists: (userId: string, taskId: string) => ['task-exists', userId, taskId] as const,
+  missingProject: (userId: string, projectId: string) => ['missing-project', userId, projectId] as const,
+  search: (userId: string, query: string) => ['search', userId, query] as const,
+  trash: (userId: string) => ['trash', userId] as const,
+  archive: (userId: string) => ['archive', userId] as const,
+  projects: (userId: string) => ['projects', userId] as const,
+  profiles: (userId: string) => ['profiles', userId] as const,
+  checklistItems: (userId: string) => ['task_checklist_items', userId] as const,
+  dependencies: (userId: string) => ['task_dependencies', userId] as const,
+  hiddenBlockers: (userId: string) => ['hidden_blockers', userId] as const,
+  workflows: (userId: string) => ['workflows', userId] as const,
+  labels: (userId: string) => ['labels', userId] as const,
+  taskLabels: (userId: string) => ['task_labels', userId] as const,
+  taskAssignees: (userId: string) => ['task_assignees', userId] as const,
+  taskWatchers: (userId: string) => ['task_watchers', userId] as const,
+};
+
+/** Every cached view of tasks: the full list, paginated lists, totals, single tasks and project task lists */
+export const taskQueryKeys = (userId: string) => [
+  queryKeys.tasks(userId),
+  queryKeys.taskList(userId),
+  queryKeys.taskStats(userId),
+  queryKeys.task(userId),
+  queryKeys.projectTasks(userId),
+];
+
+/** All visible tasks outside the trash and the archive, newest first */
+export async function fetchTasks(): Promise<Task[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .is('deleted_at', null)
+    .is('archived_at', null)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as Task[];
+}
+
+/** All visible projects outside the trash and the archive, by name */
+export async function fetchProjects(): Promise<Project[]> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .is('deleted_at', null)
+    .is('archived_at', null)
+    .order('name');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Every user profile */
+export async function fetchProfiles(): Promise<Profile[]> {
+  const { data, error } = await supabase.from('profiles').select('*');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Checklist items of all visible tasks, in checklist order */
+export async function fetchChecklistItems(): Promise<TaskChecklistItem[]> {
+  const { data, error } = await supabase.from('task_checklist_items').select('*').order('position');
+  if (error) throw error;
+  return data || [];
+}
+
+/** "Blocked by" links between visible tasks */
+export async function fetchDependencies(): Promise<TaskDependency[]> {
+  const { data, error } = await supabase.from('task_dependencies').select('*');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Open blockers the user can't see, counted per visible task they block */
+export async function fetchHiddenBlockers(): Promise<{ task_id: string; blocker_count: number }[]> {
+  const { data, error } = await supabase.rpc('hidden_open_blockers');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Statuses of the default and every project workflow, with their allowed transitions */
+export async function fetchWorkflows(): Promise<{ statuses: WorkflowStatus[]; transitions: WorkflowTransition[] }> {
+  const [statusesRes, transitionsRes] = await Promise.all([
+    supabase.from('workflow_statuses').select('*').order('position'),
+    supabase.from('workflow_transitions').select('*'),
+  ]);
+  if (statusesRes.error) throw statusesRes.error;
+  if (transitionsRes.error) throw transitionsRes.error;
+  return { statuses: (statusesRes.data || []) as WorkflowStatus[], transitions: transitionsRes.data || [] };
+}
+
+/** The label catalogue, by name */
+export async function fetchLabels(): Promise<Label[]> {
+  const { data, error } = await supabase.from('labels').select('*').order('name');
+  if (error) throw error;
+  return (data || []) as Label[];
+}
+
+/** Labels on visible tasks */
+export async function fetchTaskLabels(): Promise<TaskLabel[]> {
+  const { data, error } = await supabase.from('task_labels').select('*');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Assignees of visible tasks, in the order they were added */
+export async function fetchTaskAssignees(): Promise<TaskAssignee[]> {
+  const { data, error } = await supabase.from('task_assignees').select('*').order('created_at');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Watchers of visible tasks */
+export async function fetchTaskWatchers(): Promise<TaskWatcher[]> {
+  const { data, error } = await supabase.from('task_watchers').select('*').order('created_at');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Put a task's primary assignee first; the others keep their order */
+export function primaryFirst<T extends { id: string }>(users: T[], primaryId: string | null): T[] {
+  return [...users].sort((a, b) => Number(b.id === primaryId) - Number(a.id === primaryId));
+}
+
+/** Quote a value for a PostgREST or() filter so commas and parentheses are safe */
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Keyset condition for rows after the cursor, as an or() filter
+ * Ordering is (sort column, id) in the sort's direction
+ */
+function afterCursor(sort: TaskSortField, cursor: TaskCursor): string {
+  const op = SORT_ASCENDING[sort] ? 'gt' : 'lt';
+  const id = quote(cursor.id);
+
+  // Only due dates can be null; nulls come last, ordered by id
+  if (cursor.value === null) {
+    return `and(${sort}.is.null,id.${op}.${id})`;
+  }
+
+  const value = quote(cursor.value);
+  const conditions = [`${sort}.${op}.${value}`, `and(${sort}.eq.${value},id.${op}.${id})`];
+  if (sort === 'due_date') conditions.push('due_date.is.null');
+  return conditions.join(',');
+}
+
+/**
+ * Fetch one page of tasks matching the filters, plus the task relations the
+ * list shows (parent, subtasks, checklist, dependencies, labels, assignees, watchers).
+ * Project and primary assignee are looked up by the caller from the cached project and profile lists.
+ */
+export async function fetchTaskPage(filters: TaskListFilters, cursor: TaskCursor | null): Promise<TaskPage> {
+  const ascending = SORT_ASCENDING[filters.sort];
+  let query = supabase
+    .from('tasks')
+    .select('*')
+    .is('deleted_at', null)
+    .is('archived_at', null)
+    .order(filters.sort, { ascending, nullsFirst: false })
+    .order('id', { ascending })
+    .limit(TASK_PAGE_SIZE);
+
+  if (filters.status !== 'all') query = query.eq('status', filters.status);
+  if (filters.priority !== 'all') query = query.eq('priority', filters.priority);
+  if (filters.projectId === 'none') query = query.is('project_id', null);
+  else if (filters.projectId !== 'all') query = query.eq('project_id', filters.projectId);
+  // assignee_ids is a computed column too (see the assignees migration)
+  if (filters.assigneeId === 'none') query = query.is('assigned_to', null);
+  else if (filters.assigneeId !== 'all') query = query.contains('assignee_ids', [filters.assigneeId]);
+  // Both bounds are whole local days; a bare yyyy-MM-dd would parse as UTC midnight
+  if (filters.dueFrom) query = query.gte('due_date', new Date(`${filters.dueFrom}T00:00:00`).toISOString());
+  if (filters.dueTo) query = query.lte('due_date', new Date(`${filters.dueTo}T23:59:59.999`).toISOString());
+  // label_ids is a computed column (see the labels migration)
+  if (filters.labelIds.length > 0) {
+    query = filters.labelMatch === 'all'
+      ? query.contains('label_ids', filters.labelIds)
+      : query.overlaps('label_ids', filters.labelIds);
+  }
+
+  // Text search and cursor both need or(); a single and() keeps them from overriding each other
+  const orFilters: string[] = [];
+  const search = filters.search.trim();
+  if (search) {
+    const pattern = quote(`%${search.replace(/[%_]/g, '\\$&')}%`);
+    orFilters.push(`or(title.ilike.${pattern},description.ilike.${pattern})`);
+  }
+  if (cursor) orFilters.push(`or(${afterCursor(filters.sort, cursor)})`);
+  if (orFilters.length > 0) query = query.or(`and(${orFilters.join(',')})`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data || []) as Task[];
+  const last = rows[rows.length - 1];
+  const nextCursor = rows.length === TASK_PAGE_SIZE
+    ? { value: (last[filters.sort] as string | null) ?? null, id: last.id }
+    : null;
+
+  return { tasks: await attachRelations(rows), nextCursor };
+}
+
+/** A single task with its task relations, or null if it doesn't exist or isn't visible; may be in the trash or archive */
+export async function fetchTask(taskId: string): Promise<TaskWithRelations | null> {
+  const { data, error } = await supabase.from('tasks').select('*').eq('id', taskId).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const [task] = await attachRelations([data as Task]);
+  return task;
+}
+
+/** Tasks in one project, by title; the parent and dependency choices for a task opened on its own */
+export async function fetchProjectTasks(projectId: string): Promise<Task[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('project_id', projectId)
+    .is('deleted_at', null)
+    .is('archived_at', null)
+    .order('title');
+  if (error) throw error;
+  return (data || []) as Task[];
+}
+
+/**
+ * Ids of a task and all of its descendant subtasks
+ * With activeOnly, subtasks already in the trash (and theirs) are left out
+ */
+export async function fetchTaskTreeIds(taskId: string, { activeOnly = false } = {}): Promise<string[]> {
+  const ids = [taskId];
+  let frontier = [taskId];
+
+  while (frontier.length > 0) {
+    let query = supabase.from('tasks').select('id').in('parent_task_id', frontier);
+    if (activeOnly) query = query.is('deleted_at', null);
+    const { data, error } = await query;
+    if (error) throw error;
+    frontier = (data || []).map((t) => t.id).filter((id) => !ids.includes(id));
+    ids.push(...frontier);
+  }
+  return ids;
+}
+
+/** Trashed projects and tasks the user can see, most recently trashed first */
+export async function fetchTrash(): Promise<{ projects: Project[]; tasks: Task[] }> {
+  const [projectsRes, tasksRes] = await Promise.all([
+    supabase.from('projects').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+    supabase.from('tasks').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+  ]);
+  if (projectsRes.error) throw projectsRes.error;
+  if (tasksRes.error) throw tasksRes.error;
+  return { projects: projectsRes.data || [], tasks: (tasksRes.data || []) as Task[] };
+}
+
+/** Archived projects and tasks the user can see (not in the trash), most recently archived first */
+export async function fetchArchive(): Promise<{ projects: Project[]; tasks: Task[] }> {
+  const [projectsRes, tasksRes] = await Promise.all([
+    supabase
+      .from('projects')
+      .select('*')
+      .not('archived_at', 'is', null)
+      .is('deleted_at', null)
+      .order('archived_at', { ascending: false }),
+    supabase
+      .from('tasks')
+      .select('*')
+      .not('archived_at', 'is', null)
+      .is('deleted_at', null)
+      .order('archived_at', { ascending: false }),
+  ]);
+  if (projectsRes.error) throw projectsRes.error;
+  if (tasksRes.error) throw tasksRes.error;
+  return { projects: projectsRes.data || [], tasks: (tasksRes.data || []) as Task[] };
+}
+
+/** Whether a task exists at all, including ones the user isn't allowed to see */
+export async function taskExists(taskId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('task_exists', { _task_id: taskId });
+  if (error) throw error;
+  return !!data;
+}
+
+/** Why a project isn't in the project list: it's in the trash or archive, hidden from the user, or doesn't exist */
+export async function fetchMissingProjectReason(
+  projectId: string
+): Promise<'trashed' | 'archived' | 'forbidden' | 'not_found'> {
+  const { data, error } = await supabase.from('projects').select('deleted_at, archived_at').eq('id', projectId).maybeSingle();
+  if (error) throw error;
+  if (data?.deleted_at) return 'trashed';
+  if (data?.archived_at) return 'archived';
+
+  const { data: exists, error: existsError } = await supabase.rpc('project_exists', { _project_id: projectId });
+  if (existsError) throw existsError;
+  return exists ? 'forbidden' : 'not_found';
+}
+
+/** Load the related rows for one page of tasks and combine them */
+async function attachRelations(rows: Task[]): Promise<TaskWithRelations[]> {
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((t) => t.id);
+  const parentIds = [...new Set(rows.map((t) => t.parent_task_id).filter(Boolean))];
+
+  const [subtasksRes, parentsRes, checklistRes, blockedByRes, blocksRes, labelsRes, assigneesRes, watchersRes, hiddenBlockers] = await Promise.all([
+    supabase.from('tasks').select('*').in('parent_task_id', ids).is('deleted_at', null),
+    parentIds.length ? supabase.from('tasks').select('*').in('id', parentIds) : { data: [], error: null },
+    supabase.from('task_checklist_items').select('*').in('task_id', ids).order('position'),
+    supabase.from('task_dependencies').select('*').in('task_id', ids),
+    supabase.from('task_dependencies').select('*').in('depends_on_task_id', ids),
+    supabase.from('task_labels').select('task_id, label:labels(*)').in('task_id', ids),
+    supabase.from('task_assignees').select('task_id, user:profiles(*)').in('task_id', ids).order('created_at'),
+    supabase.from('task_watchers').select('task_id, user:profiles(*)').in('task_id', ids).order('created_at'),
+    fetchHiddenBlockers(),
+  ]);
+
+  if (subtasksRes.error) throw subtasksRes.error;
+  if (parentsRes.error) throw parentsRes.error;
+  if (checklistRes.error) throw checklistRes.error;
+  if (blockedByRes.error) throw blockedByRes.error;
+  if (blocksRes.error) throw blocksRes.error;
+  if (labelsRes.error) throw labelsRes.error;
+  if (assigneesRes.error) throw assigneesRes.error;
+  if (watchersRes.error) throw watchersRes.error;
+
+  // Tasks on the other end of a dependency that aren't on this page; trashed ones no longer count
+  const linkedIds = [
+    ...(blockedByRes.data || []).map((d) => d.depends_on_task_id),
+    ...(blocksRes.data || []).map((d) => d.task_id),
+  ].filter((id) => !ids.includes(id));
+  const linkedRes = linkedIds.length
+    ? await supabase.from('tasks').select('*').in('id', [...new Set(linkedIds)]).is('deleted_at', null)
+    : { data: [], error: null };
+  if (linkedRes.error) throw linkedRes.error;
+
+  const known = [...rows, ...((parentsRes.data || []) as Task[]), ...((linkedRes.data || []) as Task[])];
+  const findTask = (id: string) => known.find((t) => t.id === id);
+  const subtasks = (subtasksRes.data || []) as Task[];
+
+  return rows.map((task) => ({
+    ...task,
+    parent_task: task.parent_task_id ? findTask(task.parent_task_id) || null : null,
+    subtasks: subtasks.filter((t) => t.parent_task_id === task.id),
+    checklist_items: (checklistRes.data || []).filter((item) => item.task_id === task.id),
+    blocked_by: (blockedByRes.data || []).filter((d) => d.task_id === task.id).map((d) => findTask(d.depends_on_task_id)).filter(Boolean),
+    hidden_blocker_count: hiddenBlockers.find((h) => h.task_id === task.id)?.blocker_count ?? 0,
+    blocks: (blocksRes.data || []).filter((d) => d.depends_on_task_id === task.id).map((d) => findTask(d.task_id)).filter(Boolean),
+    labels: (labelsRes.data || [])
+      .filter((l) => l.task_id === task.id)
+      .map((l) => l.label as Label)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    assignees: primaryFirst(
+      (assigneesRes.data || []).filter((a) => a.task_id === task.id).map((a) => a.user as Profile),
+      task.assigned_to
+    ),
+    watchers: (watchersRes.data || []).filter((w) => w.task_id === task.id).map((w) => w.user as Profile),
+  }));
+}
+
+/** Task totals per status, counted by the database */
+export async function fetchTaskStats(): Promise<{ total: number; completed: number; inProgress: number; pending: number }> {
+  const count = async (status?: TaskStatus) => {
+    let query = supabase
+      .from('tasks')
+      .select('id', { count: 'exact', head: true })
+      .is('deleted_at', null)
+      .is('archived_at', null);
+    if (status) query = query.eq('status', status);
+    const { count: result, error } = await query;
+    if (error) throw error;
+    return result || 0;
+  };
+
+  const [total, completed, inProgress, pending] = await Promise.all([
+    count(),
+    count('completed'),
+    count('in_progress'),
+    count('pending'),
+  ]);
+  return { total, completed, inProgress, pending };
+}
+
+/** Ranked full-text matches across tasks, projects, comments and people */
+export async function searchAll(query: string): Promise<SearchResult[]> {
+  const { data, error } = await supabase.rpc('search_all', { _query: query, _limit: 20 });
+  if (error) throw error;
+  return (data || []) as SearchResult[];
+}
@@ -0,0 +1,107 @@
+/**
+ * recurrence.ts - Recurring Task Schedule Helpers
+ *
+ * Computes the next due date of a recurring task and describes a rule in words.
+ * Times of day are preserved from the previous due date.
+ */
+
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarWeeks,
+  endOfDay,
+  getDaysInMonth,
+  lastDayOfMonth,
+  parseISO,
+  setDate,
+  startOfMonth,
+} from 'date-fns';
+import { RecurrenceRule } from '@/types/database';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+/** The nth (1-4, or -1 for last) given weekday of the month containing `month` */
+function nthWeekdayOfMonth(month: Date, weekday: number, nth: number): Date {
+  if (nth === -1) {
+    const last = lastDayOfMonth(month);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+  const first = startOfMonth(month);
+  return addDays(first, ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7);
+}
+
+/** Copy the time of day from one date onto another */
+function withTimeOf(date: Date, time: Date): Date {
+  const result = new Date(date);
+  result.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return result;
+}
+
+/** The due date following `from` according to the rule, ignoring end conditions */
+function nextDate(rule: RecurrenceRule, from: Date): Date {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, interval);
+
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [from.getDay()];
+      // Walk forward day by day; a day qualifies if it is a chosen weekday in an "on" week
+      for (let candidate = addDays(from, 1); ; candidate = addDays(candidate, 1)) {
+        const weeksApart = differenceInCalendarWeeks(candidate, from);
+        if (weeksApart % interval === 0 && weekdays.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+    }
+
+    case 'monthly': {
+      const month = addMonths(startOfMonth(from), interval);
+      if (rule.monthly_mode === 'nth_weekday') {
+        return withTimeOf(nthWeekdayOfMonth(month, rule.weekday ?? from.getDay(), rule.nth ?? 1), from);
+      }
+      const day = Math.min(rule.day_of_month ?? from.getDate(), getDaysInMonth(month));
+      return withTimeOf(setDate(month, day), from);
+    }
+  }
+}
+
+/**
+ * Due date of the occurrence after `occurrenceNumber`, or null when the series has ended.
+ * `previousDue` falls back to now for tasks without a due date.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  previousDue: Date,
+  occurrenceNumber: number
+): Date | null {
+  if (rule.count && occurrenceNumber >= rule.count) return null;
+
+  const next = nextDate(rule, previousDue);
+  // parseISO reads the yyyy-MM-dd end date as a local day (new Date would take UTC midnight)
+  if (rule.until && next > endOfDay(parseISO(rule.until))) return null;
+
+  return next;
+}
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Thu" */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    text += ` on ${[...rule.weekdays].sort().map((d) => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (rule.frequency === 'monthly') {
+    text += rule.monthly_mode === 'nth_weekday'
+      ? ` on the ${ORDINALS[rule.nth ?? 1]} ${WEEKDAY_LABELS[rule.weekday ?? 0]}`
+      : ` on day ${rule.day_of_month ?? 1}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+
+  return text;
+}
@@ -0,0 +1,91 @@
+/**
+ * taskDependencies.ts - Dependency Graph Helpers
+ *
+ * Pure functions over "blocked by" links between tasks:
+ * - Which blockers of a task are still open, and how to name them
+ * - Whether a new link would close a cycle (the database rejects these too)
+ * - The critical chain: the longest run of open, dependent tasks
+ */
+
+import { Task, TaskDependency, TaskWithRelations } from '@/types/database';
+
+/** Blockers that have not been completed yet */
+export function getOpenBlockers(task: TaskWithRelations): Task[] {
+  return (task.blocked_by || []).filter((blocker) => blocker.status !== 'completed');
+}
+
+/** A task is blocked while any of its blockers is still open, seen or not */
+export function isTaskBlocked(task: TaskWithRelations): boolean {
+  return getOpenBlockers(task).length > 0 || (task.hidden_blocker_count ?? 0) > 0;
+}
+
+/** Names of the open blockers, e.g. "Design, Review and 1 task you can't see" */
+export function describeOpenBlockers(task: TaskWithRelations): string {
+  const hidden = task.hidden_blocker_count ?? 0;
+  const names = [
+    ...getOpenBlockers(task).map((t) => t.title),
+    ...(hidden > 0 ? [`${hidden} task${hidden === 1 ? '' : 's'} you can't see`] : []),
+  ];
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * Would making taskId depend on dependsOnId create a cycle?
+ * True when taskId is already (transitively) a blocker of dependsOnId.
+ */
+export function wouldCreateCycle(dependencies: TaskDependency[], taskId: string, dependsOnId: string): boolean {
+  if (taskId === dependsOnId) return true;
+
+  const visited = new Set<string>();
+  const stack = [dependsOnId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    dependencies
+      .filter((d) => d.task_id === current)
+      .forEach((d) => stack.push(d.depends_on_task_id));
+  }
+  return false;
+}
+
+/**
+ * Longest chain of open tasks linked by dependencies, in the order they must be done.
+ * Only links between the given tasks are considered.
+ */
+export function getCriticalChain(tasks: Task[], dependencies: TaskDependency[]): Task[] {
+  const openTasks = tasks.filter((t) => t.status !== 'completed');
+  const openIds = new Set(openTasks.map((t) => t.id));
+
+  // Edges from a blocker to the tasks it blocks
+  const blocks = new Map<string, string[]>();
+  dependencies
+    .filter((d) => openIds.has(d.task_id) && openIds.has(d.depends_on_task_id))
+    .forEach((d) => {
+      blocks.set(d.depends_on_task_id, [...(blocks.get(d.depends_on_task_id) || []), d.task_id]);
+    });
+
+  // Longest chain starting at each task (the graph is acyclic, so memoization is safe)
+  const longest = new Map<string, string[]>();
+  const chainFrom = (id: string): string[] => {
+    const cached = longest.get(id);
+    if (cached) return cached;
+    let best: string[] = [];
+    (blocks.get(id) || []).forEach((next) => {
+      const chain = chainFrom(next);
+      if (chain.length > best.length) best = chain;
+    });
+    const result = [id, ...best];
+    longest.set(id, result);
+    return result;
+  };
+
+  let critical: string[] = [];
+  openTasks.forEach((task) => {
+    const chain = chainFrom(task.id);
+    if (chain.length > critical.length) critical = chain;
+  });
+
+  return critical.map((id) => openTasks.find((t) => t.id === id)!);
+}
@@ -0,0 +1,77 @@
+/**
+ * timeline.ts - Timeline (Gantt) Helpers
+ *
+ * Pure functions behind the Timeline page:
+ * - The days a task covers, from its start and due dates
+ * - The date range the chart shows for a set of tasks
+ * - New start and due dates after a bar is dragged or resized
+ */
+
+import { addDays, differenceInCalendarDays, max, min, startOfDay } from 'date-fns';
+import { Task } from '@/types/database';
+
+export type TimelineZoom = 'day' | 'week';
+
+// Pixels per day at each zoom level
+export const DAY_WIDTHS: Record<TimelineZoom, number> = { day: 32, week: 12 };
+
+// What dragging a bar changes: both dates, or one of its ends
+export type BarDragMode = 'move' | 'start' | 'end';
+
+type TaskDates = Pick<Task, 'start_date' | 'due_date' | 'is_milestone'>;
+
+/** First and last day a task covers (inclusive), or null when it has no dates */
+export function getTaskSpan(task: TaskDates): { start: Date; end: Date } | null {
+  const start = task.is_milestone ? null : task.start_date;
+  const first = start ?? task.due_date;
+  const last = task.due_date ?? start;
+  if (!first || !last) return null;
+  return { start: startOfDay(new Date(first)), end: startOfDay(new Date(last)) };
+}
+
+/**
+ * First day and number of days to show: every span plus today, with a few
+ * days of margin on each side and at least four weeks in total
+ */
+export function getTimelineRange(spans: { start: Date; end: Date }[], today: Date = new Date()): { start: Date; days: number } {
+  const day = startOfDay(today);
+  const start = addDays(min([day, ...spans.map((s) => s.start)]), -3);
+  const end = addDays(max([day, ...spans.map((s) => s.end)]), 7);
+  return { start, days: Math.max(differenceInCalendarDays(end, start) + 1, 28) };
+}
+
+/** Days from the start of the chart to a date */
+export const dayOffset = (rangeStart: Date, date: Date) => differenceInCalendarDays(date, rangeStart);
+
+/** Shift a stored date by whole days, keeping its time of day */
+const shift = (date: string, days: number) => addDays(new Date(date), days).toISOString();
+
+/**
+ * Start and due dates after dragging a bar by a number of days
+ * Moving shifts both dates; resizing moves one end but never past the other.
+ * A task with only one date gets the missing end when resized.
+ */
+export function applyBarDrag(task: TaskDates, mode: BarDragMode, days: number): Pick<Task, 'start_date' | 'due_date'> {
+  const start = task.is_milestone ? null : task.start_date;
+
+  if (mode === 'move' || task.is_milestone) {
+    return {
+      start_date: start && shift(start, days),
+      due_date: task.due_date && shift(task.due_date, days),
+    };
+  }
+
+  if (mode === 'start') {
+    const base = start ?? task.due_date;
+    if (!base) return { start_date: start, due_date: task.due_date };
+    const moved = shift(base, days);
+    const tooLate = task.due_date && differenceInCalendarDays(new Date(moved), new Date(task.due_date)) > 0;
+    return { start_date: tooLate ? task.due_date : moved, due_date: task.due_date };
+  }
+
+  const base = task.due_date ?? start;
+  if (!base) return { start_date: start, due_date: task.due_date };
+  const moved = shift(base, days);
+  const tooEarly = start && differenceInCalendarDays(new Date(moved), new Date(start)) < 0;
+  return { start_date: start, due_date: tooEarly ? start : moved };
+}
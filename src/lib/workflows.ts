@@ -0,0 +1,65 @@
+/**
+ * workflows.ts - Workflow Helpers
+ *
+ * Pure functions over workflow statuses and transitions:
+ * - Which workflow applies to a project (its own, or the default one)
+ * - Whether a task may move from one status to another
+ * - The first status of a category, used when only the category is known
+ */
+
+import { StatusColor, TaskStatus, WorkflowStatus, WorkflowTransition } from '@/types/database';
+
+// Status categories, which every workflow maps its statuses onto
+export const STATUS_CATEGORIES: { value: TaskStatus; label: string; color: string }[] = [
+  { value: 'pending', label: 'Pending', color: 'bg-status-pending' },
+  { value: 'in_progress', label: 'In Progress', color: 'bg-status-in-progress' },
+  { value: 'completed', label: 'Completed', color: 'bg-status-completed' },
+];
+
+// Dot colors for statuses (using design system tokens where they exist)
+export const STATUS_COLORS: Record<StatusColor, string> = {
+  gray: 'bg-status-pending',
+  blue: 'bg-status-in-progress',
+  green: 'bg-status-completed',
+  amber: 'bg-priority-high',
+  red: 'bg-priority-urgent',
+  purple: 'bg-violet-500',
+};
+
+export interface Workflow {
+  projectId: string | null; // null for the default workflow
+  statuses: WorkflowStatus[]; // In display order
+  transitions: WorkflowTransition[]; // Empty when tasks may move freely
+}
+
+/** The workflow a project's tasks follow: the project's own once it has statuses, otherwise the default */
+export function getWorkflow(
+  statuses: WorkflowStatus[],
+  transitions: WorkflowTransition[],
+  projectId: string | null
+): Workflow {
+  const own = projectId ? statuses.filter((s) => s.project_id === projectId) : [];
+  const scope = own.length > 0 ? own : statuses.filter((s) => s.project_id === null);
+  const ids = new Set(scope.map((s) => s.id));
+
+  return {
+    projectId: own.length > 0 ? projectId : null,
+    statuses: [...scope].sort((a, b) => a.position - b.position),
+    transitions: transitions.filter((t) => ids.has(t.from_status_id)),
+  };
+}
+
+/**
+ * May a task move from one status to another? The database enforces this too.
+ * Tasks coming from another workflow (changing projects) may take any status.
+ */
+export function canMoveTo(workflow: Workflow, fromStatusId: string | undefined, toStatusId: string): boolean {
+  if (!fromStatusId || fromStatusId === toStatusId || workflow.transitions.length === 0) return true;
+  if (!workflow.statuses.some((s) => s.id === fromStatusId)) return true;
+  return workflow.transitions.some((t) => t.from_status_id === fromStatusId && t.to_status_id === toStatusId);
+}
+
+/** The status the database picks when a task is set to a category without a specific status */
+export function firstStatusOf(workflow: Workflow, category: TaskStatus): WorkflowStatus | undefined {
+  return workflow.statuses.find((s) => s.category === category);
+}
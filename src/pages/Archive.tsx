@@ -0,0 +1,156 @@
+/**
+ * Archive.tsx - Archived Projects and Tasks
+ *
+ * Lists what managers archived, newest first. Archived items are left out
+ * of every other list; each one can be unarchived together with everything
+ * archived alongside it.
+ */
+
+import { useState } from 'react';
+import { useArchive } from '@/hooks/useArchive';
+import { useTaskPickers } from '@/hooks/useTaskPickers';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import AppLayout from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Archive, ArchiveRestore, CheckSquare, FolderKanban } from 'lucide-react';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export default function ArchivePage() {
+  const { projects, tasks, loading, unarchiveTask, unarchiveProject } = useArchive();
+  const { allProjects, allUsers } = useTaskPickers();
+  const { formatMoment } = useDateFormat();
+
+  /** "Archived Jan 5, 2026 by Jane Doe" */
+  const archivedLabel = (archivedAt: string | null, archivedBy: string | null) => {
+    const who = allUsers.find((u) => u.id === archivedBy)?.full_name;
+    const when = archivedAt ? formatMoment(archivedAt, { dateStyle: 'medium' }) : '';
+    return `Archived ${when}${who ? ` by ${who}` : ''}`;
+  };
+
+  const projectName = (projectId: string | null) =>
+    allProjects.find((p) => p.id === projectId)?.name ??
+    projects.find((p) => p.project.id === projectId)?.project.name;
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-20" />)}
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-bold">Archive</h1>
+          <p className="text-muted-foreground">Finished projects and tasks kept out of the way, ready to bring back</p>
+        </div>
+
+        {projects.length === 0 && tasks.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Archive className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-medium mb-1">The archive is empty</h3>
+              <p className="text-sm text-muted-foreground">Archived projects and tasks show up here</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {projects.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <FolderKanban className="h-4 w-4 text-primary" />
+                    Projects
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {projects.map(({ project, tasks: projectTasks }) => (
+                    <ArchiveRow
+                      key={project.id}
+                      title={project.name}
+                      subtitle={archivedLabel(project.archived_at, project.archived_by)}
+                      badge={projectTasks.length > 0 ? plural(projectTasks.length, 'task') : null}
+                      onUnarchive={() => unarchiveProject(project.id)}
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {tasks.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <CheckSquare className="h-4 w-4 text-primary" />
+                    Tasks
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {tasks.map(({ task, subtasks }) => {
+                    const project = projectName(task.project_id);
+                    return (
+                      <ArchiveRow
+                        key={task.id}
+                        title={task.title}
+                        subtitle={`${project ? `${project} · ` : ''}${archivedLabel(task.archived_at, task.archived_by)}`}
+                        badge={subtasks.length > 0 ? plural(subtasks.length, 'subtask') : null}
+                        onUnarchive={() => unarchiveTask(task.id)}
+                      />
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
+
+interface ArchiveRowProps {
+  title: string;
+  subtitle: string;
+  badge: string | null; // How many tasks come back with an unarchive
+  onUnarchive: () => Promise<void>;
+}
+
+/** One archived item with its unarchive action */
+function ArchiveRow({ title, subtitle, badge, onUnarchive }: ArchiveRowProps) {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleUnarchive = async () => {
+    setIsBusy(true);
+    try {
+      await onUnarchive();
+    } catch {
+      // useArchive already reported the error
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <p className="truncate font-medium">{title}</p>
+          {badge && <Badge variant="secondary">{badge}</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">{subtitle}</p>
+      </div>
+      <Button variant="outline" size="sm" className="gap-2" onClick={handleUnarchive} disabled={isBusy}>
+        <ArchiveRestore className="h-4 w-4" />
+        Unarchive
+      </Button>
+    </div>
+  );
+}
@@ -1,12 +1,26 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from '@/hooks/use-toast';
-import { CheckSquare, Loader2 } from 'lucide-react';
+import { CheckSquare, Loader2, MailCheck } from 'lucide-react';
+import { AppRole } from '@/types/database';
+
+const ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'an admin',
+  department_head: 'a department head',
+  employee: 'an employee',
+};
+
+interface InvitationDetails {
+  email: string;
+  role: AppRole;
+  department_name: string | null;
+}
 
 export default function Auth() {
   const [isLogin, setIsLogin] = useState(true);
@@ -14,8 +28,31 @@ export default function Auth() {
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
   const { signIn, signUp, user, loading } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+
+  // An invite link opens the signup form for the invited address
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    supabase.rpc('get_invitation', { _token: inviteToken }).then(({ data, error }) => {
+      const details = data?.[0];
+      if (error || !details) {
+        toast({
+          title: 'Invitation not valid',
+          description: 'This invite link has expired or was revoked. Ask an admin for a new one.',
+          variant: 'destructive'
+        });
+        return;
+      }
+      setInvitation(details);
+      setEmail(details.email);
+      setIsLogin(false);
+    });
+  }, [inviteToken]);
 
   useEffect(() => {
     if (!loading && user) {
@@ -33,7 +70,8 @@ export default function Auth() {
         if (error) {
           toast({
             title: 'Login failed',
-            description: error.message,
+            // Deactivated accounts are banned in auth
+            description: /banned/i.test(error.message) ? 'This account has been deactivated' : error.message,
             variant: 'destructive'
           });
         } else {
@@ -50,7 +88,7 @@ export default function Auth() {
           setIsLoading(false);
           return;
         }
-        const { error } = await signUp(email, password, fullName);
+        const { error } = await signUp(email, password, fullName, invitation ? inviteToken : undefined);
         if (error) {
           toast({
             title: 'Sign up failed',
@@ -97,6 +135,15 @@ export default function Auth() {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {invitation && !isLogin && (
+              <div className="mb-4 flex items-start gap-2 rounded-md border bg-muted/50 p-3 text-sm">
+                <MailCheck className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                <p>
+                  You've been invited to join as {ROLE_LABELS[invitation.role]}
+                  {invitation.department_name && <> in <span className="font-medium">{invitation.department_name}</span></>}.
+                </p>
+              </div>
+            )}
             <form onSubmit={handleSubmit} className="space-y-4">
               {!isLogin && (
                 <div className="space-y-2">
@@ -121,6 +168,7 @@ export default function Auth() {
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
                   required
+                  readOnly={!!invitation && !isLogin} // The invitation only applies to this address
                   disabled={isLoading}
                 />
               </div>
@@ -0,0 +1,267 @@
+/**
+ * Calendar.tsx - Tasks by Due Date
+ *
+ * A month or week grid with each task on the day it is due, colored by
+ * priority. Overdue tasks are outlined in red. Dragging a task to another
+ * day moves its due date there (same time of day); clicking one opens it.
+ * Filters by project and assignee; tasks without a due date are only counted.
+ */
+
+import { useMemo, useState } from 'react';
+import { useTasks } from '@/hooks/useTasks';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOpenTask } from '@/hooks/useOpenTask';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import AppLayout from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { CalendarView, getCalendarDays, getCalendarTitle, isOverdue, moveToDay, shiftCalendar } from '@/lib/calendar';
+import { cn } from '@/lib/utils';
+import { TaskWithRelations } from '@/types/database';
+import { format, isSameDay, isSameMonth, isToday } from 'date-fns';
+
+// Colors for each priority level (using design system tokens)
+const PRIORITY_COLORS = {
+  low: 'bg-priority-low/10 text-priority-low border-priority-low/20',
+  medium: 'bg-priority-medium/10 text-priority-medium border-priority-medium/20',
+  high: 'bg-priority-high/10 text-priority-high border-priority-high/20',
+  urgent: 'bg-priority-urgent/10 text-priority-urgent border-priority-urgent/20',
+};
+
+// Tasks listed in a month cell before the rest collapse into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+export default function CalendarPage() {
+  const { user } = useAuth();
+  const { tasks, projects, users, loading, updateTask, canManageTasks } = useTasks();
+  const openTask = useOpenTask();
+  const { locale, formatDay } = useDateFormat();
+
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [projectId, setProjectId] = useState('all');
+  const [assigneeId, setAssigneeId] = useState('all');
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+
+  const days = useMemo(() => getCalendarDays(anchor, view), [anchor, view]);
+
+  const filteredTasks = tasks.filter((task) => {
+    if (projectId === 'none' ? task.project_id !== null : projectId !== 'all' && task.project_id !== projectId) {
+      return false;
+    }
+    if (assigneeId === 'none') return !task.assigned_to;
+    return assigneeId === 'all' || (task.assignees || []).some((a) => a.id === assigneeId);
+  });
+  const tasksOn = (day: Date) =>
+    filteredTasks.filter((task) => task.due_date && isSameDay(new Date(task.due_date), day));
+  const undatedCount = filteredTasks.filter((task) => !task.due_date).length;
+
+  // Assignees reschedule their own tasks; managers any task they can see
+  const canReschedule = (task: TaskWithRelations) =>
+    canManageTasks || (task.assignees || []).some((a) => a.id === user?.id);
+
+  /** Move the dropped task to the day it was dropped on */
+  const handleDrop = async (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    setDragOverDay(null);
+    const task = tasks.find((t) => t.id === e.dataTransfer.getData('text/plain'));
+    if (!task?.due_date || isSameDay(new Date(task.due_date), day)) return;
+
+    try {
+      await updateTask(task.id, { due_date: moveToDay(task.due_date, day) });
+    } catch {
+      // useTasks already reported the error
+    }
+  };
+
+  /** Show the week of a crowded day in full */
+  const showWeekOf = (day: Date) => {
+    setAnchor(day);
+    setView('week');
+  };
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-64" />
+          <Skeleton className="h-[480px]" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Calendar</h1>
+            <p className="text-muted-foreground">
+              Tasks by due date. Drag a task to another day to reschedule it.
+            </p>
+          </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={view}
+            // Radix emits an empty string when the active item is clicked again
+            onValueChange={(v) => v && setView(v as CalendarView)}
+          >
+            <ToggleGroupItem value="month" className="px-3">Month</ToggleGroupItem>
+            <ToggleGroupItem value="week" className="px-3">Week</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {/* Navigation and filters */}
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setAnchor(shiftCalendar(anchor, view, -1))} aria-label="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setAnchor(shiftCalendar(anchor, view, 1))} aria-label="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+              Today
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" className="gap-2 text-lg font-semibold">
+                  <CalendarDays className="h-4 w-4" />
+                  {getCalendarTitle(anchor, view, locale)}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={anchor}
+                  defaultMonth={anchor}
+                  onSelect={(day) => day && setAnchor(day)}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 lg:ml-auto">
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Project" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Projects</SelectItem>
+                <SelectItem value="none">No Project</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Assignee" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Assignees</SelectItem>
+                <SelectItem value="none">Unassigned</SelectItem>
+                {users.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>{u.full_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Grid */}
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[700px] grid-cols-7 overflow-hidden rounded-lg border">
+            {days.slice(0, 7).map((day) => (
+              <div key={day.toISOString()} className="border-b bg-muted/40 px-2 py-1.5 text-xs font-medium text-muted-foreground">
+                {formatDay(day, { weekday: 'short' })}
+              </div>
+            ))}
+
+            {days.map((day) => {
+              const key = day.toISOString();
+              const dayTasks = tasksOn(day);
+              const shown = view === 'month' ? dayTasks.slice(0, MONTH_CELL_LIMIT) : dayTasks;
+              const hidden = dayTasks.length - shown.length;
+              return (
+                <div
+                  key={key}
+                  className={cn(
+                    'flex flex-col gap-1 border-b border-r p-1.5 transition-colors [&:nth-child(7n)]:border-r-0',
+                    view === 'month' ? 'min-h-[112px]' : 'min-h-[360px]',
+                    view === 'month' && !isSameMonth(day, anchor) && 'bg-muted/20 text-muted-foreground',
+                    dragOverDay === key && 'bg-primary/5'
+                  )}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragOverDay(key);
+                  }}
+                  onDragLeave={() => setDragOverDay(null)}
+                  onDrop={(e) => handleDrop(e, day)}
+                >
+                  <span
+                    className={cn(
+                      'flex h-6 w-6 items-center justify-center self-end rounded-full text-xs',
+                      isToday(day) && 'bg-primary font-semibold text-primary-foreground'
+                    )}
+                  >
+                    {format(day, 'd')}
+                  </span>
+
+                  {shown.map((task) => {
+                    const overdue = isOverdue(task);
+                    return (
+                      <button
+                        key={task.id}
+                        type="button"
+                        draggable={canReschedule(task)}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData('text/plain', task.id);
+                          e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        onClick={() => openTask(task.id)}
+                        title={overdue ? `${task.title} (overdue)` : task.title}
+                        className={cn(
+                          'flex items-center gap-1 truncate rounded border px-1.5 py-0.5 text-left text-xs',
+                          PRIORITY_COLORS[task.priority],
+                          overdue && 'border-priority-urgent ring-1 ring-priority-urgent',
+                          task.status === 'completed' && 'line-through opacity-60',
+                          canReschedule(task) && 'cursor-grab active:cursor-grabbing'
+                        )}
+                      >
+                        {overdue && <AlertCircle className="h-3 w-3 shrink-0" />}
+                        <span className="truncate">{task.title}</span>
+                      </button>
+                    );
+                  })}
+
+                  {hidden > 0 && (
+                    <button
+                      type="button"
+                      className="text-left text-xs text-muted-foreground hover:text-foreground"
+                      onClick={() => showWeekOf(day)}
+                    >
+                      +{hidden} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {undatedCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {undatedCount} task{undatedCount === 1 ? ' has' : 's have'} no due date and {undatedCount === 1 ? 'is' : 'are'} not shown.
+          </p>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -4,76 +4,128 @@
  * Displays:
  * - Welcome message with user's name
  * - Task statistics (total, completed, in progress, pending)
- * - Search and filter controls
- * - List of tasks with ability to create/edit
+ * - Search, filter and sort controls (applied by the database, kept in the URL),
+ *   including labels matched as "any of" or "all of"
+ * - List or board of tasks with ability to create/edit, loaded page by page on scroll
+ * - Multi-select in the list with bulk actions for managers
+ *
+ * Existing tasks open at /tasks/:taskId (see TaskDetail); this page only creates them.
  */
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useTasks } from '@/hooks/useTasks';
+import { useTaskList } from '@/hooks/useTaskList';
+import { useTaskListFilters } from '@/hooks/useTaskListFilters';
+import { useOpenTask } from '@/hooks/useOpenTask';
+import { useTaskSelection } from '@/hooks/useTaskSelection';
+import { LabelMatch, TaskListFilters, TaskSortField } from '@/lib/queries';
+import { useTaskViewMode } from '@/hooks/useTaskViewMode';
+import { useLabels } from '@/hooks/useLabels';
 import AppLayout from '@/components/layout/AppLayout';
 import TaskCard from '@/components/tasks/TaskCard';
 import TaskDialog from '@/components/tasks/TaskDialog';
+import TaskBoard from '@/components/tasks/TaskBoard';
+import TaskViewToggle from '@/components/tasks/TaskViewToggle';
+import BulkActionBar from '@/components/tasks/BulkActionBar';
+import LabelPicker from '@/components/labels/LabelPicker';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Plus, Search, CheckCircle2, Clock, AlertCircle, ListTodo } from 'lucide-react';
+import { Plus, Search, CheckCircle2, Clock, AlertCircle, ListTodo, Loader2 } from 'lucide-react';
 import { TaskWithRelations } from '@/types/database';
+import { cn } from '@/lib/utils';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: TaskSortField; label: string }[] = [
+  { value: 'created_at', label: 'Newest first' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'title', label: 'Title' },
+];
 
 export default function Dashboard() {
   const { profile } = useAuth();
-  const { tasks, projects, users, loading, createTask, updateTask, toggleTaskComplete, canManageTasks } = useTasks();
-  
-  // Filter state
-  const [searchQuery, setSearchQuery] = useState('');
-  const [priorityFilter, setPriorityFilter] = useState('all');
-  const [statusFilter, setStatusFilter] = useState('all');
+  const openTask = useOpenTask();
+
+  // Filter state lives in the query string - everything except the search box is applied immediately
+  const { filters, updateFilter } = useTaskListFilters();
+  const [searchQuery, setSearchQuery] = useState(filters.search);
+
+  useEffect(() => {
+    if (searchQuery === filters.search) return;
+    const timeout = setTimeout(() => updateFilter('search', searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Follow the URL when it changes underneath the search box (back button, links)
+  useEffect(() => {
+    setSearchQuery(filters.search);
+  }, [filters.search]);
+
+  const {
+    tasks, stats, projects, users, loading,
+    hasNextPage, isFetchingNextPage, fetchNextPage,
+    createTask,
+    updateTask,
+    toggleTaskComplete,
+    bulkUpdateTasks,
+    bulkTrashTasks,
+    canManageTasks,
+  } = useTaskList(filters);
+  const { viewMode, setViewMode } = useTaskViewMode();
+  const { labels } = useLabels();
+  const selection = useTaskSelection(viewMode === 'list' ? tasks.map((t) => t.id) : []);
   
-  // Dialog state
-  const [selectedTask, setSelectedTask] = useState<TaskWithRelations | null>(null);
+  // New task dialog state
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [isCreating, setIsCreating] = useState(false);
-
-  // Filter tasks based on search and filters
-  const filteredTasks = tasks.filter((task) => {
-    const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      task.description?.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesPriority = priorityFilter === 'all' || task.priority === priorityFilter;
-    const matchesStatus = statusFilter === 'all' || task.status === statusFilter;
-    return matchesSearch && matchesPriority && matchesStatus;
-  });
-
-  // Calculate statistics
-  const stats = {
-    total: tasks.length,
-    completed: tasks.filter((t) => t.status === 'completed').length,
-    inProgress: tasks.filter((t) => t.status === 'in_progress').length,
-    pending: tasks.filter((t) => t.status === 'pending').length,
-  };
 
-  /** Save task (create or update based on whether id exists) */
-  const handleSaveTask = async (taskData: Partial<TaskWithRelations>) => {
-    if (taskData.id) {
-      await updateTask(taskData.id, taskData);
-    } else {
-      await createTask(taskData);
-    }
+  // Load the next page when the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loading, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  /** Save a new task */
+  const handleCreateTask = async (taskData: Partial<TaskWithRelations>) => {
+    await createTask(taskData);
   };
 
   /** Open dialog to create new task */
   const openCreateDialog = () => {
-    setSelectedTask(null);
-    setIsCreating(true);
     setIsDialogOpen(true);
   };
 
-  /** Open dialog to view/edit existing task */
+  /** Open an existing task at its own URL */
   const openEditDialog = (task: TaskWithRelations) => {
-    setSelectedTask(task);
-    setIsCreating(false);
-    setIsDialogOpen(true);
+    openTask(task.id);
+  };
+
+  /** Move a task from the board; blocked or refused moves are already reported */
+  const handleStatusChange = async (taskId: string, changes: Partial<TaskWithRelations>) => {
+    try {
+      await updateTask(taskId, changes);
+    } catch {
+      // useTasks already reported the error
+    }
+  };
+
+  const handleToggleComplete = async (taskId: string, completed: boolean) => {
+    try {
+      await toggleTaskComplete(taskId, completed);
+    } catch {
+      // useTasks already reported the error
+    }
   };
 
   // Show loading skeleton while fetching data
@@ -128,7 +180,7 @@ export default function Dashboard() {
               className="pl-9"
             />
           </div>
-          <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+          <Select value={filters.priority} onValueChange={(value) => updateFilter('priority', value as TaskListFilters['priority'])}>
             <SelectTrigger className="w-full sm:w-[140px]"><SelectValue placeholder="Priority" /></SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Priorities</SelectItem>
@@ -138,7 +190,7 @@ export default function Dashboard() {
               <SelectItem value="urgent">Urgent</SelectItem>
             </SelectContent>
           </Select>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <Select value={filters.status} onValueChange={(value) => updateFilter('status', value as TaskListFilters['status'])}>
             <SelectTrigger className="w-full sm:w-[140px]"><SelectValue placeholder="Status" /></SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
@@ -147,34 +199,129 @@ export default function Dashboard() {
               <SelectItem value="completed">Completed</SelectItem>
             </SelectContent>
           </Select>
+          <TaskViewToggle value={viewMode} onChange={setViewMode} />
+        </div>
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-3">
+          <Select value={filters.projectId} onValueChange={(value) => updateFilter('projectId', value)}>
+            <SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Project" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Projects</SelectItem>
+              <SelectItem value="none">No Project</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.assigneeId} onValueChange={(value) => updateFilter('assigneeId', value)}>
+            <SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Assignee" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Assignees</SelectItem>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {users.map((u) => (
+                <SelectItem key={u.id} value={u.id}>{u.full_name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            {filters.labelIds.length > 1 && (
+              <Select value={filters.labelMatch} onValueChange={(value) => updateFilter('labelMatch', value as LabelMatch)}>
+                <SelectTrigger className="w-[110px] shrink-0" aria-label="Label match"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any of</SelectItem>
+                  <SelectItem value="all">All of</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <LabelPicker
+              labels={labels}
+              value={filters.labelIds}
+              onChange={(labelIds) => updateFilter('labelIds', labelIds)}
+              placeholder="All Labels"
+              className="sm:w-[220px]"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              aria-label="Due from"
+              value={filters.dueFrom}
+              onChange={(e) => updateFilter('dueFrom', e.target.value)}
+              className="w-full sm:w-[150px]"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="Due to"
+              value={filters.dueTo}
+              onChange={(e) => updateFilter('dueTo', e.target.value)}
+              className="w-full sm:w-[150px]"
+            />
+          </div>
+          <Select value={filters.sort} onValueChange={(value) => updateFilter('sort', value as TaskSortField)}>
+            <SelectTrigger className="w-full sm:w-[150px] sm:ml-auto"><SelectValue placeholder="Sort" /></SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
-        {/* Task list */}
-        <div className="space-y-3">
-          {filteredTasks.length === 0 ? (
-            <EmptyState hasAnyTasks={tasks.length > 0} />
+        {/* Task list or board; room at the bottom for the bulk action bar */}
+        <div className={cn('space-y-3', selection.selectedIds.length > 0 && 'pb-20')}>
+          {tasks.length === 0 ? (
+            <EmptyState hasAnyTasks={stats.total > 0} />
+          ) : viewMode === 'board' ? (
+            <TaskBoard
+              tasks={tasks}
+              onStatusChange={handleStatusChange}
+              onComplete={handleToggleComplete}
+              onTaskClick={openEditDialog}
+            />
           ) : (
-            filteredTasks.map((task) => (
+            tasks.map((task) => (
               <TaskCard
                 key={task.id}
                 task={task}
-                onComplete={toggleTaskComplete}
+                onComplete={handleToggleComplete}
                 onClick={() => openEditDialog(task)}
+                selected={selection.isSelected(task.id)}
+                onSelectChange={canManageTasks ? (selected) => selection.toggle(task.id, selected) : undefined}
+                selectionActive={selection.selectedIds.length > 0}
               />
             ))
           )}
+
+          {/* Infinite scroll sentinel */}
+          <div ref={loadMoreRef} className="flex justify-center py-2">
+            {isFetchingNextPage && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+          </div>
         </div>
       </div>
 
-      {/* Task create/edit dialog */}
+      {selection.selectedIds.length > 0 && (
+        <BulkActionBar
+          selectedCount={selection.selectedIds.length}
+          totalCount={tasks.length}
+          projects={projects}
+          users={users}
+          onSelectAll={selection.selectAll}
+          onClear={selection.clear}
+          onUpdate={(changes) => bulkUpdateTasks(selection.selectedIds, changes)}
+          onTrash={() => bulkTrashTasks(selection.selectedIds)}
+        />
+      )}
+
+      {/* Task create dialog */}
       <TaskDialog
         open={isDialogOpen}
         onOpenChange={setIsDialogOpen}
-        task={isCreating ? null : selectedTask}
+        task={null}
         projects={projects}
         users={users}
-        onSave={handleSaveTask}
-        canEdit={canManageTasks || isCreating}
+        onSave={handleCreateTask}
+        canEdit
+        tasks={tasks}
       />
     </AppLayout>
   );
@@ -0,0 +1,176 @@
+/**
+ * Labels.tsx - Label Catalogue
+ *
+ * Lists the organization-wide labels with how many tasks carry each.
+ * Admins and department heads create, rename, recolor and delete them;
+ * deleting a label takes it off every task after a confirmation.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Label } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLabels } from '@/hooks/useLabels';
+import { queryKeys, fetchTaskLabels } from '@/lib/queries';
+import AppLayout from '@/components/layout/AppLayout';
+import LabelChip from '@/components/labels/LabelChip';
+import LabelDialog from '@/components/labels/LabelDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Pencil, Plus, Tags, Trash2 } from 'lucide-react';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export default function Labels() {
+  const { user } = useAuth();
+  const { labels, loading, createLabel, updateLabel, deleteLabel, canManageLabels } = useLabels();
+  const { data: taskLabels = [] } = useQuery({
+    queryKey: queryKeys.taskLabels(user?.id ?? ''),
+    queryFn: fetchTaskLabels,
+    enabled: !!user,
+  });
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingLabel, setEditingLabel] = useState<Label | null>(null);
+
+  const usage = (labelId: string) => taskLabels.filter((tl) => tl.label_id === labelId).length;
+
+  const openCreateDialog = () => {
+    setEditingLabel(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (label: Label) => {
+    setEditingLabel(label);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async (labelData: Partial<Label>) => {
+    if (labelData.id) {
+      await updateLabel(labelData.id, labelData);
+    } else {
+      await createLabel(labelData);
+    }
+  };
+
+  const handleDelete = async (labelId: string) => {
+    try {
+      await deleteLabel(labelId);
+    } catch {
+      // useLabels already reported the error
+    }
+  };
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-14" />)}
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Labels</h1>
+            <p className="text-muted-foreground">Tag tasks across projects and filter the dashboard by them</p>
+          </div>
+          {canManageLabels && (
+            <Button onClick={openCreateDialog} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Label
+            </Button>
+          )}
+        </div>
+
+        {labels.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Tags className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-medium mb-1">No labels yet</h3>
+              <p className="text-sm text-muted-foreground">Labels you create can be added to any task</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="divide-y py-2">
+              {labels.map((label) => {
+                const count = usage(label.id);
+                return (
+                  <div key={label.id} className="flex items-center gap-3 py-3">
+                    <div className="min-w-0 flex-1">
+                      <LabelChip label={label} />
+                    </div>
+                    <span className="text-xs text-muted-foreground">{plural(count, 'task')}</span>
+                    {canManageLabels && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openEditDialog(label)}
+                          aria-label={`Edit ${label.name}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-destructive"
+                              aria-label={`Delete ${label.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete the "{label.name}" label?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {count > 0
+                                  ? `It will be removed from ${plural(count, 'task')}. The tasks themselves stay.`
+                                  : 'No tasks carry this label.'}
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(label.id)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <LabelDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        label={editingLabel}
+        onSave={handleSave}
+      />
+    </AppLayout>
+  );
+}
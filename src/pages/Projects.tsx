@@ -1,30 +1,106 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { useProjects } from '@/hooks/useProjects';
 import { useTasks } from '@/hooks/useTasks';
+import { useDepartments } from '@/hooks/useDepartments';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTaskViewMode } from '@/hooks/useTaskViewMode';
+import { useOpenTask } from '@/hooks/useOpenTask';
+import { useTaskSelection } from '@/hooks/useTaskSelection';
+import { useWorkflows } from '@/hooks/useWorkflows';
 import AppLayout from '@/components/layout/AppLayout';
 import ProjectCard from '@/components/projects/ProjectCard';
 import ProjectDialog from '@/components/projects/ProjectDialog';
 import TaskCard from '@/components/tasks/TaskCard';
 import TaskDialog from '@/components/tasks/TaskDialog';
+import TaskBoard from '@/components/tasks/TaskBoard';
+import TaskViewToggle from '@/components/tasks/TaskViewToggle';
+import BulkActionBar from '@/components/tasks/BulkActionBar';
+import WorkflowDialog from '@/components/projects/WorkflowDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Plus, Search, FolderKanban, ArrowLeft } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Plus, Search, FolderKanban, ArrowLeft, Archive, GitBranch, ChevronRight, Trash2, Workflow } from 'lucide-react';
+import { getCriticalChain } from '@/lib/taskDependencies';
+import { queryKeys, fetchMissingProjectReason } from '@/lib/queries';
+import { cn } from '@/lib/utils';
 import { Project, TaskWithRelations } from '@/types/database';
 
+// What to tell someone following a link to a project they can't open
+const MISSING_PROJECT_MESSAGES = {
+  trashed: {
+    title: 'This project is in the trash',
+    description: 'Restore it from the Trash page to work on it again.',
+  },
+  archived: {
+    title: 'This project is archived',
+    description: 'Unarchive it from the Archive page to work on it again.',
+  },
+  forbidden: {
+    title: 'No access to this project',
+    description: "This project belongs to a department you can't view. Ask an admin if you need access.",
+  },
+  not_found: {
+    title: 'Project not found',
+    description: 'This project may have been deleted for good, or the link is incorrect.',
+  },
+};
+
 export default function Projects() {
-  const { projects, projectTaskCounts, loading: projectsLoading, createProject, updateProject, canManageProjects } = useProjects();
-  const { tasks, users, loading: tasksLoading, createTask, updateTask, toggleTaskComplete, canManageTasks } = useTasks();
+  const {
+    projects, projectTaskCounts, loading: projectsLoading,
+    createProject, updateProject, trashProject, archiveProject,
+    canManageProjects,
+  } = useProjects();
+  const {
+    tasks, users, loading: tasksLoading,
+    createTask,
+    updateTask,
+    toggleTaskComplete,
+    bulkUpdateTasks,
+    bulkTrashTasks,
+    dependencies,
+    canManageTasks,
+  } = useTasks();
+  const { workflowFor, saveWorkflow, resetWorkflow, canManageWorkflow } = useWorkflows();
+  const { viewMode, setViewMode } = useTaskViewMode();
+  const { departments } = useDepartments();
+  const { user, isAdmin } = useAuth();
+  const openTask = useOpenTask();
   
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [isProjectDialogOpen, setIsProjectDialogOpen] = useState(false);
   const [isCreatingProject, setIsCreatingProject] = useState(false);
   
-  const [selectedTask, setSelectedTask] = useState<TaskWithRelations | null>(null);
   const [isTaskDialogOpen, setIsTaskDialogOpen] = useState(false);
-  const [viewingProject, setViewingProject] = useState<Project | null>(null);
+  const [isWorkflowDialogOpen, setIsWorkflowDialogOpen] = useState(false);
+
+  // The open project comes from the URL, so project links work on reload
+  const { projectId } = useParams();
+  const navigate = useNavigate();
+  const viewingProject = projectId ? projects.find((p) => p.id === projectId) || null : null;
+
+  // A project missing from the list is trashed, archived, deleted or hidden by RLS; only the database can say which
+  const missingProjectId = projectId && !projectsLoading && !viewingProject ? projectId : null;
+  const missingReasonQuery = useQuery({
+    queryKey: queryKeys.missingProject(user?.id ?? '', missingProjectId ?? ''),
+    queryFn: () => fetchMissingProjectReason(missingProjectId!),
+    enabled: !!missingProjectId,
+  });
 
   const filteredProjects = projects.filter((project) =>
     project.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -35,6 +111,14 @@ export default function Projects() {
     ? tasks.filter((task) => task.project_id === viewingProject.id)
     : [];
 
+  // Statuses of the open project, for the board columns and bulk status changes
+  const workflow = useMemo(() => workflowFor(viewingProject?.id ?? null), [workflowFor, viewingProject?.id]);
+
+  const selection = useTaskSelection(viewMode === 'list' ? projectTasks.map((t) => t.id) : []);
+
+  // Longest chain of open, dependent tasks in the project
+  const criticalChain = getCriticalChain(projectTasks, dependencies);
+
   const handleSaveProject = async (projectData: Partial<Project>) => {
     if (projectData.id) {
       await updateProject(projectData.id, projectData);
@@ -43,12 +127,10 @@ export default function Projects() {
     }
   };
 
-  const handleSaveTask = async (taskData: Partial<TaskWithRelations>) => {
-    if (taskData.id) {
-      await updateTask(taskData.id, taskData);
-    } else {
-      await createTask({ ...taskData, project_id: viewingProject?.id });
-    }
+  const handleCreateTask = async (taskData: Partial<TaskWithRelations>) => {
+    // A status picked from another workflow is left to the database, which keeps its category
+    const statusId = workflow.statuses.some((s) => s.id === taskData.status_id) ? taskData.status_id : undefined;
+    await createTask({ ...taskData, project_id: viewingProject?.id, status_id: statusId });
   };
 
   const handleCreateProject = () => {
@@ -58,18 +140,60 @@ export default function Projects() {
   };
 
   const handleViewProject = (project: Project) => {
-    setViewingProject(project);
+    navigate(`/projects/${project.id}`);
   };
 
   const handleBackToProjects = () => {
-    setViewingProject(null);
+    navigate('/projects');
+  };
+
+  /** Move the open project and its tasks to the trash, then return to the list */
+  const handleTrashProject = async () => {
+    if (!viewingProject) return;
+    try {
+      await trashProject(viewingProject.id);
+      navigate('/projects');
+    } catch {
+      // useProjects already reported the error
+    }
+  };
+
+  /** Archive the open project and its tasks, then return to the list */
+  const handleArchiveProject = async () => {
+    if (!viewingProject) return;
+    try {
+      await archiveProject(viewingProject.id);
+      navigate('/projects');
+    } catch {
+      // useProjects already reported the error
+    }
   };
 
   const handleCreateTaskInProject = () => {
-    setSelectedTask(null);
     setIsTaskDialogOpen(true);
   };
 
+  const handleOpenTask = (task: TaskWithRelations) => {
+    openTask(task.id);
+  };
+
+  /** Move a task from the board; blocked or refused moves are already reported */
+  const handleStatusChange = async (taskId: string, changes: Partial<TaskWithRelations>) => {
+    try {
+      await updateTask(taskId, changes);
+    } catch {
+      // useTasks already reported the error
+    }
+  };
+
+  const handleToggleComplete = async (taskId: string, completed: boolean) => {
+    try {
+      await toggleTaskComplete(taskId, completed);
+    } catch {
+      // useTasks already reported the error
+    }
+  };
+
   const loading = projectsLoading || tasksLoading;
 
   if (loading) {
@@ -86,6 +210,42 @@ export default function Projects() {
     );
   }
 
+  // Project link that doesn't lead to a visible project
+  if (missingProjectId) {
+    const reason = missingReasonQuery.data;
+    return (
+      <AppLayout>
+        <Card className="max-w-lg mx-auto mt-12 animate-fade-in">
+          <CardContent className="p-8 text-center">
+            {missingReasonQuery.isLoading ? (
+              <Skeleton className="h-24" />
+            ) : (
+              <>
+                <FolderKanban className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="font-medium mb-1">{MISSING_PROJECT_MESSAGES[reason ?? 'not_found'].title}</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {MISSING_PROJECT_MESSAGES[reason ?? 'not_found'].description}
+                </p>
+                <div className="flex justify-center gap-2">
+                  <Button variant="outline" onClick={handleBackToProjects} className="gap-2">
+                    <ArrowLeft className="h-4 w-4" />
+                    All projects
+                  </Button>
+                  {reason === 'trashed' && canManageProjects && (
+                    <Button onClick={() => navigate('/trash')}>Open trash</Button>
+                  )}
+                  {reason === 'archived' && canManageProjects && (
+                    <Button onClick={() => navigate('/archive')}>Open archive</Button>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </AppLayout>
+    );
+  }
+
   // Project detail view
   if (viewingProject) {
     return (
@@ -103,15 +263,105 @@ export default function Projects() {
                 )}
               </div>
             </div>
-            {canManageTasks && (
-              <Button onClick={handleCreateTaskInProject} className="gap-2">
-                <Plus className="h-4 w-4" />
-                Add Task
-              </Button>
-            )}
+            <div className="flex items-center gap-2">
+              <TaskViewToggle value={viewMode} onChange={setViewMode} />
+              {canManageWorkflow(viewingProject) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsWorkflowDialogOpen(true)}
+                  aria-label="Edit workflow"
+                  title="Edit workflow"
+                >
+                  <Workflow className="h-4 w-4" />
+                </Button>
+              )}
+              {canManageProjects && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label="Archive project" title="Archive project">
+                      <Archive className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Archive "{viewingProject.name}"?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {projectTasks.length > 0
+                          ? `The project and its ${projectTasks.length} task${projectTasks.length === 1 ? '' : 's'} will be hidden from every list.`
+                          : 'The project will be hidden from every list.'}{' '}
+                        You can unarchive it from the Archive page.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleArchiveProject}>Archive</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+              {canManageProjects && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="icon" className="text-destructive" aria-label="Delete project">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Move "{viewingProject.name}" to the trash?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {projectTasks.length > 0
+                          ? `The project and its ${projectTasks.length} task${projectTasks.length === 1 ? '' : 's'} will be moved to the trash.`
+                          : 'The project will be moved to the trash.'}{' '}
+                        You can restore it from the Trash page.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleTrashProject}>Move to trash</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+              {canManageTasks && (
+                <Button onClick={handleCreateTaskInProject} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Task
+                </Button>
+              )}
+            </div>
           </div>
 
-          <div className="space-y-3">
+          {/* Critical chain: only meaningful when tasks depend on each other */}
+          {criticalChain.length > 1 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <GitBranch className="h-4 w-4 text-primary" />
+                  Critical Chain
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap items-center gap-1 text-sm">
+                  {criticalChain.map((task, index) => (
+                    <span key={task.id} className="flex items-center gap-1">
+                      {index > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                      <button
+                        type="button"
+                        className="hover:underline"
+                        onClick={() => handleOpenTask(task)}
+                      >
+                        {task.title}
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className={cn('space-y-3', selection.selectedIds.length > 0 && 'pb-20')}>
             {projectTasks.length === 0 ? (
               <Card>
                 <CardContent className="p-8 text-center">
@@ -122,30 +372,62 @@ export default function Projects() {
                   </p>
                 </CardContent>
               </Card>
+            ) : viewMode === 'board' ? (
+              <TaskBoard
+                tasks={projectTasks}
+                workflow={workflow}
+                onStatusChange={handleStatusChange}
+                onComplete={handleToggleComplete}
+                onTaskClick={handleOpenTask}
+              />
             ) : (
               projectTasks.map((task) => (
                 <TaskCard
                   key={task.id}
                   task={task}
-                  onComplete={toggleTaskComplete}
-                  onClick={() => {
-                    setSelectedTask(task);
-                    setIsTaskDialogOpen(true);
-                  }}
+                  onComplete={handleToggleComplete}
+                  onClick={() => handleOpenTask(task)}
+                  selected={selection.isSelected(task.id)}
+                  onSelectChange={canManageTasks ? (selected) => selection.toggle(task.id, selected) : undefined}
+                  selectionActive={selection.selectedIds.length > 0}
                 />
               ))
             )}
           </div>
         </div>
 
+        {selection.selectedIds.length > 0 && (
+          <BulkActionBar
+            selectedCount={selection.selectedIds.length}
+            totalCount={projectTasks.length}
+            projects={projects}
+            users={users}
+            workflow={workflow}
+            onSelectAll={selection.selectAll}
+            onClear={selection.clear}
+            onUpdate={(changes) => bulkUpdateTasks(selection.selectedIds, changes)}
+            onTrash={() => bulkTrashTasks(selection.selectedIds)}
+          />
+        )}
+
         <TaskDialog
           open={isTaskDialogOpen}
           onOpenChange={setIsTaskDialogOpen}
-          task={selectedTask}
+          task={null}
           projects={projects}
           users={users}
-          onSave={handleSaveTask}
+          onSave={handleCreateTask}
           canEdit={canManageTasks}
+          tasks={tasks}
+        />
+
+        <WorkflowDialog
+          open={isWorkflowDialogOpen}
+          onOpenChange={setIsWorkflowDialogOpen}
+          projectName={viewingProject.name}
+          workflow={workflow}
+          onSave={(draft) => saveWorkflow(viewingProject.id, draft)}
+          onReset={() => resetWorkflow(viewingProject.id)}
         />
       </AppLayout>
     );
@@ -211,6 +493,8 @@ export default function Projects() {
         onOpenChange={setIsProjectDialogOpen}
         project={isCreatingProject ? null : selectedProject}
         onSave={handleSaveProject}
+        departments={departments}
+        canChooseDepartment={isAdmin}
       />
     </AppLayout>
   );
@@ -0,0 +1,287 @@
+/**
+ * Settings.tsx - Profile and Account Settings
+ *
+ * Lets the signed-in user change their name, avatar, timezone and locale,
+ * and the email and password they sign in with. Email changes only apply
+ * once the new address is confirmed.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAccountSettings, AVATAR_TYPES } from '@/hooks/useAccountSettings';
+import AppLayout from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Upload, Trash2 } from 'lucide-react';
+
+// Value of the timezone and locale selects that stores null (follow the browser)
+const BROWSER_DEFAULT = 'browser';
+
+// ES2020 typings don't know supportedValuesOf yet; older browsers don't have it
+const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+const TIMEZONES = intl.supportedValuesOf?.('timeZone') ?? ['UTC'];
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const LOCALES = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'it-IT', label: 'Italiano (Italia)' },
+  { value: 'nl-NL', label: 'Nederlands (Nederland)' },
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+];
+
+/** Get initials from full name (e.g., "John Doe" -> "JD") */
+const getInitials = (name: string) =>
+  name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+
+export default function Settings() {
+  const { profile } = useAuth();
+  const { uploading, updateProfile, uploadAvatar, removeAvatar, changeEmail, changePassword } = useAccountSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fullName, setFullName] = useState('');
+  const [timezone, setTimezone] = useState(BROWSER_DEFAULT);
+  const [locale, setLocale] = useState(BROWSER_DEFAULT);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingSection, setSavingSection] = useState<'profile' | 'email' | 'password' | null>(null);
+
+  // Start from the saved values, and again whenever the profile is reloaded
+  useEffect(() => {
+    if (!profile) return;
+    setFullName(profile.full_name);
+    setTimezone(profile.timezone || BROWSER_DEFAULT);
+    setLocale(profile.locale || BROWSER_DEFAULT);
+    setEmail(profile.email);
+  }, [profile]);
+
+  const passwordsMatch = password === confirmPassword;
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fullName.trim()) return;
+
+    setSavingSection('profile');
+    try {
+      await updateProfile({
+        full_name: fullName.trim(),
+        timezone: timezone === BROWSER_DEFAULT ? null : timezone,
+        locale: locale === BROWSER_DEFAULT ? null : locale,
+      });
+    } catch {
+      // useAccountSettings already reported the error
+    } finally {
+      setSavingSection(null);
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingSection('email');
+    try {
+      await changeEmail(email.trim());
+    } catch {
+      // useAccountSettings already reported the error
+    } finally {
+      setSavingSection(null);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordsMatch) return;
+
+    setSavingSection('password');
+    try {
+      await changePassword(password);
+      setPassword('');
+      setConfirmPassword('');
+    } catch {
+      // useAccountSettings already reported the error
+    } finally {
+      setSavingSection(null);
+    }
+  };
+
+  const handleAvatarSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) await uploadAvatar(file);
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-2xl space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-bold">Settings</h1>
+          <p className="text-muted-foreground">Manage your profile and account</p>
+        </div>
+
+        {/* Profile */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Profile</CardTitle>
+            <CardDescription>How you appear to others, and how dates and times are shown to you</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center gap-4">
+              <Avatar className="h-16 w-16">
+                {profile?.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.full_name} />}
+                <AvatarFallback className="bg-primary text-primary-foreground text-lg">
+                  {profile ? getInitials(profile.full_name) : '?'}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={AVATAR_TYPES.join(',')}
+                  className="hidden"
+                  onChange={handleAvatarSelected}
+                />
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading} className="gap-2">
+                  {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  Upload Avatar
+                </Button>
+                {profile?.avatar_url && (
+                  <Button variant="ghost" size="sm" onClick={removeAvatar} disabled={uploading} className="gap-2">
+                    <Trash2 className="h-4 w-4" />
+                    Remove
+                  </Button>
+                )}
+                <p className="w-full text-xs text-muted-foreground">PNG, JPEG, GIF or WebP, up to 2 MB</p>
+              </div>
+            </div>
+
+            <form onSubmit={handleSaveProfile} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="fullName">Full Name</Label>
+                <Input id="fullName" value={fullName} onChange={(e) => setFullName(e.target.value)} required />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Timezone</Label>
+                  <Select value={timezone} onValueChange={setTimezone}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BROWSER_DEFAULT}>Browser default ({browserTimezone})</SelectItem>
+                      {TIMEZONES.map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone.replace(/_/g, ' ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Locale</Label>
+                  <Select value={locale} onValueChange={setLocale}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BROWSER_DEFAULT}>Browser default ({navigator.language})</SelectItem>
+                      {LOCALES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={savingSection === 'profile' || !fullName.trim()}>
+                  {savingSection === 'profile' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Profile
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Email */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Email</CardTitle>
+            <CardDescription>The address you sign in with. We'll send a link to confirm a new one.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleChangeEmail} className="flex flex-col sm:flex-row gap-2">
+              <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} required className="flex-1" />
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={savingSection === 'email' || !email.trim() || email.trim() === profile?.email}
+              >
+                {savingSection === 'email' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Change Email
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Password */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleChangePassword} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">New Password</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={6}
+                    autoComplete="new-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm Password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    placeholder="••••••••"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    autoComplete="new-password"
+                  />
+                </div>
+              </div>
+              {!passwordsMatch && confirmPassword && (
+                <p className="text-xs text-destructive">Passwords don't match</p>
+              )}
+              <div className="flex justify-end">
+                <Button type="submit" variant="outline" disabled={savingSection === 'password' || !password || !passwordsMatch}>
+                  {savingSection === 'password' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Change Password
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * TaskDetail.tsx - Task Link Page (/tasks/:taskId)
+ *
+ * Shows one task in the task dialog, over the page it was opened from, or
+ * over the dashboard when the link is loaded directly. The task is loaded by
+ * id, so links survive reloads; tasks that don't exist, aren't visible to
+ * the user or are in the trash or archive get an explanation instead. Closing goes back where the user came from.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTaskPickers } from '@/hooks/useTaskPickers';
+import { useTaskMutations, UpdateTaskOptions } from '@/hooks/useTaskMutations';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
+import { useWorkflows } from '@/hooks/useWorkflows';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { TaskRouteState } from '@/hooks/useOpenTask';
+import { toast } from '@/hooks/use-toast';
+import { queryKeys, fetchTask, fetchProjectTasks, taskExists } from '@/lib/queries';
+import TaskDialog from '@/components/tasks/TaskDialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Task, TaskWithRelations } from '@/types/database';
+
+export default function TaskDetail() {
+  const { taskId = '' } = useParams();
+  const { user } = useAuth();
+  const userId = user?.id ?? '';
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { formatMoment } = useDateFormat();
+  const hasBackground = !!(location.state as TaskRouteState | null)?.backgroundLocation;
+
+  const taskQuery = useQuery({
+    queryKey: queryKeys.task(userId, taskId),
+    queryFn: () => fetchTask(taskId),
+    enabled: !!user,
+  });
+  const task = taskQuery.data;
+
+  // A missing task is either deleted or hidden by RLS; only the database can say which
+  const existsQuery = useQuery({
+    queryKey: queryKeys.taskExists(userId, taskId),
+    queryFn: () => taskExists(taskId),
+    enabled: task === null,
+  });
+
+  const projectId = task?.project_id;
+  const projectTasksQuery = useQuery({
+    queryKey: queryKeys.projectTasks(userId, projectId ?? ''),
+    queryFn: () => fetchProjectTasks(projectId!),
+    enabled: !!projectId,
+  });
+  const { projects, users, allProjects, allUsers } = useTaskPickers();
+  const { statuses } = useWorkflows();
+
+  // Merge other users' changes into the open task as they happen
+  useRealtimeSync();
+
+  const loadError = taskQuery.error || existsQuery.error;
+
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching task:', loadError);
+    toast({ title: 'Error loading task', description: loadError.message, variant: 'destructive' });
+  }, [loadError]);
+
+  // The loaded task first, then its project's tasks and linked tasks as parent and dependency choices
+  const tasks = useMemo<TaskWithRelations[]>(() => {
+    if (!task) return [];
+    const related = [
+      ...(projectTasksQuery.data || []),
+      task.parent_task,
+      ...(task.subtasks || []),
+      ...(task.blocked_by || []),
+      ...(task.blocks || []),
+    ].filter((t): t is Task => !!t && t.id !== task.id);
+    const unique = related.filter((t, index) => related.findIndex((r) => r.id === t.id) === index);
+
+    return [
+      {
+        ...task,
+        project: allProjects.find((p) => p.id === task.project_id) || null,
+        workflow_status: statuses.find((s) => s.id === task.status_id) || null,
+        assigned_user: allUsers.find((u) => u.id === task.assigned_to) || null,
+      },
+      ...unique,
+    ];
+  }, [task, projectTasksQuery.data, allProjects, statuses, allUsers]);
+
+  // The dialog fills its form from the task it opened with; later versions arrive through `tasks`
+  const [openedTask, setOpenedTask] = useState<TaskWithRelations | null>(null);
+  useEffect(() => {
+    if (tasks[0] && tasks[0].id !== openedTask?.id) setOpenedTask(tasks[0]);
+  }, [tasks, openedTask]);
+
+  const {
+    createTask,
+    updateTask,
+    toggleTaskComplete,
+    trashTask,
+    archiveTask,
+    addChecklistItem,
+    toggleChecklistItem,
+    deleteChecklistItem,
+    addDependency,
+    removeDependency,
+    watchTask,
+    canManageTasks,
+  } = useTaskMutations({
+    findTask: (id) => tasks.find((t) => t.id === id),
+  });
+
+  /** Return to the page the task was opened from, or the dashboard for a direct link */
+  const close = () => {
+    if (hasBackground) navigate(-1);
+    else navigate('/dashboard');
+  };
+
+  // Set while this dialog moves its own task to the trash or the archive, so the notice isn't shown for it.
+  // The dialog closes itself (and so this route) once the task is gone.
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  /** Run a trash or archive action on the open task, hiding the dialog while it goes */
+  const removeWith = (action: (id: string) => Promise<void>) => async (id: string) => {
+    setIsRemoving(true);
+    try {
+      await action(id);
+    } catch (error) {
+      setIsRemoving(false);
+      throw error;
+    }
+  };
+
+  const handleSaveTask = async (taskData: Partial<TaskWithRelations>, options?: UpdateTaskOptions) => {
+    await updateTask(taskId, taskData, options);
+  };
+
+  if (isRemoving) return null;
+
+  const closeLabel = hasBackground ? 'Go back' : 'Go to dashboard';
+
+  if (task === null && existsQuery.isSuccess) {
+    const forbidden = existsQuery.data;
+    return (
+      <TaskUnavailable
+        title={forbidden ? 'No access to this task' : 'Task not found'}
+        description={forbidden
+          ? "This task belongs to a project or department you can't view. Ask an admin if you need access."
+          : 'This task may have been deleted for good, or the link is incorrect.'}
+        onClose={close}
+      >
+        <Button onClick={close}>{closeLabel}</Button>
+      </TaskUnavailable>
+    );
+  }
+
+  if (task?.deleted_at) {
+    return (
+      <TaskUnavailable
+        title="This task is in the trash"
+        description={`"${task.title}" was moved to the trash on ${formatMoment(task.deleted_at, { dateStyle: 'medium' })}. Restore it to work on it again.`}
+        onClose={close}
+      >
+        {canManageTasks && <Button variant="outline" onClick={() => navigate('/trash')}>Open trash</Button>}
+        <Button onClick={close}>{closeLabel}</Button>
+      </TaskUnavailable>
+    );
+  }
+
+  if (task?.archived_at) {
+    return (
+      <TaskUnavailable
+        title="This task is archived"
+        description={`"${task.title}" was archived on ${formatMoment(task.archived_at, { dateStyle: 'medium' })}. Unarchive it to work on it again.`}
+        onClose={close}
+      >
+        {canManageTasks && <Button variant="outline" onClick={() => navigate('/archive')}>Open archive</Button>}
+        <Button onClick={close}>{closeLabel}</Button>
+      </TaskUnavailable>
+    );
+  }
+
+  if (!openedTask || openedTask.id !== taskId) return null;
+
+  return (
+    <TaskDialog
+      open
+      onOpenChange={(open) => !open && close()}
+      task={openedTask}
+      projects={projects}
+      users={users}
+      onSave={handleSaveTask}
+      onCreateSubtask={createTask}
+      canEdit={canManageTasks}
+      tasks={tasks}
+      onToggleComplete={toggleTaskComplete}
+      onAddChecklistItem={addChecklistItem}
+      onToggleChecklistItem={toggleChecklistItem}
+      onDeleteChecklistItem={deleteChecklistItem}
+      onAddDependency={addDependency}
+      onRemoveDependency={removeDependency}
+      onDelete={removeWith(trashTask)}
+      onArchive={removeWith(archiveTask)}
+      onWatch={watchTask}
+    />
+  );
+}
+
+/** Explains why a linked task can't be opened */
+function TaskUnavailable({ title, description, onClose, children }: {
+  title: string;
+  description: string;
+  onClose: () => void;
+  children: React.ReactNode; // Footer buttons
+}) {
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">{children}</DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
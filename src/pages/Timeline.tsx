@@ -0,0 +1,408 @@
+/**
+ * Timeline.tsx - Gantt Chart of Tasks
+ *
+ * One bar per task from its start to its due date, grouped by project, with
+ * milestones as diamonds and arrows from each blocker to the tasks it blocks
+ * (red when the blocker ends after the blocked task starts). Dragging a bar
+ * moves both dates; dragging either end changes just that date. Clicking a
+ * bar opens the task.
+ */
+
+import { useState } from 'react';
+import { useTasks } from '@/hooks/useTasks';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOpenTask } from '@/hooks/useOpenTask';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import AppLayout from '@/components/layout/AppLayout';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent } from '@/components/ui/card';
+import { Diamond, FolderKanban, GanttChartSquare } from 'lucide-react';
+import {
+  applyBarDrag,
+  BarDragMode,
+  DAY_WIDTHS,
+  dayOffset,
+  getTaskSpan,
+  getTimelineRange,
+  TimelineZoom,
+} from '@/lib/timeline';
+import { isOverdue } from '@/lib/calendar';
+import { cn } from '@/lib/utils';
+import { Project, TaskWithRelations } from '@/types/database';
+import { addDays, format, isToday } from 'date-fns';
+
+// Bar fill for each priority level (using design system tokens)
+const PRIORITY_BARS = {
+  low: 'bg-priority-low',
+  medium: 'bg-priority-medium',
+  high: 'bg-priority-high',
+  urgent: 'bg-priority-urgent',
+};
+
+const ROW_HEIGHT = 36;
+const LABEL_WIDTH = 240;
+
+type TimelineRow =
+  | { kind: 'project'; key: string; project: Project | null; tasks: TaskWithRelations[] }
+  | { kind: 'task'; key: string; task: TaskWithRelations };
+
+interface BarDrag {
+  taskId: string;
+  mode: BarDragMode;
+  originX: number;
+  days: number;
+}
+
+export default function Timeline() {
+  const { user } = useAuth();
+  const { tasks, projects, dependencies, loading, updateTask, canManageTasks } = useTasks();
+  const openTask = useOpenTask();
+  const { formatDay } = useDateFormat();
+
+  const [zoom, setZoom] = useState<TimelineZoom>('day');
+  const [projectId, setProjectId] = useState('all');
+  const [drag, setDrag] = useState<BarDrag | null>(null);
+  const dayWidth = DAY_WIDTHS[zoom];
+
+  const filteredTasks = tasks.filter((task) =>
+    projectId === 'all' || (projectId === 'none' ? task.project_id === null : task.project_id === projectId)
+  );
+  const plannedTasks = filteredTasks.filter((task) => getTaskSpan(task));
+  const unplannedCount = filteredTasks.length - plannedTasks.length;
+
+  // Dates as shown, including the bar being dragged
+  const spanOf = (task: TaskWithRelations) =>
+    drag?.taskId === task.id ? getTaskSpan({ ...task, ...applyBarDrag(task, drag.mode, drag.days) }) : getTaskSpan(task);
+
+  // Saved dates, not the dragged ones, so the chart doesn't shift under the pointer
+  const range = getTimelineRange(plannedTasks.map((t) => getTaskSpan(t)!));
+  const days = Array.from({ length: range.days }, (_, i) => addDays(range.start, i));
+  const trackWidth = range.days * dayWidth;
+
+  // Project groups in project order, tasks without a project last; tasks by start date
+  const groups: { key: string; project: Project | null }[] = [
+    ...projects.map((project) => ({ key: project.id, project })),
+    { key: 'none', project: null },
+  ];
+  const rows: TimelineRow[] = groups.flatMap(({ key, project }) => {
+    const groupTasks = plannedTasks
+      .filter((t) => (t.project_id ?? 'none') === key)
+      .sort((a, b) => getTaskSpan(a)!.start.getTime() - getTaskSpan(b)!.start.getTime() || a.title.localeCompare(b.title));
+    if (groupTasks.length === 0) return [];
+    return [
+      { kind: 'project' as const, key: `project-${key}`, project, tasks: groupTasks },
+      ...groupTasks.map((task) => ({ kind: 'task' as const, key: task.id, task })),
+    ];
+  });
+
+  // Bar geometry in track coordinates, for the dependency arrows
+  const positions = new Map<string, { left: number; right: number; y: number; start: Date; end: Date }>();
+  rows.forEach((row, index) => {
+    if (row.kind !== 'task') return;
+    const span = spanOf(row.task);
+    if (!span) return;
+    positions.set(row.task.id, {
+      left: dayOffset(range.start, span.start) * dayWidth,
+      right: (dayOffset(range.start, span.end) + 1) * dayWidth,
+      y: index * ROW_HEIGHT + ROW_HEIGHT / 2,
+      start: span.start,
+      end: span.end,
+    });
+  });
+  const arrows = dependencies
+    .map((d) => ({ id: d.id, from: positions.get(d.depends_on_task_id), to: positions.get(d.task_id) }))
+    .filter((a) => a.from && a.to);
+
+  // Assignees reschedule their own tasks; managers any task they can see
+  const canReschedule = (task: TaskWithRelations) =>
+    canManageTasks || (task.assignees || []).some((a) => a.id === user?.id);
+
+  const startDrag = (e: React.PointerEvent, task: TaskWithRelations, mode: BarDragMode) => {
+    e.stopPropagation();
+    if (!canReschedule(task)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ taskId: task.id, mode, originX: e.clientX, days: 0 });
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const daysMoved = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (daysMoved !== drag.days) setDrag({ ...drag, days: daysMoved });
+  };
+
+  /** Save the dragged dates, or open the task when the bar was only clicked */
+  const endDrag = async (task: TaskWithRelations) => {
+    const finished = drag;
+    setDrag(null);
+    if (!finished || finished.days === 0) {
+      openTask(task.id);
+      return;
+    }
+
+    try {
+      await updateTask(task.id, applyBarDrag(task, finished.mode, finished.days));
+    } catch {
+      // useTasks already reported the error
+    }
+  };
+
+  /** The bar (or diamond) of a task, with resize handles */
+  const renderBar = (task: TaskWithRelations) => {
+    const position = positions.get(task.id);
+    if (!position) return null;
+    const draggable = canReschedule(task);
+    const completed = task.status === 'completed';
+    const pointerHandlers = {
+      onPointerMove: moveDrag,
+      onPointerUp: () => endDrag(task),
+      onPointerCancel: () => setDrag(null),
+    };
+
+    if (task.is_milestone) {
+      return (
+        <div
+          className={cn(
+            'absolute top-1/2 h-3.5 w-3.5 -translate-y-1/2 rotate-45 rounded-sm border-2 border-background',
+            PRIORITY_BARS[task.priority],
+            completed && 'opacity-50',
+            isOverdue(task) && 'ring-2 ring-priority-urgent',
+            draggable ? 'cursor-grab' : 'cursor-pointer'
+          )}
+          style={{ left: position.left + dayWidth / 2 - 7 }}
+          title={`${task.title} (milestone)`}
+          onPointerDown={(e) => startDrag(e, task, 'move')}
+          {...pointerHandlers}
+        />
+      );
+    }
+
+    const width = position.right - position.left - 4;
+    return (
+      <div
+        className={cn(
+          'group absolute top-1.5 bottom-1.5 flex items-center overflow-hidden rounded px-2 text-xs text-white shadow-sm',
+          PRIORITY_BARS[task.priority],
+          completed && 'opacity-50',
+          isOverdue(task) && 'ring-2 ring-priority-urgent ring-offset-1',
+          drag?.taskId === task.id && 'opacity-80',
+          draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+        )}
+        style={{ left: position.left + 2, width }}
+        title={`${task.title}: ${formatDay(position.start, { month: 'short', day: 'numeric' })} – ${formatDay(position.end, { month: 'short', day: 'numeric' })}`}
+        onPointerDown={(e) => startDrag(e, task, 'move')}
+        {...pointerHandlers}
+      >
+        {draggable && (
+          <div
+            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-black/20 opacity-0 group-hover:opacity-100"
+            onPointerDown={(e) => startDrag(e, task, 'start')}
+          />
+        )}
+        {width > 48 && <span className="truncate">{task.title}</span>}
+        {draggable && (
+          <div
+            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-black/20 opacity-0 group-hover:opacity-100"
+            onPointerDown={(e) => startDrag(e, task, 'end')}
+          />
+        )}
+      </div>
+    );
+  };
+
+  /** A thin bar from the first to the last day of a project's tasks */
+  const renderProjectSpan = (groupTasks: TaskWithRelations[]) => {
+    const spans = groupTasks.map((t) => positions.get(t.id)).filter(Boolean);
+    const left = Math.min(...spans.map((s) => s.left));
+    const right = Math.max(...spans.map((s) => s.right));
+    return (
+      <div
+        className="absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-muted-foreground/30"
+        style={{ left: left + 2, width: right - left - 4 }}
+      />
+    );
+  };
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-64" />
+          <Skeleton className="h-[480px]" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const todayOffset = dayOffset(range.start, new Date());
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Timeline</h1>
+            <p className="text-muted-foreground">Plan tasks over time. Drag a bar to move it, or its ends to resize it.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger className="w-[180px]"><SelectValue placeholder="Project" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Projects</SelectItem>
+                <SelectItem value="none">No Project</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={zoom}
+              // Radix emits an empty string when the active item is clicked again
+              onValueChange={(v) => v && setZoom(v as TimelineZoom)}
+            >
+              <ToggleGroupItem value="day" className="px-3">Days</ToggleGroupItem>
+              <ToggleGroupItem value="week" className="px-3">Weeks</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <GanttChartSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-medium mb-1">Nothing planned yet</h3>
+              <p className="text-sm text-muted-foreground">Give tasks a start or due date to see them here</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border">
+            <div className="relative" style={{ width: LABEL_WIDTH + trackWidth }}>
+              {/* Date scale */}
+              <div className="flex h-11 border-b bg-muted/40">
+                <div
+                  className="sticky left-0 z-20 flex shrink-0 items-end border-r bg-muted px-3 pb-1.5 text-xs font-medium text-muted-foreground"
+                  style={{ width: LABEL_WIDTH }}
+                >
+                  Task
+                </div>
+                <div className="relative" style={{ width: trackWidth }}>
+                  {days.map((day, i) => {
+                    const startsMonth = i === 0 || day.getDate() === 1;
+                    const labeled = zoom === 'day' || day.getDay() === 0;
+                    return (
+                      <div key={day.toISOString()} className="absolute inset-y-0" style={{ left: i * dayWidth, width: dayWidth }}>
+                        {startsMonth && (
+                          <span className="absolute left-1 top-1 whitespace-nowrap text-xs font-medium">
+                            {formatDay(day, { month: 'short', year: 'numeric' })}
+                          </span>
+                        )}
+                        {labeled && (
+                          <span
+                            className={cn(
+                              'absolute bottom-1 left-0 whitespace-nowrap text-[10px] text-muted-foreground',
+                              zoom === 'day' && 'w-full text-center',
+                              isToday(day) && 'font-semibold text-primary'
+                            )}
+                          >
+                            {zoom === 'day' ? format(day, 'd') : formatDay(day, { month: 'short', day: 'numeric' })}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Rows */}
+              {rows.map((row) => (
+                <div key={row.key} className={cn('flex border-b last:border-b-0', row.kind === 'project' && 'bg-muted/20')} style={{ height: ROW_HEIGHT }}>
+                  <div
+                    className="sticky left-0 z-20 flex shrink-0 items-center gap-2 border-r bg-background px-3 text-sm"
+                    style={{ width: LABEL_WIDTH }}
+                  >
+                    {row.kind === 'project' ? (
+                      <>
+                        <FolderKanban className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate font-medium">{row.project?.name ?? 'No project'}</span>
+                      </>
+                    ) : (
+                      <button
+                        type="button"
+                        className={cn(
+                          'flex min-w-0 items-center gap-1.5 pl-4 text-left hover:underline',
+                          row.task.status === 'completed' && 'text-muted-foreground line-through'
+                        )}
+                        onClick={() => openTask(row.task.id)}
+                      >
+                        {row.task.is_milestone && <Diamond className="h-3 w-3 shrink-0" />}
+                        <span className="truncate">{row.task.title}</span>
+                      </button>
+                    )}
+                  </div>
+                  <div className="relative" style={{ width: trackWidth }}>
+                    {row.kind === 'project' ? renderProjectSpan(row.tasks) : renderBar(row.task)}
+                  </div>
+                </div>
+              ))}
+
+              {/* Today line and dependency arrows, drawn over the rows */}
+              <svg
+                className="pointer-events-none absolute z-10"
+                style={{ top: 44, left: LABEL_WIDTH }}
+                width={trackWidth}
+                height={rows.length * ROW_HEIGHT}
+              >
+                <defs>
+                  <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L8,4 L0,8 z" className="fill-muted-foreground" />
+                  </marker>
+                  <marker id="timeline-arrow-late" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L8,4 L0,8 z" className="fill-priority-urgent" />
+                  </marker>
+                </defs>
+                {todayOffset >= 0 && todayOffset < range.days && (
+                  <line
+                    x1={(todayOffset + 0.5) * dayWidth}
+                    x2={(todayOffset + 0.5) * dayWidth}
+                    y1={0}
+                    y2={rows.length * ROW_HEIGHT}
+                    className="stroke-primary/40"
+                    strokeDasharray="4 3"
+                  />
+                )}
+                {arrows.map(({ id, from, to }) => {
+                  const late = from.end.getTime() >= to.start.getTime();
+                  const exitX = from.right + 6;
+                  const path = to.left - 6 >= exitX
+                    ? `M ${from.right} ${from.y} H ${exitX} V ${to.y} H ${to.left}`
+                    : `M ${from.right} ${from.y} H ${exitX} V ${(from.y + to.y) / 2} H ${to.left - 6} V ${to.y} H ${to.left}`;
+                  return (
+                    <path
+                      key={id}
+                      d={path}
+                      fill="none"
+                      strokeWidth={1.5}
+                      className={late ? 'stroke-priority-urgent' : 'stroke-muted-foreground'}
+                      markerEnd={`url(#${late ? 'timeline-arrow-late' : 'timeline-arrow'})`}
+                    />
+                  );
+                })}
+              </svg>
+            </div>
+          </div>
+        )}
+
+        {unplannedCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {unplannedCount} task{unplannedCount === 1 ? ' has' : 's have'} neither a start nor a due date and {unplannedCount === 1 ? 'is' : 'are'} not shown.
+          </p>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
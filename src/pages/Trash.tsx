@@ -0,0 +1,210 @@
+/**
+ * Trash.tsx - Trashed Projects and Tasks
+ *
+ * Lists what managers moved to the trash, newest first. Each item can be
+ * restored together with everything trashed alongside it, or purged for
+ * good after a confirmation that says how many tasks go with it.
+ */
+
+import { useState } from 'react';
+import { useTrash } from '@/hooks/useTrash';
+import { useTaskPickers } from '@/hooks/useTaskPickers';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import AppLayout from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { CheckSquare, FolderKanban, RotateCcw, Trash2 } from 'lucide-react';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export default function Trash() {
+  const {
+    projects, tasks, loading,
+    restoreTask, restoreProject, purgeTask, purgeProject,
+    canPurgeTasks, canPurgeProjects,
+  } = useTrash();
+  const { allProjects, allUsers } = useTaskPickers();
+  const { formatMoment } = useDateFormat();
+
+  /** "Trashed Jan 5, 2026 by Jane Doe" */
+  const trashedLabel = (deletedAt: string | null, deletedBy: string | null) => {
+    const who = allUsers.find((u) => u.id === deletedBy)?.full_name;
+    const when = deletedAt ? formatMoment(deletedAt, { dateStyle: 'medium' }) : '';
+    return `Trashed ${when}${who ? ` by ${who}` : ''}`;
+  };
+
+  const projectName = (projectId: string | null) =>
+    allProjects.find((p) => p.id === projectId)?.name ??
+    projects.find((p) => p.project.id === projectId)?.project.name;
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-20" />)}
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-bold">Trash</h1>
+          <p className="text-muted-foreground">Restore deleted projects and tasks, or remove them for good</p>
+        </div>
+
+        {projects.length === 0 && tasks.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Trash2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-medium mb-1">The trash is empty</h3>
+              <p className="text-sm text-muted-foreground">Deleted projects and tasks show up here</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {projects.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <FolderKanban className="h-4 w-4 text-primary" />
+                    Projects
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {projects.map(({ project, tasks: projectTasks, purgeCount }) => (
+                    <TrashRow
+                      key={project.id}
+                      title={project.name}
+                      subtitle={trashedLabel(project.deleted_at, project.deleted_by)}
+                      badge={projectTasks.length > 0 ? plural(projectTasks.length, 'task') : null}
+                      onRestore={() => restoreProject(project.id)}
+                      onPurge={canPurgeProjects ? () => purgeProject(project.id) : undefined}
+                      purgeTitle={`Delete "${project.name}" forever?`}
+                      purgeDescription={
+                        purgeCount > 0
+                          ? `The project and ${plural(purgeCount, 'task')} in it, with their subtasks, comments and attached files, will be permanently deleted.`
+                          : 'The project will be permanently deleted.'
+                      }
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {tasks.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <CheckSquare className="h-4 w-4 text-primary" />
+                    Tasks
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {tasks.map(({ task, subtasks }) => {
+                    const project = projectName(task.project_id);
+                    return (
+                      <TrashRow
+                        key={task.id}
+                        title={task.title}
+                        subtitle={`${project ? `${project} · ` : ''}${trashedLabel(task.deleted_at, task.deleted_by)}`}
+                        badge={subtasks.length > 0 ? plural(subtasks.length, 'subtask') : null}
+                        onRestore={() => restoreTask(task.id)}
+                        onPurge={canPurgeTasks ? () => purgeTask(task.id) : undefined}
+                        purgeTitle={`Delete "${task.title}" forever?`}
+                        purgeDescription={
+                          subtasks.length > 0
+                            ? `The task and ${plural(subtasks.length, 'subtask')}, with their comments and attached files, will be permanently deleted.`
+                            : 'The task, its comments and attached files will be permanently deleted.'
+                        }
+                      />
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
+
+interface TrashRowProps {
+  title: string;
+  subtitle: string;
+  badge: string | null; // How many tasks come back with a restore
+  onRestore: () => Promise<void>;
+  onPurge?: () => Promise<void>; // Missing when the user isn't allowed to purge
+  purgeTitle: string;
+  purgeDescription: string;
+}
+
+/** One trashed item with its restore and purge actions */
+function TrashRow({ title, subtitle, badge, onRestore, onPurge, purgeTitle, purgeDescription }: TrashRowProps) {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch {
+      // useTrash already reported the error
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <p className="truncate font-medium">{title}</p>
+          {badge && <Badge variant="secondary">{badge}</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">{subtitle}</p>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => run(onRestore)} disabled={isBusy}>
+          <RotateCcw className="h-4 w-4" />
+          Restore
+        </Button>
+        {onPurge && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-2 text-destructive" disabled={isBusy}>
+                <Trash2 className="h-4 w-4" />
+                Delete forever
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{purgeTitle}</AlertDialogTitle>
+                <AlertDialogDescription>{purgeDescription} This cannot be undone.</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => run(onPurge)}>Delete forever</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,13 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useDepartments } from '@/hooks/useDepartments';
+import { useDateFormat } from '@/hooks/useDateFormat';
 import AppLayout from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -24,6 +27,7 @@ import {
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
@@ -31,23 +35,55 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from '@/hooks/use-toast';
-import { Search, UserCog, Shield, Users, Loader2 } from 'lucide-react';
-import { Profile, AppRole, UserRole } from '@/types/database';
+import {
+  Search, UserCog, Shield, Users, Loader2, Building2, Plus, History, Mail, Copy, RefreshCw, X, UserX, UserCheck,
+} from 'lucide-react';
+import { addDays, isPast } from 'date-fns';
+import { Profile, AppRole, RoleChange, Invitation, Task } from '@/types/database';
 
 interface UserWithRole extends Profile {
   role: AppRole;
 }
 
+// How long an invite link stays valid, matching the invitations.expires_at default
+const INVITE_VALID_DAYS = 14;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Steps of the offboarding wizard
+type OffboardStep = 'review' | 'reassign' | 'confirm';
+
+type OpenTask = Pick<Task, 'id' | 'title' | 'due_date'>;
+
+/** Signup link that applies an invitation */
+const getInviteLink = (invitation: Invitation) => `${window.location.origin}/auth?invite=${invitation.token}`;
+
 export default function UserManagement() {
   const { isAdmin, user } = useAuth();
   const navigate = useNavigate();
+  const { formatDay, formatMoment, formatRelative } = useDateFormat();
   const [users, setUsers] = useState<UserWithRole[]>([]);
+  const [roleChanges, setRoleChanges] = useState<RoleChange[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedUser, setSelectedUser] = useState<UserWithRole | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newRole, setNewRole] = useState<AppRole>('employee');
+  const [newDepartmentId, setNewDepartmentId] = useState('none');
   const [isSaving, setIsSaving] = useState(false);
+  const { departments, createDepartment } = useDepartments();
+  const [isDepartmentDialogOpen, setIsDepartmentDialogOpen] = useState(false);
+  const [departmentName, setDepartmentName] = useState('');
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [inviteEmails, setInviteEmails] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('employee');
+  const [inviteDepartmentId, setInviteDepartmentId] = useState('none');
+  const [linksToShare, setLinksToShare] = useState<Invitation[] | null>(null);
+  const [offboardUser, setOffboardUser] = useState<UserWithRole | null>(null);
+  const [offboardStep, setOffboardStep] = useState<OffboardStep>('review');
+  const [offboardTasks, setOffboardTasks] = useState<OpenTask[] | null>(null);
+  const [reassignTo, setReassignTo] = useState('none');
 
   useEffect(() => {
     if (!isAdmin) {
@@ -72,6 +108,23 @@ export default function UserManagement() {
 
       if (rolesError) throw rolesError;
 
+      const { data: changes, error: changesError } = await supabase
+        .from('role_changes')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (changesError) throw changesError;
+
+      const { data: pendingInvitations, error: invitationsError } = await supabase
+        .from('invitations')
+        .select('*')
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (invitationsError) throw invitationsError;
+
       const usersWithRoles: UserWithRole[] = (profiles || []).map((profile: Profile) => {
         const userRole = roles?.find((r: any) => r.user_id === profile.id);
         return {
@@ -81,6 +134,8 @@ export default function UserManagement() {
       });
 
       setUsers(usersWithRoles);
+      setRoleChanges(changes || []);
+      setInvitations(pendingInvitations || []);
     } catch (error: any) {
       console.error('Error fetching users:', error);
       toast({
@@ -96,33 +151,39 @@ export default function UserManagement() {
   const handleEditUser = (user: UserWithRole) => {
     setSelectedUser(user);
     setNewRole(user.role);
+    setNewDepartmentId(user.department_id || 'none');
     setIsDialogOpen(true);
   };
 
-  const handleSaveRole = async () => {
+  const handleSaveUser = async () => {
     if (!selectedUser) return;
 
     setIsSaving(true);
     try {
-      // Delete existing role
-      await supabase
-        .from('user_roles')
-        .delete()
-        .eq('user_id', selectedUser.id);
+      // Update department membership
+      const departmentId = newDepartmentId === 'none' ? null : newDepartmentId;
+      if (departmentId !== selectedUser.department_id) {
+        const { error: departmentError } = await supabase
+          .from('profiles')
+          .update({ department_id: departmentId })
+          .eq('id', selectedUser.id);
 
-      // Insert new role
-      const { error } = await supabase
-        .from('user_roles')
-        .insert({ user_id: selectedUser.id, role: newRole });
+        if (departmentError) throw departmentError;
+      }
 
-      if (error) throw error;
+      // Swap the role in one transaction; the database keeps at least one admin and logs the change
+      if (newRole !== selectedUser.role) {
+        const { error } = await supabase.rpc('change_user_role', { _user_id: selectedUser.id, _role: newRole });
+
+        if (error) throw error;
+      }
 
-      toast({ title: 'Role updated successfully' });
+      toast({ title: 'User updated successfully' });
       setIsDialogOpen(false);
       await fetchUsers();
     } catch (error: any) {
       toast({
-        title: 'Error updating role',
+        title: 'Error updating user',
         description: error.message,
         variant: 'destructive',
       });
@@ -131,6 +192,231 @@ export default function UserManagement() {
     }
   };
 
+  const handleCreateDepartment = async () => {
+    if (!departmentName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await createDepartment({ name: departmentName.trim() });
+      setDepartmentName('');
+      setIsDepartmentDialogOpen(false);
+    } catch {
+      // createDepartment already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openInviteDialog = () => {
+    setInviteEmails('');
+    setInviteRole('employee');
+    setInviteDepartmentId('none');
+    setIsInviteDialogOpen(true);
+  };
+
+  // Emails separated by commas, semicolons or whitespace, without duplicates
+  const parsedInviteEmails = [...new Set(inviteEmails.split(/[\s,;]+/).map((e) => e.trim().toLowerCase()).filter(Boolean))];
+  const invalidInviteEmails = parsedInviteEmails.filter((e) => !EMAIL_PATTERN.test(e));
+
+  /**
+   * Copy signup links to the clipboard; no email is sent, so the admin shares them.
+   * When the clipboard isn't available the links are shown to copy by hand.
+   */
+  const copyInviteLinks = async (created: Invitation[]) => {
+    const text = created.length === 1
+      ? getInviteLink(created[0])
+      : created.map((i) => `${i.email}: ${getInviteLink(i)}`).join('\n');
+    try {
+      await navigator.clipboard.writeText(text);
+      return true;
+    } catch {
+      setLinksToShare(created);
+      return false;
+    }
+  };
+
+  const handleInviteUsers = async () => {
+    if (parsedInviteEmails.length === 0 || invalidInviteEmails.length > 0) return;
+
+    // People who already have an account or an open invitation are skipped; an expired
+    // invitation is replaced by the new one (see replace_expired_invitation)
+    const openInvitations = invitations.filter((i) => !isPast(new Date(i.expires_at)));
+    const taken = new Set([...users, ...openInvitations].map((u) => u.email.toLowerCase()));
+    const emails = parsedInviteEmails.filter((e) => !taken.has(e));
+    const skipped = parsedInviteEmails.length - emails.length;
+
+    if (emails.length === 0) {
+      toast({ title: 'Nothing to invite', description: 'Everyone listed already has an account or a pending invitation' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const departmentId = inviteDepartmentId === 'none' ? null : inviteDepartmentId;
+      const { data, error } = await supabase
+        .from('invitations')
+        .insert(emails.map((email) => ({ email, role: inviteRole, department_id: departmentId, invited_by: user?.id })))
+        .select();
+
+      if (error) throw error;
+
+      const copied = await copyInviteLinks(data);
+      toast({
+        title: `${data.length} invite ${data.length === 1 ? 'link' : 'links'} created`,
+        description: [
+          copied ? 'Copied to the clipboard; send each person their link.' : 'Copy each link and send it to its person.',
+          skipped > 0 ? `${skipped} already invited or registered.` : '',
+        ].join(' ').trim(),
+      });
+      setIsInviteDialogOpen(false);
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error creating invitations',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyInvite = async (invitation: Invitation) => {
+    if (await copyInviteLinks([invitation])) {
+      toast({ title: 'Invite link copied' });
+    }
+  };
+
+  // Renewing issues a new link with a fresh expiry, so an old one that leaked stops working
+  const handleRenewInvite = async (invitation: Invitation) => {
+    try {
+      const now = new Date();
+      const { data, error } = await supabase
+        .from('invitations')
+        .update({
+          token: crypto.randomUUID(),
+          sent_at: now.toISOString(),
+          expires_at: addDays(now, INVITE_VALID_DAYS).toISOString(),
+        })
+        .eq('id', invitation.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const copied = await copyInviteLinks([data]);
+      toast({
+        title: 'Invite link renewed',
+        description: copied ? 'The new link was copied to the clipboard; the old one no longer works' : 'The old link no longer works',
+      });
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error renewing invite link',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRevokeInvite = async (invitation: Invitation) => {
+    try {
+      const { error } = await supabase
+        .from('invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      toast({ title: 'Invitation revoked' });
+      setInvitations((current) => current.filter((i) => i.id !== invitation.id));
+    } catch (error) {
+      toast({
+        title: 'Error revoking invitation',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /** Open the offboarding wizard with the user's open tasks */
+  const openOffboarding = async (target: UserWithRole) => {
+    setOffboardUser(target);
+    setOffboardStep('review');
+    setOffboardTasks(null);
+    setReassignTo('none');
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, title, due_date')
+      .contains('assignee_ids', [target.id])
+      .neq('status', 'completed')
+      .is('deleted_at', null)
+      .order('due_date', { ascending: true, nullsFirst: false });
+
+    if (error) {
+      toast({ title: 'Error loading tasks', description: error.message, variant: 'destructive' });
+      setOffboardUser(null);
+      return;
+    }
+    setOffboardTasks(data || []);
+  };
+
+  const handleDeactivateUser = async () => {
+    if (!offboardUser) return;
+
+    setIsSaving(true);
+    try {
+      // Reassigns open tasks and deactivates in one transaction
+      const { data: reassigned, error } = await supabase.rpc('deactivate_user', {
+        _user_id: offboardUser.id,
+        _reassign_to: reassignTo === 'none' ? undefined : reassignTo,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: `${offboardUser.full_name} was deactivated`,
+        description: reassigned
+          ? `${reassigned} open ${reassigned === 1 ? 'task' : 'tasks'} ${reassignTo === 'none' ? 'unassigned' : `reassigned to ${getUserName(reassignTo)}`}`
+          : undefined,
+      });
+      setOffboardUser(null);
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error deactivating user',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReactivateUser = async (target: UserWithRole) => {
+    try {
+      const { error } = await supabase.rpc('reactivate_user', { _user_id: target.id });
+
+      if (error) throw error;
+
+      toast({ title: `${target.full_name} can sign in again` });
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error reactivating user',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getUserName = (userId: string | null) =>
+    users.find((u) => u.id === userId)?.full_name || 'A former user';
+
+  const getDepartmentName = (departmentId: string | null) =>
+    departments.find((d) => d.id === departmentId)?.name;
+
   const filteredUsers = users.filter(
     (u) =>
       u.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -159,11 +445,13 @@ export default function UserManagement() {
     }
   };
 
+  // Stats count people who can still sign in
+  const activeUsers = users.filter((u) => !u.deactivated_at);
   const stats = {
-    total: users.length,
-    admins: users.filter((u) => u.role === 'admin').length,
-    departmentHeads: users.filter((u) => u.role === 'department_head').length,
-    employees: users.filter((u) => u.role === 'employee').length,
+    total: activeUsers.length,
+    admins: activeUsers.filter((u) => u.role === 'admin').length,
+    departmentHeads: activeUsers.filter((u) => u.role === 'department_head').length,
+    employees: activeUsers.filter((u) => u.role === 'employee').length,
   };
 
   if (loading) {
@@ -185,9 +473,21 @@ export default function UserManagement() {
     <AppLayout>
       <div className="space-y-6 animate-fade-in">
         {/* Header */}
-        <div>
-          <h1 className="text-2xl font-bold">User Management</h1>
-          <p className="text-muted-foreground">Manage user accounts and roles</p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">User Management</h1>
+            <p className="text-muted-foreground">Manage user accounts, roles and departments</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsDepartmentDialogOpen(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Department
+            </Button>
+            <Button onClick={openInviteDialog} className="gap-2">
+              <Mail className="h-4 w-4" />
+              Create Invite Links
+            </Button>
+          </div>
         </div>
 
         {/* Stats */}
@@ -266,28 +566,65 @@ export default function UserManagement() {
                   <TableHead>Name</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Role</TableHead>
+                  <TableHead>Department</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredUsers.map((u) => (
-                  <TableRow key={u.id}>
-                    <TableCell className="font-medium">{u.full_name}</TableCell>
+                  <TableRow key={u.id} className={u.deactivated_at ? 'opacity-60' : undefined}>
+                    <TableCell className="font-medium">
+                      {u.full_name}
+                      {u.deactivated_at && (
+                        <Badge variant="outline" className="ml-2" title={`Since ${formatMoment(u.deactivated_at, { dateStyle: 'medium' })}`}>
+                          Deactivated
+                        </Badge>
+                      )}
+                    </TableCell>
                     <TableCell className="text-muted-foreground">{u.email}</TableCell>
                     <TableCell>
                       <Badge variant={getRoleBadgeVariant(u.role)}>
                         {getRoleLabel(u.role)}
                       </Badge>
                     </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {getDepartmentName(u.department_id) ? (
+                        <span className="flex items-center gap-1.5">
+                          <Building2 className="h-3.5 w-3.5" />
+                          {getDepartmentName(u.department_id)}
+                        </span>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEditUser(u)}
-                        disabled={u.id === user?.id}
-                      >
-                        Edit Role
-                      </Button>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEditUser(u)}
+                          disabled={u.id === user?.id || !!u.deactivated_at}
+                        >
+                          Edit User
+                        </Button>
+                        {u.deactivated_at ? (
+                          <Button variant="ghost" size="sm" onClick={() => handleReactivateUser(u)} className="gap-1.5">
+                            <UserCheck className="h-3.5 w-3.5" />
+                            Reactivate
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openOffboarding(u)}
+                            disabled={u.id === user?.id}
+                            className="gap-1.5 text-destructive hover:text-destructive"
+                          >
+                            <UserX className="h-3.5 w-3.5" />
+                            Deactivate
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -295,12 +632,116 @@ export default function UserManagement() {
             </Table>
           </CardContent>
         </Card>
+
+        {/* Pending Invitations */}
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Mail className="h-4 w-4" />
+                Pending Invitations
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Link Issued</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => {
+                    const expired = isPast(new Date(invitation.expires_at));
+                    return (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium">{invitation.email}</TableCell>
+                        <TableCell>
+                          <Badge variant={getRoleBadgeVariant(invitation.role)}>
+                            {getRoleLabel(invitation.role)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {getDepartmentName(invitation.department_id) || '—'}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          <span title={formatMoment(invitation.sent_at)}>
+                            {formatRelative(invitation.sent_at)}
+                          </span>
+                          {expired && <Badge variant="outline" className="ml-2">Expired</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {!expired && (
+                              <Button variant="ghost" size="sm" onClick={() => handleCopyInvite(invitation)} className="gap-1.5">
+                                <Copy className="h-3.5 w-3.5" />
+                                Copy invite link
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => handleRenewInvite(invitation)} className="gap-1.5">
+                              <RefreshCw className="h-3.5 w-3.5" />
+                              Renew link
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRevokeInvite(invitation)}
+                              className="gap-1.5 text-destructive hover:text-destructive"
+                            >
+                              <X className="h-3.5 w-3.5" />
+                              Revoke
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Role History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <History className="h-4 w-4" />
+              Role History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {roleChanges.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No roles have been changed yet</p>
+            ) : (
+              <ul className="divide-y">
+                {roleChanges.map((change) => (
+                  <li key={change.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 py-2 text-sm">
+                    <span>
+                      <span className="font-medium">{getUserName(change.changed_by)}</span>
+                      {' changed '}
+                      <span className="font-medium">{getUserName(change.user_id)}</span>
+                      {change.old_role ? ` from ${getRoleLabel(change.old_role)}` : ''}
+                      {` to ${getRoleLabel(change.new_role)}`}
+                    </span>
+                    <span className="text-xs text-muted-foreground" title={formatMoment(change.created_at)}>
+                      {formatRelative(change.created_at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Edit User Role</DialogTitle>
+            <DialogTitle>Edit User</DialogTitle>
           </DialogHeader>
 
           <div className="space-y-4 py-4">
@@ -323,19 +764,276 @@ export default function UserManagement() {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={newDepartmentId} onValueChange={setNewDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No department</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSaveRole} disabled={isSaving}>
+            <Button onClick={handleSaveUser} disabled={isSaving}>
               {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Save Changes
             </Button>
           </div>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!offboardUser} onOpenChange={(open) => !open && setOffboardUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Offboard {offboardUser?.full_name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <p className="text-xs text-muted-foreground">
+              Step {offboardStep === 'review' ? 1 : offboardStep === 'reassign' ? 2 : 3} of 3
+            </p>
+
+            {offboardStep === 'review' && (
+              offboardTasks === null ? (
+                <Skeleton className="h-24" />
+              ) : offboardTasks.length === 0 ? (
+                <p className="text-sm">{offboardUser?.full_name} has no open tasks.</p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    {offboardUser?.full_name} is assigned to {offboardTasks.length} open {offboardTasks.length === 1 ? 'task' : 'tasks'}:
+                  </p>
+                  <ul className="max-h-48 overflow-y-auto divide-y rounded-md border text-sm">
+                    {offboardTasks.map((t) => (
+                      <li key={t.id} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                        <span className="truncate">{t.title}</span>
+                        {t.due_date && (
+                          <span className="shrink-0 text-xs text-muted-foreground">{formatDay(t.due_date, { month: 'short', day: 'numeric' })}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            )}
+
+            {offboardStep === 'reassign' && (
+              <div className="space-y-2">
+                <Label>Reassign open tasks to</Label>
+                <Select value={reassignTo} onValueChange={setReassignTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {activeUsers.filter((u) => u.id !== offboardUser?.id).map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Tasks shared with other assignees stay with them either way.
+                </p>
+              </div>
+            )}
+
+            {offboardStep === 'confirm' && (
+              <ul className="list-disc pl-5 space-y-1 text-sm">
+                <li>{offboardUser?.full_name} will no longer be able to sign in</li>
+                {!!offboardTasks?.length && (
+                  <li>
+                    {offboardTasks.length} open {offboardTasks.length === 1 ? 'task' : 'tasks'}{' '}
+                    {reassignTo === 'none' ? 'will lose this assignee' : `will be reassigned to ${getUserName(reassignTo)}`}
+                  </li>
+                )}
+                <li>They stop watching open tasks; their comments and history stay</li>
+              </ul>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {offboardStep === 'review' ? (
+              <Button variant="outline" onClick={() => setOffboardUser(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setOffboardStep(offboardStep === 'confirm' && offboardTasks?.length ? 'reassign' : 'review')}>
+                Back
+              </Button>
+            )}
+            {offboardStep === 'confirm' ? (
+              <Button variant="destructive" onClick={handleDeactivateUser} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Deactivate User
+              </Button>
+            ) : (
+              <Button
+                onClick={() => setOffboardStep(offboardStep === 'review' && offboardTasks?.length ? 'reassign' : 'confirm')}
+                disabled={offboardTasks === null}
+              >
+                Next
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Create Invite Links</DialogTitle>
+            <DialogDescription>
+              No email is sent. Each person gets their own signup link for you to share with them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="inviteEmails">Emails</Label>
+              <Textarea
+                id="inviteEmails"
+                value={inviteEmails}
+                onChange={(e) => setInviteEmails(e.target.value)}
+                placeholder="jane@example.com, sam@example.com"
+                rows={4}
+              />
+              {invalidInviteEmails.length > 0 ? (
+                <p className="text-xs text-destructive">Not a valid email: {invalidInviteEmails.join(', ')}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Separate addresses with commas or new lines. Links are valid for {INVITE_VALID_DAYS} days; an address whose invitation expired gets a new one.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as AppRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="employee">Employee</SelectItem>
+                  <SelectItem value="department_head">Department Head</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={inviteDepartmentId} onValueChange={setInviteDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No department</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsInviteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleInviteUsers}
+              disabled={isSaving || parsedInviteEmails.length === 0 || invalidInviteEmails.length > 0}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Links
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Shown when the clipboard isn't available, so links can still be copied by hand */}
+      <Dialog open={!!linksToShare} onOpenChange={(open) => !open && setLinksToShare(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Invite Links</DialogTitle>
+            <DialogDescription>
+              Copying to the clipboard didn't work. Select each link, copy it and send it to its person.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {linksToShare?.map((invitation) => (
+              <div key={invitation.id} className="space-y-2">
+                <Label htmlFor={`invite-link-${invitation.id}`}>{invitation.email}</Label>
+                <Input
+                  id={`invite-link-${invitation.id}`}
+                  value={getInviteLink(invitation)}
+                  readOnly
+                  onFocus={(e) => e.target.select()}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => setLinksToShare(null)}>Done</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDepartmentDialogOpen} onOpenChange={setIsDepartmentDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Create Department</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="departmentName">Department Name</Label>
+              <Input
+                id="departmentName"
+                value={departmentName}
+                onChange={(e) => setDepartmentName(e.target.value)}
+                placeholder="e.g. Engineering"
+              />
+            </div>
+            {departments.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {departments.map((department) => (
+                  <Badge key={department.id} variant="secondary">{department.name}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsDepartmentDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateDepartment} disabled={isSaving || !departmentName.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Department
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </AppLayout>
   );
 }
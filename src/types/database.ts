@@ -1,11 +1,44 @@
 export type AppRole = 'admin' | 'department_head' | 'employee';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
-export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+export type TaskStatus = 'pending' | 'in_progress' | 'completed'; // Status category; workflows name their own statuses
+export type StatusColor = 'gray' | 'blue' | 'green' | 'amber' | 'red' | 'purple';
+export type LabelColor = StatusColor; // Labels share the status palette
+export type NotificationType = 'mention' | 'assignment' | 'due_date' | 'completion' | 'comment';
+export type TaskEventType = 'created' | 'updated';
+export type TaskEventField = 'status' | 'priority' | 'assigned_to' | 'start_date' | 'due_date' | 'project_id' | 'description';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// How a recurring task repeats. Stored as JSON in tasks.recurrence.
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number;                              // Every N days/weeks/months
+  weekdays?: number[];                           // Weekly: 0 = Sunday ... 6 = Saturday
+  monthly_mode?: 'day_of_month' | 'nth_weekday'; // Monthly: "on the 15th" or "on the 2nd Tuesday"
+  day_of_month?: number;                         // 1-31, clamped to the month's length
+  nth?: number;                                  // 1-4, or -1 for the last weekday of the month
+  weekday?: number;                              // Weekday for nth_weekday
+  until?: string | null;                         // Last allowed due date (yyyy-MM-dd)
+  count?: number | null;                         // Total number of occurrences
+};
+
+export interface Department {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
 
 export interface Profile {
   id: string;
   email: string;
   full_name: string;
+  department_id: string | null;
+  avatar_url: string | null;     // Public URL in the avatars bucket
+  timezone: string | null;       // IANA zone, e.g. Europe/Berlin; null follows the browser
+  locale: string | null;         // BCP 47 tag, e.g. en-GB; null follows the browser
+  deactivated_at: string | null; // Set when an admin offboards the user; they can't sign in
+  deactivated_by: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -16,13 +49,44 @@ export interface UserRole {
   role: AppRole;
 }
 
+// Audit row written by change_user_role
+export interface RoleChange {
+  id: string;
+  user_id: string;
+  changed_by: string | null;
+  old_role: AppRole | null; // Null when the user had no role row
+  new_role: AppRole;
+  created_at: string;
+}
+
+// A signup link, shared by an admin, that gives the new account a role and department
+export interface Invitation {
+  id: string;
+  email: string;
+  role: AppRole;
+  department_id: string | null;
+  token: string;              // Goes in the signup link as ?invite=
+  invited_by: string | null;
+  created_at: string;
+  sent_at: string;            // When the current link was issued (renewing issues a new one)
+  expires_at: string;
+  accepted_at: string | null; // Set by handle_new_user when the invitee signs up
+  accepted_by: string | null;
+  revoked_at: string | null;
+}
+
 export interface Project {
   id: string;
   name: string;
   description: string | null;
+  department_id: string | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // Set while the project is in the trash
+  deleted_by: string | null;
+  archived_at: string | null; // Set while the project is archived; its lists leave it out
+  archived_by: string | null;
 }
 
 export interface Task {
@@ -30,18 +94,178 @@ export interface Task {
   title: string;
   description: string | null;
   priority: TaskPriority;
-  status: TaskStatus;
+  status: TaskStatus;  // Category of status_id, kept in step by the database
+  status_id: string;   // Status in the task's workflow
   project_id: string | null;
+  parent_task_id: string | null;
   assigned_to: string | null;
   created_by: string | null;
+  start_date: string | null; // When work begins; never after due_date
   due_date: string | null;
+  is_milestone: boolean;     // A point in time on the plan; has no start date
+  override_blockers: boolean; // Sent with a status change to start/finish despite open blockers; never stored
   completed_at: string | null;
+  recurrence: RecurrenceRule | null;
+  recurrence_series_id: string | null;
+  occurrence_number: number;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null; // Set by the database to whoever last changed the task
+  deleted_at: string | null; // Set while the task is in the trash
+  deleted_by: string | null;
+  archived_at: string | null; // Set while the task is archived; its lists leave it out
+  archived_by: string | null;
+}
+
+export interface TaskChecklistItem {
+  id: string;
+  task_id: string;
+  title: string;
+  is_done: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskDependency {
+  id: string;
+  task_id: string;            // The blocked task
+  depends_on_task_id: string; // The task blocking it
+  created_by: string | null;
+  created_at: string;
+}
+
+// One status of a workflow. The default workflow (project_id null) applies to
+// tasks without a project and to projects that haven't set up their own.
+export interface WorkflowStatus {
+  id: string;
+  project_id: string | null;
+  name: string;
+  category: TaskStatus;
+  color: StatusColor;
+  position: number;
+  created_at: string;
+}
+
+// An allowed move between two statuses of the same workflow
+export interface WorkflowTransition {
+  from_status_id: string;
+  to_status_id: string;
+}
+
+// An organization-wide tag that any task can carry
+export interface Label {
+  id: string;
+  name: string;
+  color: LabelColor;
+  created_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface TaskLabel {
+  id: string;
+  task_id: string;
+  label_id: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Everyone a task is assigned to; tasks.assigned_to is the primary one of them
+export interface TaskAssignee {
+  id: string;
+  task_id: string;
+  user_id: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Users following a task's changes without being assigned
+export interface TaskWatcher {
+  id: string;
+  task_id: string;
+  user_id: string;
+  created_by: string | null;
+  created_at: string;
+}
+
 export interface TaskWithRelations extends Task {
   project?: Project | null;
+  workflow_status?: WorkflowStatus | null;
   assigned_user?: Profile | null;
+  assignees?: Profile[];          // Primary assignee first
+  watchers?: Profile[];
   created_by_user?: Profile | null;
+  parent_task?: Task | null;
+  subtasks?: Task[];
+  checklist_items?: TaskChecklistItem[];
+  blocked_by?: Task[];
+  hidden_blocker_count?: number;  // Open blockers the user can't see, so not in blocked_by
+  blocks?: Task[];
+  labels?: Label[];
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  parent_id: string | null; // Set on replies
+  author_id: string;
+  body: string;
+  mentions: string[];       // Ids of mentioned users
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskCommentWithAuthor extends TaskComment {
+  author?: Profile | null;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  task_id: string | null;
+  comment_id: string | null;
+  actor_id: string | null;
+  message: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface TaskAttachment {
+  id: string;
+  task_id: string;
+  uploaded_by: string | null;
+  file_name: string;
+  storage_path: string;       // Path inside the task-attachments bucket
+  content_type: string | null;
+  size_bytes: number;
+  created_at: string;
+}
+
+export interface TaskEvent {
+  id: string;
+  task_id: string;
+  actor_id: string | null;
+  event_type: TaskEventType;
+  field: TaskEventField | null;  // Set on 'updated' events
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+}
+
+export interface TaskEventWithActor extends TaskEvent {
+  actor?: Profile | null;
+}
+
+export type SearchResultKind = 'task' | 'project' | 'comment' | 'person';
+
+// A row from the search_all RPC. title and snippet mark matches with « ».
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;
+  task_id: string | null; // Task a task or comment result opens
+  title: string;
+  snippet: string | null;
+  rank: number;
 }
@@ -0,0 +1,147 @@
+-- Departments table
+CREATE TABLE public.departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Department membership for people and ownership for projects
+ALTER TABLE public.profiles
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.projects
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+CREATE INDEX profiles_department_id_idx ON public.profiles(department_id);
+CREATE INDEX projects_department_id_idx ON public.projects(department_id);
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_departments_updated_at BEFORE UPDATE ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Function to get user's department
+CREATE OR REPLACE FUNCTION public.get_user_department(_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT department_id FROM public.profiles WHERE id = _user_id
+$$;
+
+-- A task belongs to a department through its project or, failing that, its assignee
+CREATE OR REPLACE FUNCTION public.is_task_in_department(_project_id UUID, _assigned_to UUID, _department_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _department_id IS NOT NULL AND (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = _project_id AND department_id = _department_id
+    ) OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = _assigned_to AND department_id = _department_id
+    )
+  )
+$$;
+
+-- Admins manage any task; department heads only tasks in their own department
+CREATE OR REPLACE FUNCTION public.can_manage_task(_user_id UUID, _project_id UUID, _assigned_to UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR (
+    public.has_role(_user_id, 'department_head') AND
+    public.is_task_in_department(_project_id, _assigned_to, public.get_user_department(_user_id))
+  )
+$$;
+
+-- Admins manage any project; department heads only their own department's projects
+CREATE OR REPLACE FUNCTION public.can_manage_project(_user_id UUID, _department_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR (
+    public.has_role(_user_id, 'department_head') AND
+    _department_id IS NOT NULL AND
+    _department_id = public.get_user_department(_user_id)
+  )
+$$;
+
+-- Departments policies
+CREATE POLICY "All authenticated users can view departments" ON public.departments
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage departments" ON public.departments
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- Admins assign people to departments
+CREATE POLICY "Admins can update all profiles" ON public.profiles
+  FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- Projects policies, scoped to departments
+DROP POLICY "All authenticated users can view projects" ON public.projects;
+DROP POLICY "Department heads and admins can create projects" ON public.projects;
+DROP POLICY "Department heads and admins can update projects" ON public.projects;
+
+CREATE POLICY "Users can view company-wide, own department or assigned projects" ON public.projects
+  FOR SELECT TO authenticated
+  USING (
+    department_id IS NULL OR
+    department_id = public.get_user_department(auth.uid()) OR
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.project_id = projects.id AND tasks.assigned_to = auth.uid()
+    )
+  );
+
+CREATE POLICY "Department heads and admins can create projects" ON public.projects
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_project(auth.uid(), department_id));
+
+CREATE POLICY "Department heads and admins can update projects" ON public.projects
+  FOR UPDATE TO authenticated
+  USING (public.can_manage_project(auth.uid(), department_id))
+  WITH CHECK (public.can_manage_project(auth.uid(), department_id));
+
+-- Tasks policies, scoped to departments
+DROP POLICY "Users can view assigned tasks or if manager/admin" ON public.tasks;
+DROP POLICY "Department heads and admins can create tasks" ON public.tasks;
+DROP POLICY "Users can update own tasks, managers can update all" ON public.tasks;
+DROP POLICY "Admins can delete tasks" ON public.tasks;
+
+CREATE POLICY "Users can view assigned tasks or if manager/admin" ON public.tasks
+  FOR SELECT TO authenticated
+  USING (
+    assigned_to = auth.uid() OR
+    public.can_manage_task(auth.uid(), project_id, assigned_to)
+  );
+
+CREATE POLICY "Department heads and admins can create tasks" ON public.tasks
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_task(auth.uid(), project_id, assigned_to));
+
+CREATE POLICY "Users can update own tasks, managers can update department tasks" ON public.tasks
+  FOR UPDATE TO authenticated
+  USING (
+    assigned_to = auth.uid() OR
+    public.can_manage_task(auth.uid(), project_id, assigned_to)
+  );
+
+CREATE POLICY "Managers can delete department tasks" ON public.tasks
+  FOR DELETE TO authenticated
+  USING (public.can_manage_task(auth.uid(), project_id, assigned_to));
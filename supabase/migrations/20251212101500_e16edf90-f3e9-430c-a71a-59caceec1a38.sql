@@ -0,0 +1,66 @@
+-- Parent/child tasks
+ALTER TABLE public.tasks
+  ADD COLUMN parent_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+  ADD CONSTRAINT tasks_parent_not_self CHECK (parent_task_id <> id);
+
+CREATE INDEX tasks_parent_task_id_idx ON public.tasks(parent_task_id);
+
+-- Checklist items table
+CREATE TABLE public.task_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  is_done BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX task_checklist_items_task_id_idx ON public.task_checklist_items(task_id);
+
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_task_checklist_items_updated_at BEFORE UPDATE ON public.task_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Checklist items policies (visibility and edit rights follow the task)
+CREATE POLICY "Users can view checklist items of visible tasks" ON public.task_checklist_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_checklist_items.task_id));
+
+CREATE POLICY "Assignees and managers can manage checklist items" ON public.task_checklist_items
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_checklist_items.task_id
+        AND (tasks.assigned_to = auth.uid() OR public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to))
+    )
+  );
+
+-- Roll up completion: once every subtask is completed, complete the parent too
+CREATE OR REPLACE FUNCTION public.complete_parent_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_task_id IS NOT NULL
+    AND NEW.status = 'completed'
+    AND OLD.status IS DISTINCT FROM 'completed'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE parent_task_id = NEW.parent_task_id AND status <> 'completed'
+    )
+  THEN
+    UPDATE public.tasks
+    SET status = 'completed', completed_at = now()
+    WHERE id = NEW.parent_task_id AND status <> 'completed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER complete_parent_task_on_subtasks_done AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.complete_parent_task();
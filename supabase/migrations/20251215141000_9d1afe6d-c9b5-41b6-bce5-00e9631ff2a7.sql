@@ -0,0 +1,68 @@
+-- Task dependencies: task_id is blocked by depends_on_task_id
+CREATE TABLE public.task_dependencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  depends_on_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, depends_on_task_id),
+  CHECK (task_id <> depends_on_task_id)
+);
+
+CREATE INDEX task_dependencies_depends_on_task_id_idx ON public.task_dependencies(depends_on_task_id);
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Reject links that would close a cycle in the dependency graph
+CREATE OR REPLACE FUNCTION public.prevent_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Walk everything the new blocker itself depends on; reaching the blocked task means a cycle
+  IF EXISTS (
+    WITH RECURSIVE upstream(id) AS (
+      SELECT NEW.depends_on_task_id
+      UNION
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      JOIN upstream u ON d.task_id = u.id
+    )
+    SELECT 1 FROM upstream WHERE id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'This dependency would create a cycle'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_task_dependency_cycle BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_dependency_cycle();
+
+-- Task dependencies policies
+CREATE POLICY "Users can view dependencies of visible tasks" ON public.task_dependencies
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_dependencies.task_id));
+
+CREATE POLICY "Managers can create dependencies" ON public.task_dependencies
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_dependencies.task_id
+        AND public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to)
+    )
+  );
+
+CREATE POLICY "Managers can delete dependencies" ON public.task_dependencies
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_dependencies.task_id
+        AND public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to)
+    )
+  );
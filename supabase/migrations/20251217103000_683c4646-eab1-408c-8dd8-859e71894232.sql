@@ -0,0 +1,70 @@
+-- Recurrence rule and series tracking on tasks
+ALTER TABLE public.tasks
+  ADD COLUMN recurrence JSONB,
+  ADD COLUMN recurrence_series_id UUID,
+  ADD COLUMN occurrence_number INTEGER NOT NULL DEFAULT 1,
+  ADD CONSTRAINT tasks_recurrence_frequency_check
+    CHECK (recurrence IS NULL OR recurrence->>'frequency' IN ('daily', 'weekly', 'monthly'));
+
+-- Each occurrence of a series exists at most once
+CREATE UNIQUE INDEX tasks_recurrence_occurrence_idx ON public.tasks(recurrence_series_id, occurrence_number)
+  WHERE recurrence_series_id IS NOT NULL;
+
+-- The first recurring task starts its own series
+CREATE OR REPLACE FUNCTION public.set_recurrence_series()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.recurrence IS NOT NULL AND NEW.recurrence_series_id IS NULL THEN
+    NEW.recurrence_series_id := NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_recurrence_series BEFORE INSERT OR UPDATE OF recurrence ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_recurrence_series();
+
+-- Create the next occurrence of a completed recurring task.
+-- The due date is computed by the client from the recurrence rule; this function
+-- lets assignees (who cannot insert tasks) schedule it and keeps it idempotent.
+CREATE OR REPLACE FUNCTION public.create_next_occurrence(_task_id UUID, _due_date TIMESTAMP WITH TIME ZONE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+
+  IF NOT FOUND OR _task.recurrence IS NULL THEN
+    RAISE EXCEPTION 'Task is not recurring';
+  END IF;
+
+  IF NOT (_task.assigned_to = auth.uid() OR public.can_manage_task(auth.uid(), _task.project_id, _task.assigned_to)) THEN
+    RAISE EXCEPTION 'Not allowed to schedule this task' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _task.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed occurrences can be rescheduled';
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, priority, status, project_id, assigned_to, created_by,
+    due_date, recurrence, recurrence_series_id, occurrence_number
+  )
+  VALUES (
+    _task.title, _task.description, _task.priority, 'pending', _task.project_id, _task.assigned_to, _task.created_by,
+    _due_date, _task.recurrence, _task.recurrence_series_id, _task.occurrence_number + 1
+  )
+  ON CONFLICT (recurrence_series_id, occurrence_number) WHERE recurrence_series_id IS NOT NULL DO NOTHING
+  RETURNING id INTO _new_id;
+
+  RETURN _new_id;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- Task comments table (one level of replies through parent_id)
+CREATE TABLE public.task_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX task_comments_task_id_idx ON public.task_comments(task_id);
+CREATE INDEX task_comments_parent_id_idx ON public.task_comments(parent_id);
+
+-- Notifications table
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('mention')),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  message TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_task_comments_updated_at BEFORE UPDATE ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Task comments policies (visibility follows the task)
+CREATE POLICY "Users can view comments on visible tasks" ON public.task_comments
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_comments.task_id));
+
+CREATE POLICY "Users can comment on visible tasks" ON public.task_comments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    author_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_comments.task_id)
+  );
+
+CREATE POLICY "Users can update own comments" ON public.task_comments
+  FOR UPDATE TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Users can delete own comments" ON public.task_comments
+  FOR DELETE TO authenticated USING (author_id = auth.uid());
+
+-- Notifications policies (rows are created by triggers only)
+CREATE POLICY "Users can view own notifications" ON public.notifications
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications read" ON public.notifications
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Notify users newly mentioned in a comment
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _previous UUID[] := '{}';
+  _author_name TEXT;
+  _task_title TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _previous := OLD.mentions;
+  END IF;
+
+  SELECT full_name INTO _author_name FROM public.profiles WHERE id = NEW.author_id;
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+
+  INSERT INTO public.notifications (user_id, type, task_id, comment_id, actor_id, message)
+  SELECT DISTINCT mentioned, 'mention', NEW.task_id, NEW.id, NEW.author_id,
+    COALESCE(_author_name, 'Someone') || ' mentioned you on "' || _task_title || '"'
+  FROM unnest(NEW.mentions) AS mentioned
+  WHERE mentioned <> NEW.author_id
+    AND NOT (mentioned = ANY (_previous))
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = mentioned);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_task_comment_mentions AFTER INSERT OR UPDATE OF mentions ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_comment_mentions();
@@ -0,0 +1,68 @@
+-- Task attachments table (files live in the task-attachments storage bucket)
+CREATE TABLE public.task_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  content_type TEXT,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX task_attachments_task_id_idx ON public.task_attachments(task_id);
+
+ALTER TABLE public.task_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Assignee or manager of a task (mirrors the tasks update policy)
+CREATE OR REPLACE FUNCTION public.can_work_on_task(_user_id UUID, _task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = _task_id
+      AND (assigned_to = _user_id OR public.can_manage_task(_user_id, project_id, assigned_to))
+  )
+$$;
+
+-- Task attachments policies
+CREATE POLICY "Assignees and managers can view attachments" ON public.task_attachments
+  FOR SELECT TO authenticated USING (public.can_work_on_task(auth.uid(), task_id));
+
+CREATE POLICY "Assignees and managers can add attachments" ON public.task_attachments
+  FOR INSERT TO authenticated
+  WITH CHECK (uploaded_by = auth.uid() AND public.can_work_on_task(auth.uid(), task_id));
+
+CREATE POLICY "Assignees and managers can delete attachments" ON public.task_attachments
+  FOR DELETE TO authenticated USING (public.can_work_on_task(auth.uid(), task_id));
+
+-- Private storage bucket; objects are stored as <task_id>/<unique name>
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('task-attachments', 'task-attachments', false, 20971520)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies mirror the tasks RLS rules through the task id folder
+CREATE POLICY "Assignees and managers can read task files" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'task-attachments' AND
+    public.can_work_on_task(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Assignees and managers can upload task files" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'task-attachments' AND
+    public.can_work_on_task(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Assignees and managers can delete task files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'task-attachments' AND
+    public.can_work_on_task(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  );
@@ -0,0 +1,52 @@
+-- Task activity log, written only by the trigger below
+CREATE TABLE public.task_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'updated')),
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX task_events_task_id_created_at_idx ON public.task_events(task_id, created_at DESC);
+
+ALTER TABLE public.task_events ENABLE ROW LEVEL SECURITY;
+
+-- Task events policies (read-only for clients; visibility follows the task)
+CREATE POLICY "Users can view events of visible tasks" ON public.task_events
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_events.task_id));
+
+-- Record task creation and one event per tracked field that changed
+CREATE OR REPLACE FUNCTION public.log_task_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_events (task_id, actor_id, event_type)
+    VALUES (NEW.id, auth.uid(), 'created');
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_events (task_id, actor_id, event_type, field, old_value, new_value)
+  SELECT NEW.id, auth.uid(), 'updated', changes.field, changes.old_value, changes.new_value
+  FROM (VALUES
+    ('status', OLD.status::text, NEW.status::text),
+    ('priority', OLD.priority::text, NEW.priority::text),
+    ('assigned_to', OLD.assigned_to::text, NEW.assigned_to::text),
+    ('due_date', OLD.due_date::text, NEW.due_date::text),
+    ('project_id', OLD.project_id::text, NEW.project_id::text),
+    ('description', OLD.description, NEW.description)
+  ) AS changes(field, old_value, new_value)
+  WHERE changes.old_value IS DISTINCT FROM changes.new_value;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_task_changes AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.log_task_events();
@@ -0,0 +1,65 @@
+-- Allow task notifications alongside mentions
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('mention', 'assignment', 'due_date', 'completion'));
+
+-- Notify about task changes made by someone else:
+-- - the new assignee when a task is assigned to them
+-- - the assignee when the due date of their task changes
+-- - the creator when their task is completed
+CREATE OR REPLACE FUNCTION public.notify_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _actor_name TEXT;
+BEGIN
+  SELECT full_name INTO _actor_name FROM public.profiles WHERE id = _actor;
+  _actor_name := COALESCE(_actor_name, 'Someone');
+
+  IF NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM _actor
+    AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+    INSERT INTO public.notifications (user_id, type, task_id, actor_id, message)
+    VALUES (NEW.assigned_to, 'assignment', NEW.id, _actor,
+      _actor_name || ' assigned you "' || NEW.title || '"');
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.assigned_to IS NOT NULL
+      AND NEW.assigned_to IS DISTINCT FROM _actor
+      AND NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to
+      AND NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+      INSERT INTO public.notifications (user_id, type, task_id, actor_id, message)
+      VALUES (NEW.assigned_to, 'due_date', NEW.id, _actor,
+        CASE WHEN NEW.due_date IS NULL
+          THEN _actor_name || ' removed the due date of "' || NEW.title || '"'
+          ELSE _actor_name || ' moved "' || NEW.title || '" to ' || to_char(NEW.due_date, 'Mon DD, YYYY')
+        END);
+    END IF;
+
+    IF NEW.status = 'completed'
+      AND OLD.status IS DISTINCT FROM 'completed'
+      AND NEW.created_by IS NOT NULL
+      AND NEW.created_by IS DISTINCT FROM _actor THEN
+      INSERT INTO public.notifications (user_id, type, task_id, actor_id, message)
+      VALUES (NEW.created_by, 'completion', NEW.id, _actor,
+        _actor_name || ' completed "' || NEW.title || '"');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_task_changes AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.notify_task_changes();
+
+-- Users can clear their own notifications
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Stream new notifications to the bell
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,23 @@
+-- Remember who last changed a task so clients can tell remote edits from their own
+ALTER TABLE public.tasks ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.set_task_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_updated_by BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_task_updated_by();
+
+-- Stream task and project changes to connected clients.
+-- Realtime checks each subscriber's SELECT policies, so users only receive rows they can see.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.projects;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_checklist_items;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_dependencies;
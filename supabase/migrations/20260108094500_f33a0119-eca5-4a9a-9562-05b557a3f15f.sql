@@ -0,0 +1,15 @@
+-- Indexes for the paginated task list: one per sort order (with id as tie-breaker)
+CREATE INDEX tasks_created_at_id_idx ON public.tasks(created_at DESC, id DESC);
+CREATE INDEX tasks_due_date_id_idx ON public.tasks(due_date ASC NULLS LAST, id ASC);
+CREATE INDEX tasks_priority_id_idx ON public.tasks(priority DESC, id DESC);
+CREATE INDEX tasks_title_id_idx ON public.tasks(title, id);
+
+-- Filter lookups
+CREATE INDEX tasks_status_idx ON public.tasks(status);
+CREATE INDEX tasks_project_id_idx ON public.tasks(project_id);
+CREATE INDEX tasks_assigned_to_idx ON public.tasks(assigned_to);
+
+-- Trigram indexes so ILIKE '%text%' search doesn't scan every task
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE INDEX tasks_title_trgm_idx ON public.tasks USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX tasks_description_trgm_idx ON public.tasks USING gin (description extensions.gin_trgm_ops);
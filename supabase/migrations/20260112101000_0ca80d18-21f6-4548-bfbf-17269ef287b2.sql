@@ -0,0 +1,80 @@
+-- Full-text search across tasks, projects, comments and people
+
+-- Weighted document: primary text (title, name) ranks above secondary text
+CREATE OR REPLACE FUNCTION public.search_document(_primary TEXT, _secondary TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple', coalesce(_primary, '')), 'A') ||
+         setweight(to_tsvector('simple', coalesce(_secondary, '')), 'B')
+$$;
+
+-- Every typed word must match, each as a prefix so results appear while typing.
+-- Returns NULL (matches nothing) for blank input.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_text TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(trim(_text)), '\s+') AS word
+  WHERE word <> ''
+$$;
+
+CREATE INDEX tasks_search_idx ON public.tasks USING gin (public.search_document(title, description));
+CREATE INDEX projects_search_idx ON public.projects USING gin (public.search_document(name, description));
+CREATE INDEX task_comments_search_idx ON public.task_comments USING gin (public.search_document(body, NULL));
+CREATE INDEX profiles_search_idx ON public.profiles USING gin (public.search_document(full_name, email));
+
+-- Ranked results with highlighted snippets (matches wrapped in « »).
+-- Runs as the caller, so RLS decides which rows can be found.
+CREATE OR REPLACE FUNCTION public.search_all(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (kind TEXT, id UUID, task_id UUID, title TEXT, snippet TEXT, rank REAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (SELECT public.to_prefix_tsquery(_query) AS query),
+  opts AS (SELECT 'MaxFragments=1, MaxWords=18, MinWords=6, StartSel=«, StopSel=»' AS o)
+  SELECT * FROM (
+    (SELECT 'task', t.id, t.id,
+       ts_headline('simple', t.title, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       ts_headline('simple', coalesce(t.description, ''), q.query, opts.o),
+       ts_rank(public.search_document(t.title, t.description), q.query)
+     FROM public.tasks t, q, opts
+     WHERE public.search_document(t.title, t.description) @@ q.query
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'project', p.id, NULL::UUID,
+       ts_headline('simple', p.name, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       ts_headline('simple', coalesce(p.description, ''), q.query, opts.o),
+       ts_rank(public.search_document(p.name, p.description), q.query)
+     FROM public.projects p, q, opts
+     WHERE public.search_document(p.name, p.description) @@ q.query
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'comment', c.id, c.task_id,
+       t.title,
+       ts_headline('simple', c.body, q.query, opts.o),
+       ts_rank(public.search_document(c.body, NULL), q.query)
+     FROM public.task_comments c
+     JOIN public.tasks t ON t.id = c.task_id, q, opts
+     WHERE public.search_document(c.body, NULL) @@ q.query
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'person', pr.id, NULL::UUID,
+       ts_headline('simple', pr.full_name, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       pr.email,
+       ts_rank(public.search_document(pr.full_name, pr.email), q.query)
+     FROM public.profiles pr, q
+     WHERE public.search_document(pr.full_name, pr.email) @@ q.query
+     ORDER BY 6 DESC
+     LIMIT _limit)
+  ) AS results (kind, id, task_id, title, snippet, rank)
+  ORDER BY rank DESC
+  LIMIT _limit
+$$;
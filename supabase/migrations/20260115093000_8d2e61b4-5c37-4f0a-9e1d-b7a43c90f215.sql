@@ -0,0 +1,26 @@
+-- Deep links: tell "doesn't exist" apart from "not allowed to see it".
+-- RLS hides rows the user can't read, so a plain select can't distinguish
+-- the two. These only reveal whether an id exists, never its contents.
+
+CREATE OR REPLACE FUNCTION public.task_exists(_task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.tasks WHERE id = _task_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.project_exists(_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.projects WHERE id = _project_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_exists(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.project_exists(UUID) FROM anon;
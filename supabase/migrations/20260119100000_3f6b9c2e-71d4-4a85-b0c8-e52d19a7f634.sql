@@ -0,0 +1,251 @@
+-- Soft delete: tasks and projects go to a trash first and can be restored.
+-- Only purging from the trash removes rows for good.
+
+ALTER TABLE public.tasks
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.projects
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX tasks_deleted_at_idx ON public.tasks (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX projects_deleted_at_idx ON public.projects (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Deleting a project must never silently take its tasks with it; purge_project removes them explicitly
+ALTER TABLE public.tasks DROP CONSTRAINT tasks_project_id_fkey;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_project_id_fkey FOREIGN KEY (project_id) REFERENCES public.projects(id) ON DELETE RESTRICT;
+
+-- Assignees may update their own tasks, but only managers may trash or restore them
+CREATE OR REPLACE FUNCTION public.guard_task_trash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND NOT public.can_manage_task(auth.uid(), OLD.project_id, OLD.assigned_to)
+  THEN
+    RAISE EXCEPTION 'Only managers can move tasks to or from the trash';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_task_trash BEFORE UPDATE OF deleted_at ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.guard_task_trash();
+
+-- Move a task and its subtasks to the trash; returns how many tasks were moved
+CREATE OR REPLACE FUNCTION public.trash_task(_task_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  WITH RECURSIVE tree AS (
+    SELECT id FROM public.tasks WHERE id = _task_id
+    UNION
+    SELECT t.id FROM public.tasks t JOIN tree ON t.parent_task_id = tree.id
+  )
+  UPDATE public.tasks
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id IN (SELECT id FROM tree) AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  IF _count = 0 THEN
+    RAISE EXCEPTION 'Task not found or already in the trash';
+  END IF;
+  RETURN _count;
+END;
+$$;
+
+-- Bring a task back together with the subtasks that were trashed with it
+CREATE OR REPLACE FUNCTION public.restore_task(_task_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+  _count INTEGER;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id AND deleted_at IS NOT NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found in the trash';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.projects WHERE id = _task.project_id AND deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Restore the task''s project first';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.tasks WHERE id = _task.parent_task_id AND deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Restore the parent task first';
+  END IF;
+
+  WITH RECURSIVE tree AS (
+    SELECT id FROM public.tasks WHERE id = _task_id
+    UNION
+    SELECT t.id FROM public.tasks t JOIN tree ON t.parent_task_id = tree.id
+    WHERE t.deleted_at = _task.deleted_at
+  )
+  UPDATE public.tasks
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE id IN (SELECT id FROM tree);
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Move a project and all of its tasks to the trash; returns how many tasks went with it
+CREATE OR REPLACE FUNCTION public.trash_project(_project_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  UPDATE public.projects
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = _project_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found or already in the trash';
+  END IF;
+
+  -- Same timestamp as the project, so restoring it brings back exactly these tasks
+  UPDATE public.tasks
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE project_id = _project_id AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Bring a project back together with the tasks that were trashed with it
+CREATE OR REPLACE FUNCTION public.restore_project(_project_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _deleted_at TIMESTAMP WITH TIME ZONE;
+  _count INTEGER;
+BEGIN
+  SELECT deleted_at INTO _deleted_at FROM public.projects WHERE id = _project_id AND deleted_at IS NOT NULL;
+  IF _deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Project not found in the trash';
+  END IF;
+
+  UPDATE public.projects SET deleted_at = NULL, deleted_by = NULL WHERE id = _project_id;
+
+  UPDATE public.tasks
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE project_id = _project_id AND deleted_at = _deleted_at;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Permanently delete a trashed project and every task in it (admins only, like deleting projects)
+CREATE OR REPLACE FUNCTION public.purge_project(_project_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can permanently delete projects';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.projects WHERE id = _project_id AND deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Project not found in the trash';
+  END IF;
+
+  DELETE FROM public.tasks WHERE project_id = _project_id;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  DELETE FROM public.projects WHERE id = _project_id;
+  RETURN _count;
+END;
+$$;
+
+-- Trashed subtasks no longer hold their parent open
+CREATE OR REPLACE FUNCTION public.complete_parent_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_task_id IS NOT NULL
+    AND NEW.status = 'completed'
+    AND OLD.status IS DISTINCT FROM 'completed'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE parent_task_id = NEW.parent_task_id AND status <> 'completed' AND deleted_at IS NULL
+    )
+  THEN
+    UPDATE public.tasks
+    SET status = 'completed', completed_at = now()
+    WHERE id = NEW.parent_task_id AND status <> 'completed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Search leaves out trashed tasks and projects, and comments on trashed tasks
+CREATE OR REPLACE FUNCTION public.search_all(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (kind TEXT, id UUID, task_id UUID, title TEXT, snippet TEXT, rank REAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (SELECT public.to_prefix_tsquery(_query) AS query),
+  opts AS (SELECT 'MaxFragments=1, MaxWords=18, MinWords=6, StartSel=«, StopSel=»' AS o)
+  SELECT * FROM (
+    (SELECT 'task', t.id, t.id,
+       ts_headline('simple', t.title, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       ts_headline('simple', coalesce(t.description, ''), q.query, opts.o),
+       ts_rank(public.search_document(t.title, t.description), q.query)
+     FROM public.tasks t, q, opts
+     WHERE public.search_document(t.title, t.description) @@ q.query AND t.deleted_at IS NULL
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'project', p.id, NULL::UUID,
+       ts_headline('simple', p.name, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       ts_headline('simple', coalesce(p.description, ''), q.query, opts.o),
+       ts_rank(public.search_document(p.name, p.description), q.query)
+     FROM public.projects p, q, opts
+     WHERE public.search_document(p.name, p.description) @@ q.query AND p.deleted_at IS NULL
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'comment', c.id, c.task_id,
+       t.title,
+       ts_headline('simple', c.body, q.query, opts.o),
+       ts_rank(public.search_document(c.body, NULL), q.query)
+     FROM public.task_comments c
+     JOIN public.tasks t ON t.id = c.task_id, q, opts
+     WHERE public.search_document(c.body, NULL) @@ q.query AND t.deleted_at IS NULL
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'person', pr.id, NULL::UUID,
+       ts_headline('simple', pr.full_name, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       pr.email,
+       ts_rank(public.search_document(pr.full_name, pr.email), q.query)
+     FROM public.profiles pr, q
+     WHERE public.search_document(pr.full_name, pr.email) @@ q.query
+     ORDER BY 6 DESC
+     LIMIT _limit)
+  ) AS results (kind, id, task_id, title, snippet, rank)
+  ORDER BY rank DESC
+  LIMIT _limit
+$$;
@@ -0,0 +1,87 @@
+-- Bulk task operations: one call changes or trashes many tasks, and the
+-- same calls undo them. SECURITY INVOKER, so RLS decides which rows change.
+
+-- Apply per-task changes given as [{ "id": ..., "status": ..., ... }]
+-- Only the listed fields change; a field set to null is cleared.
+-- Returns how many tasks were updated.
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(_updates JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  UPDATE public.tasks t SET
+    status = CASE WHEN u.item ? 'status' THEN (u.item->>'status')::public.task_status ELSE t.status END,
+    completed_at = CASE WHEN u.item ? 'completed_at' THEN (u.item->>'completed_at')::TIMESTAMPTZ ELSE t.completed_at END,
+    priority = CASE WHEN u.item ? 'priority' THEN (u.item->>'priority')::public.task_priority ELSE t.priority END,
+    assigned_to = CASE WHEN u.item ? 'assigned_to' THEN (u.item->>'assigned_to')::UUID ELSE t.assigned_to END,
+    project_id = CASE WHEN u.item ? 'project_id' THEN (u.item->>'project_id')::UUID ELSE t.project_id END,
+    due_date = CASE WHEN u.item ? 'due_date' THEN (u.item->>'due_date')::TIMESTAMPTZ ELSE t.due_date END
+  FROM jsonb_array_elements(_updates) AS u(item)
+  WHERE t.id = (u.item->>'id')::UUID AND t.deleted_at IS NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Move tasks and their subtasks to the trash in one batch; returns how many tasks were moved
+CREATE OR REPLACE FUNCTION public.trash_tasks(_task_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  WITH RECURSIVE tree AS (
+    SELECT id FROM public.tasks WHERE id = ANY(_task_ids)
+    UNION
+    SELECT t.id FROM public.tasks t JOIN tree ON t.parent_task_id = tree.id
+  )
+  UPDATE public.tasks
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id IN (SELECT id FROM tree) AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  IF _count = 0 THEN
+    RAISE EXCEPTION 'Task not found or already in the trash';
+  END IF;
+  RETURN _count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trash_task(_task_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT public.trash_tasks(ARRAY[_task_id])
+$$;
+
+-- Restore several trashed tasks; subtasks trashed with a listed parent come back with it
+CREATE OR REPLACE FUNCTION public.restore_tasks(_task_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _task public.tasks;
+  _count INTEGER := 0;
+BEGIN
+  FOREACH _id IN ARRAY _task_ids LOOP
+    SELECT * INTO _task FROM public.tasks WHERE id = _id AND deleted_at IS NOT NULL;
+    -- Already restored together with its parent
+    CONTINUE WHEN NOT FOUND;
+    -- Will be restored together with its parent
+    CONTINUE WHEN _task.parent_task_id = ANY(_task_ids) AND EXISTS (
+      SELECT 1 FROM public.tasks WHERE id = _task.parent_task_id AND deleted_at = _task.deleted_at
+    );
+    _count := _count + public.restore_task(_id);
+  END LOOP;
+  RETURN _count;
+END;
+$$;
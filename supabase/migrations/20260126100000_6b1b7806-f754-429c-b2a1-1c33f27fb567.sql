@@ -0,0 +1,306 @@
+-- Per-project workflows: a project can replace the default statuses
+-- (Pending, In Progress, Completed) with its own, such as "In Review" or
+-- "Verified", and limit which moves between them are allowed.
+-- Every status belongs to a category, and tasks.status keeps holding that
+-- category, so completion times, stats, blockers and the triggers built on
+-- 'completed' keep working unchanged.
+
+CREATE TABLE public.workflow_statuses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE, -- NULL for the default workflow
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  category task_status NOT NULL,
+  color TEXT NOT NULL DEFAULT 'gray' CHECK (color IN ('gray', 'blue', 'green', 'amber', 'red', 'purple')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX workflow_statuses_project_id_idx ON public.workflow_statuses (project_id, position);
+
+-- Allowed moves between statuses of one workflow. A workflow without any
+-- transitions lets tasks move freely; once some exist, only those are allowed.
+CREATE TABLE public.workflow_transitions (
+  from_status_id UUID REFERENCES public.workflow_statuses(id) ON DELETE CASCADE NOT NULL,
+  to_status_id UUID REFERENCES public.workflow_statuses(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (from_status_id, to_status_id),
+  CHECK (from_status_id <> to_status_id)
+);
+
+ALTER TABLE public.workflow_statuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_transitions ENABLE ROW LEVEL SECURITY;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workflow_statuses;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workflow_transitions;
+
+INSERT INTO public.workflow_statuses (project_id, name, category, color, position) VALUES
+  (NULL, 'Pending', 'pending', 'gray', 0),
+  (NULL, 'In Progress', 'in_progress', 'blue', 1),
+  (NULL, 'Completed', 'completed', 'green', 2);
+
+-- Tasks point at their status; removing a status moves its tasks to the
+-- first status of the same category (see sync_task_status below)
+ALTER TABLE public.tasks
+  ADD COLUMN status_id UUID REFERENCES public.workflow_statuses(id) ON DELETE SET NULL;
+
+-- Backfill without touching updated_at, updated_by or the activity log
+ALTER TABLE public.tasks DISABLE TRIGGER USER;
+UPDATE public.tasks t
+SET status_id = s.id
+FROM public.workflow_statuses s
+WHERE s.project_id IS NULL AND s.category = t.status;
+ALTER TABLE public.tasks ENABLE TRIGGER USER;
+
+ALTER TABLE public.tasks ALTER COLUMN status_id SET NOT NULL;
+CREATE INDEX tasks_status_id_idx ON public.tasks (status_id);
+
+-- Admins manage the default workflow; project managers their project's workflow
+CREATE OR REPLACE FUNCTION public.can_manage_workflow(_user_id UUID, _project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _project_id IS NULL THEN public.has_role(_user_id, 'admin')
+    ELSE public.can_manage_project(_user_id, (SELECT department_id FROM public.projects WHERE id = _project_id))
+  END
+$$;
+
+-- The workflow that applies to a project's tasks: the project's own once it
+-- has statuses, otherwise NULL for the default workflow
+CREATE OR REPLACE FUNCTION public.workflow_scope(_project_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _project_id WHERE EXISTS (SELECT 1 FROM public.workflow_statuses WHERE project_id = _project_id)
+$$;
+
+-- Workflow policies (statuses are visible to everyone, like task fields)
+CREATE POLICY "All authenticated users can view workflow statuses" ON public.workflow_statuses
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Workflow managers can manage workflow statuses" ON public.workflow_statuses
+  FOR ALL TO authenticated
+  USING (public.can_manage_workflow(auth.uid(), project_id))
+  WITH CHECK (public.can_manage_workflow(auth.uid(), project_id));
+
+CREATE POLICY "All authenticated users can view workflow transitions" ON public.workflow_transitions
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Workflow managers can manage workflow transitions" ON public.workflow_transitions
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.workflow_statuses s
+    WHERE s.id = workflow_transitions.from_status_id AND public.can_manage_workflow(auth.uid(), s.project_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.workflow_statuses s
+    WHERE s.id = workflow_transitions.from_status_id AND public.can_manage_workflow(auth.uid(), s.project_id)
+  ));
+
+-- Keep status_id and the status category in step:
+-- - A newly picked status_id decides the category, and must belong to the task's workflow
+-- - Otherwise the current status is kept while it fits the workflow and category,
+--   else the first status of the category is taken (setting only status, moving
+--   projects, or the status being removed)
+-- Direct changes must follow the workflow's transitions; changes made by other
+-- triggers (parent roll-up, removed statuses) are not held to them.
+CREATE OR REPLACE FUNCTION public.sync_task_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _scope UUID := public.workflow_scope(NEW.project_id);
+  _status public.workflow_statuses%ROWTYPE;
+  _from public.workflow_statuses%ROWTYPE;
+BEGIN
+  IF NEW.status_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.status_id IS DISTINCT FROM OLD.status_id) THEN
+    SELECT * INTO _status FROM public.workflow_statuses WHERE id = NEW.status_id;
+    IF _status.project_id IS DISTINCT FROM _scope THEN
+      RAISE EXCEPTION 'Status "%" is not part of this task''s workflow', _status.name;
+    END IF;
+  ELSE
+    SELECT * INTO _status FROM public.workflow_statuses
+    WHERE id = NEW.status_id AND project_id IS NOT DISTINCT FROM _scope AND category = NEW.status;
+
+    IF NOT FOUND THEN
+      SELECT * INTO _status FROM public.workflow_statuses
+      WHERE project_id IS NOT DISTINCT FROM _scope AND category = NEW.status
+      ORDER BY position
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'This workflow has no % status', NEW.status;
+      END IF;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status_id IS NOT NULL AND _status.id <> OLD.status_id AND pg_trigger_depth() = 1 THEN
+    SELECT * INTO _from FROM public.workflow_statuses WHERE id = OLD.status_id;
+
+    IF _from.project_id IS NOT DISTINCT FROM _scope
+      AND EXISTS (
+        SELECT 1 FROM public.workflow_transitions tr
+        JOIN public.workflow_statuses s ON s.id = tr.from_status_id
+        WHERE s.project_id IS NOT DISTINCT FROM _scope
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.workflow_transitions
+        WHERE from_status_id = OLD.status_id AND to_status_id = _status.id
+      )
+    THEN
+      RAISE EXCEPTION 'Tasks cannot move from "%" to "%" in this workflow', _from.name, _status.name;
+    END IF;
+  END IF;
+
+  NEW.status_id := _status.id;
+  NEW.status := _status.category;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_task_status BEFORE INSERT OR UPDATE OF status, status_id, project_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.sync_task_status();
+
+-- Replace a project's workflow in one go.
+-- _statuses: [{ "id": existing id or null, "name", "category", "color" }] in display order
+-- _transitions: [{ "from": index, "to": index }] into _statuses
+-- Tasks on removed statuses, or still on the default workflow, move to the
+-- first status of their category.
+CREATE OR REPLACE FUNCTION public.save_project_workflow(_project_id UUID, _statuses JSONB, _transitions JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _id UUID;
+  _ids UUID[] := '{}';
+BEGIN
+  IF NOT public.can_manage_workflow(auth.uid(), _project_id) THEN
+    RAISE EXCEPTION 'Only managers of this project can change its workflow' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (SELECT count(DISTINCT item->>'category') FROM jsonb_array_elements(_statuses) AS item) < 3 THEN
+    RAISE EXCEPTION 'A workflow needs at least one pending, one in progress and one completed status';
+  END IF;
+
+  IF (SELECT count(DISTINCT lower(trim(item->>'name'))) FROM jsonb_array_elements(_statuses) AS item)
+    < jsonb_array_length(_statuses) THEN
+    RAISE EXCEPTION 'Status names must be unique';
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_statuses) WITH ORDINALITY ORDER BY ordinality LOOP
+    UPDATE public.workflow_statuses
+    SET name = trim(_item->>'name'),
+        category = (_item->>'category')::public.task_status,
+        color = _item->>'color',
+        position = cardinality(_ids)
+    WHERE id = (_item->>'id')::UUID AND project_id = _project_id
+    RETURNING id INTO _id;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.workflow_statuses (project_id, name, category, color, position)
+      VALUES (_project_id, trim(_item->>'name'), (_item->>'category')::public.task_status, _item->>'color', cardinality(_ids))
+      RETURNING id INTO _id;
+    END IF;
+
+    _ids := _ids || _id;
+  END LOOP;
+
+  -- Old transitions go first, so they don't hold up moving tasks off removed statuses
+  DELETE FROM public.workflow_transitions
+  WHERE from_status_id IN (SELECT id FROM public.workflow_statuses WHERE project_id = _project_id);
+
+  -- Tasks on a status whose category changed follow it
+  UPDATE public.tasks t
+  SET status = s.category,
+      completed_at = CASE WHEN s.category = 'completed' THEN now() END
+  FROM public.workflow_statuses s
+  WHERE s.id = t.status_id AND s.project_id = _project_id AND t.status <> s.category;
+
+  UPDATE public.tasks SET status_id = NULL WHERE project_id = _project_id AND status_id <> ALL(_ids);
+  DELETE FROM public.workflow_statuses WHERE project_id = _project_id AND id <> ALL(_ids);
+
+  INSERT INTO public.workflow_transitions (from_status_id, to_status_id)
+  SELECT DISTINCT _ids[(tr->>'from')::INTEGER + 1], _ids[(tr->>'to')::INTEGER + 1]
+  FROM jsonb_array_elements(_transitions) AS tr
+  WHERE tr->>'from' <> tr->>'to';
+END;
+$$;
+
+-- Put a project back on the default workflow; its tasks keep their category
+CREATE OR REPLACE FUNCTION public.reset_project_workflow(_project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_workflow(auth.uid(), _project_id) THEN
+    RAISE EXCEPTION 'Only managers of this project can change its workflow' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Clearing status_id (on delete) lets sync_task_status pick the default status of each category
+  DELETE FROM public.workflow_statuses WHERE project_id = _project_id;
+END;
+$$;
+
+-- Bulk updates can also set status_id
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(_updates JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  UPDATE public.tasks t SET
+    status = CASE WHEN u.item ? 'status' THEN (u.item->>'status')::public.task_status ELSE t.status END,
+    status_id = CASE WHEN u.item ? 'status_id' THEN (u.item->>'status_id')::UUID ELSE t.status_id END,
+    completed_at = CASE WHEN u.item ? 'completed_at' THEN (u.item->>'completed_at')::TIMESTAMPTZ ELSE t.completed_at END,
+    priority = CASE WHEN u.item ? 'priority' THEN (u.item->>'priority')::public.task_priority ELSE t.priority END,
+    assigned_to = CASE WHEN u.item ? 'assigned_to' THEN (u.item->>'assigned_to')::UUID ELSE t.assigned_to END,
+    project_id = CASE WHEN u.item ? 'project_id' THEN (u.item->>'project_id')::UUID ELSE t.project_id END,
+    due_date = CASE WHEN u.item ? 'due_date' THEN (u.item->>'due_date')::TIMESTAMPTZ ELSE t.due_date END
+  FROM jsonb_array_elements(_updates) AS u(item)
+  WHERE t.id = (u.item->>'id')::UUID AND t.deleted_at IS NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- The activity log records status changes by status name, falling back to the category
+CREATE OR REPLACE FUNCTION public.log_task_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_events (task_id, actor_id, event_type)
+    VALUES (NEW.id, auth.uid(), 'created');
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_events (task_id, actor_id, event_type, field, old_value, new_value)
+  SELECT NEW.id, auth.uid(), 'updated', changes.field, changes.old_value, changes.new_value
+  FROM (VALUES
+    ('status',
+      COALESCE((SELECT name FROM public.workflow_statuses WHERE id = OLD.status_id), OLD.status::text),
+      COALESCE((SELECT name FROM public.workflow_statuses WHERE id = NEW.status_id), NEW.status::text)),
+    ('priority', OLD.priority::text, NEW.priority::text),
+    ('assigned_to', OLD.assigned_to::text, NEW.assigned_to::text),
+    ('due_date', OLD.due_date::text, NEW.due_date::text),
+    ('project_id', OLD.project_id::text, NEW.project_id::text),
+    ('description', OLD.description, NEW.description)
+  ) AS changes(field, old_value, new_value)
+  WHERE changes.old_value IS DISTINCT FROM changes.new_value;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,95 @@
+-- Labels: an organization-wide catalogue of colored tags. A task can carry
+-- any number of them, and the task list can filter on them.
+
+CREATE TABLE public.labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT 'gray' CHECK (color IN ('gray', 'blue', 'green', 'amber', 'red', 'purple')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- "Bug" and "bug" would be the same label
+CREATE UNIQUE INDEX labels_name_key ON public.labels (lower(trim(name)));
+
+CREATE TABLE public.task_labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  label_id UUID REFERENCES public.labels(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, label_id)
+);
+
+CREATE INDEX task_labels_label_id_idx ON public.task_labels (label_id);
+
+ALTER TABLE public.labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_labels_updated_at BEFORE UPDATE ON public.labels
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.labels;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_labels;
+
+-- Labels policies (the catalogue is shared, so every manager can curate it)
+CREATE POLICY "All authenticated users can view labels" ON public.labels
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins and department heads can manage labels" ON public.labels
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'department_head'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'department_head'));
+
+-- Task labels policies (visibility and edit rights follow the task)
+CREATE POLICY "Users can view labels of visible tasks" ON public.task_labels
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_labels.task_id));
+
+CREATE POLICY "Managers can add task labels" ON public.task_labels
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_labels.task_id
+        AND public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to)
+    )
+  );
+
+CREATE POLICY "Managers can remove task labels" ON public.task_labels
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_labels.task_id
+        AND public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to)
+    )
+  );
+
+-- Replace a task's labels with the given set in one call
+CREATE OR REPLACE FUNCTION public.set_task_labels(_task_id UUID, _label_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.task_labels
+  WHERE task_id = _task_id AND NOT (label_id = ANY(_label_ids));
+
+  INSERT INTO public.task_labels (task_id, label_id, created_by)
+  SELECT _task_id, id, auth.uid() FROM unnest(_label_ids) AS id
+  ON CONFLICT (task_id, label_id) DO NOTHING;
+END;
+$$;
+
+-- Computed column tasks.label_ids, so the task list can filter with
+-- label_ids=cs.{...} (has all) or label_ids=ov.{...} (has any)
+CREATE OR REPLACE FUNCTION public.label_ids(public.tasks)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(label_id), '{}') FROM public.task_labels WHERE task_id = $1.id
+$$;
@@ -0,0 +1,428 @@
+-- Several assignees and watchers per task.
+-- task_assignees holds everyone a task is assigned to. tasks.assigned_to stays
+-- as the primary assignee: always one of task_assignees, and NULL only while
+-- nobody is assigned. Department scoping for managers still goes through the
+-- project or the primary assignee. Watchers follow a task without working on it.
+
+CREATE TABLE public.task_assignees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, user_id)
+);
+
+CREATE INDEX task_assignees_user_id_idx ON public.task_assignees (user_id);
+
+CREATE TABLE public.task_watchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, user_id)
+);
+
+CREATE INDEX task_watchers_user_id_idx ON public.task_watchers (user_id);
+
+ALTER TABLE public.task_assignees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_watchers ENABLE ROW LEVEL SECURITY;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_assignees;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_watchers;
+
+INSERT INTO public.task_assignees (task_id, user_id, created_by, created_at)
+SELECT id, assigned_to, created_by, created_at FROM public.tasks WHERE assigned_to IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.is_task_assignee(_user_id UUID, _task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.task_assignees WHERE task_id = _task_id AND user_id = _user_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_task_watcher(_user_id UUID, _task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.task_watchers WHERE task_id = _task_id AND user_id = _user_id)
+$$;
+
+-- Everyone who hears about changes to a task: its assignees and watchers
+CREATE OR REPLACE FUNCTION public.task_followers(_task_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT user_id FROM public.task_assignees WHERE task_id = _task_id
+  UNION
+  SELECT user_id FROM public.task_watchers WHERE task_id = _task_id
+$$;
+
+-- Keep task_assignees in step when the primary assignee is set directly
+-- (task form, bulk reassign): the new one joins, the old one leaves, and
+-- clearing it unassigns everybody.
+CREATE OR REPLACE FUNCTION public.sync_primary_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.assigned_to IS NOT NULL AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF NEW.assigned_to IS NULL THEN
+      DELETE FROM public.task_assignees WHERE task_id = NEW.id;
+    ELSE
+      DELETE FROM public.task_assignees WHERE task_id = NEW.id AND user_id = OLD.assigned_to;
+    END IF;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL THEN
+    INSERT INTO public.task_assignees (task_id, user_id, created_by)
+    VALUES (NEW.id, NEW.assigned_to, auth.uid())
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_primary_assignee AFTER INSERT OR UPDATE OF assigned_to ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.sync_primary_assignee();
+
+-- And the other way round: the first assignee of an unassigned task becomes
+-- its primary, and removing the primary promotes the longest-serving other one
+CREATE OR REPLACE FUNCTION public.sync_task_assigned_to()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.tasks SET assigned_to = NEW.user_id
+    WHERE id = NEW.task_id AND assigned_to IS NULL;
+  ELSE
+    UPDATE public.tasks
+    SET assigned_to = (
+      SELECT user_id FROM public.task_assignees
+      WHERE task_id = OLD.task_id
+      ORDER BY created_at, user_id
+      LIMIT 1
+    )
+    WHERE id = OLD.task_id AND assigned_to = OLD.user_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_task_assigned_to AFTER INSERT OR DELETE ON public.task_assignees
+  FOR EACH ROW EXECUTE FUNCTION public.sync_task_assigned_to();
+
+-- Replace a task's assignees in one call. The primary assignee stays while
+-- still listed; otherwise the first listed user takes over.
+CREATE OR REPLACE FUNCTION public.set_task_assignees(_task_id UUID, _user_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tasks
+  SET assigned_to = _user_ids[1]
+  WHERE id = _task_id
+    AND (assigned_to IS NULL OR NOT (assigned_to = ANY(_user_ids)))
+    AND assigned_to IS DISTINCT FROM _user_ids[1];
+
+  DELETE FROM public.task_assignees
+  WHERE task_id = _task_id AND NOT (user_id = ANY(_user_ids));
+
+  INSERT INTO public.task_assignees (task_id, user_id, created_by)
+  SELECT _task_id, id, auth.uid() FROM unnest(_user_ids) AS id
+  ON CONFLICT (task_id, user_id) DO NOTHING;
+END;
+$$;
+
+-- Computed column tasks.assignee_ids, so the task list can filter on any assignee
+CREATE OR REPLACE FUNCTION public.assignee_ids(public.tasks)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(user_id), '{}') FROM public.task_assignees WHERE task_id = $1.id
+$$;
+
+-- Tasks policies: every assignee may view and update, watchers may view
+DROP POLICY "Users can view assigned tasks or if manager/admin" ON public.tasks;
+DROP POLICY "Users can update own tasks, managers can update department tasks" ON public.tasks;
+
+CREATE POLICY "Users can view assigned or watched tasks, managers department tasks" ON public.tasks
+  FOR SELECT TO authenticated
+  USING (
+    assigned_to = auth.uid() OR
+    public.is_task_assignee(auth.uid(), id) OR
+    public.is_task_watcher(auth.uid(), id) OR
+    public.can_manage_task(auth.uid(), project_id, assigned_to)
+  );
+
+CREATE POLICY "Assignees can update their tasks, managers department tasks" ON public.tasks
+  FOR UPDATE TO authenticated
+  USING (
+    assigned_to = auth.uid() OR
+    public.is_task_assignee(auth.uid(), id) OR
+    public.can_manage_task(auth.uid(), project_id, assigned_to)
+  );
+
+-- Projects show up for anyone assigned to one of their tasks
+DROP POLICY "Users can view company-wide, own department or assigned projects" ON public.projects;
+
+CREATE POLICY "Users can view company-wide, own department or assigned projects" ON public.projects
+  FOR SELECT TO authenticated
+  USING (
+    department_id IS NULL OR
+    department_id = public.get_user_department(auth.uid()) OR
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      JOIN public.task_assignees ON task_assignees.task_id = tasks.id
+      WHERE tasks.project_id = projects.id AND task_assignees.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY "Assignees and managers can manage checklist items" ON public.task_checklist_items;
+
+CREATE POLICY "Assignees and managers can manage checklist items" ON public.task_checklist_items
+  FOR ALL TO authenticated
+  USING (public.can_work_on_task(auth.uid(), task_id));
+
+-- Any assignee or manager of a task (mirrors the tasks update policy)
+CREATE OR REPLACE FUNCTION public.can_work_on_task(_user_id UUID, _task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = _task_id
+      AND (public.is_task_assignee(_user_id, id) OR public.can_manage_task(_user_id, project_id, assigned_to))
+  )
+$$;
+
+-- Task assignees policies (visibility follows the task, managers assign)
+CREATE POLICY "Users can view assignees of visible tasks" ON public.task_assignees
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_assignees.task_id));
+
+CREATE POLICY "Managers can add assignees" ON public.task_assignees
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_assignees.task_id
+        AND public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to)
+    )
+  );
+
+CREATE POLICY "Managers can remove assignees" ON public.task_assignees
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_assignees.task_id
+        AND public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to)
+    )
+  );
+
+-- Task watchers policies: users watch visible tasks themselves, managers add or remove anyone
+CREATE POLICY "Users can view watchers of visible tasks" ON public.task_watchers
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_watchers.task_id));
+
+CREATE POLICY "Users can watch visible tasks, managers can add watchers" ON public.task_watchers
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_watchers.task_id
+        AND (task_watchers.user_id = auth.uid() OR public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to))
+    )
+  );
+
+CREATE POLICY "Users can stop watching, managers can remove watchers" ON public.task_watchers
+  FOR DELETE TO authenticated
+  USING (
+    user_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_watchers.task_id
+        AND public.can_manage_task(auth.uid(), tasks.project_id, tasks.assigned_to)
+    )
+  );
+
+-- Next occurrences keep every assignee, watcher and label of the one just completed
+CREATE OR REPLACE FUNCTION public.create_next_occurrence(_task_id UUID, _due_date TIMESTAMP WITH TIME ZONE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+
+  IF NOT FOUND OR _task.recurrence IS NULL THEN
+    RAISE EXCEPTION 'Task is not recurring';
+  END IF;
+
+  IF NOT (public.is_task_assignee(auth.uid(), _task.id) OR public.can_manage_task(auth.uid(), _task.project_id, _task.assigned_to)) THEN
+    RAISE EXCEPTION 'Not allowed to schedule this task' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _task.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed occurrences can be rescheduled';
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, priority, status, project_id, assigned_to, created_by,
+    due_date, recurrence, recurrence_series_id, occurrence_number
+  )
+  VALUES (
+    _task.title, _task.description, _task.priority, 'pending', _task.project_id, _task.assigned_to, _task.created_by,
+    _due_date, _task.recurrence, _task.recurrence_series_id, _task.occurrence_number + 1
+  )
+  ON CONFLICT (recurrence_series_id, occurrence_number) WHERE recurrence_series_id IS NOT NULL DO NOTHING
+  RETURNING id INTO _new_id;
+
+  IF _new_id IS NOT NULL THEN
+    INSERT INTO public.task_assignees (task_id, user_id, created_by)
+    SELECT _new_id, user_id, created_by FROM public.task_assignees WHERE task_id = _task_id
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+
+    INSERT INTO public.task_watchers (task_id, user_id, created_by)
+    SELECT _new_id, user_id, created_by FROM public.task_watchers WHERE task_id = _task_id;
+
+    INSERT INTO public.task_labels (task_id, label_id, created_by)
+    SELECT _new_id, label_id, created_by FROM public.task_labels WHERE task_id = _task_id;
+  END IF;
+
+  RETURN _new_id;
+END;
+$$;
+
+-- Notifications now also tell followers about new comments
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('mention', 'assignment', 'due_date', 'completion', 'comment'));
+
+-- Notify about task changes made by someone else:
+-- - assignees and watchers when the due date changes
+-- - the creator, assignees and watchers when the task is completed
+-- (Assignments are announced by notify_task_assignment below.)
+CREATE OR REPLACE FUNCTION public.notify_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _actor_name TEXT;
+BEGIN
+  IF TG_OP <> 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO _actor_name FROM public.profiles WHERE id = _actor;
+  _actor_name := COALESCE(_actor_name, 'Someone');
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    INSERT INTO public.notifications (user_id, type, task_id, actor_id, message)
+    SELECT follower, 'due_date', NEW.id, _actor,
+      CASE WHEN NEW.due_date IS NULL
+        THEN _actor_name || ' removed the due date of "' || NEW.title || '"'
+        ELSE _actor_name || ' moved "' || NEW.title || '" to ' || to_char(NEW.due_date, 'Mon DD, YYYY')
+      END
+    FROM public.task_followers(NEW.id) AS follower
+    WHERE follower IS DISTINCT FROM _actor;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    INSERT INTO public.notifications (user_id, type, task_id, actor_id, message)
+    SELECT recipient, 'completion', NEW.id, _actor, _actor_name || ' completed "' || NEW.title || '"'
+    FROM (
+      SELECT public.task_followers(NEW.id)
+      UNION
+      SELECT NEW.created_by
+    ) AS recipients(recipient)
+    WHERE recipient IS NOT NULL AND recipient IS DISTINCT FROM _actor;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Tell each newly added assignee, unless they assigned themselves
+CREATE OR REPLACE FUNCTION public.notify_task_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _actor_name TEXT;
+  _task_title TEXT;
+BEGIN
+  IF NEW.user_id IS NOT DISTINCT FROM _actor THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO _actor_name FROM public.profiles WHERE id = _actor;
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+
+  INSERT INTO public.notifications (user_id, type, task_id, actor_id, message)
+  VALUES (NEW.user_id, 'assignment', NEW.task_id, _actor,
+    COALESCE(_actor_name, 'Someone') || ' assigned you "' || _task_title || '"');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_task_assignment AFTER INSERT ON public.task_assignees
+  FOR EACH ROW EXECUTE FUNCTION public.notify_task_assignment();
+
+-- Tell assignees and watchers about new comments; mentioned users already
+-- get a mention notification instead
+CREATE OR REPLACE FUNCTION public.notify_comment_followers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _author_name TEXT;
+  _task_title TEXT;
+BEGIN
+  SELECT full_name INTO _author_name FROM public.profiles WHERE id = NEW.author_id;
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+
+  INSERT INTO public.notifications (user_id, type, task_id, comment_id, actor_id, message)
+  SELECT follower, 'comment', NEW.task_id, NEW.id, NEW.author_id,
+    COALESCE(_author_name, 'Someone') || ' commented on "' || _task_title || '"'
+  FROM public.task_followers(NEW.task_id) AS follower
+  WHERE follower <> NEW.author_id
+    AND NOT (follower = ANY (NEW.mentions));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_task_comment_followers AFTER INSERT ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_comment_followers();
@@ -0,0 +1,96 @@
+-- Start dates and milestones, for planning tasks over time.
+-- A task spans start_date..due_date; either may be missing. Milestones are
+-- single points in time, so they only have a due date.
+ALTER TABLE public.tasks
+  ADD COLUMN start_date TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN is_milestone BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_start_before_due CHECK (start_date IS NULL OR due_date IS NULL OR start_date <= due_date),
+  ADD CONSTRAINT tasks_milestone_without_start CHECK (NOT is_milestone OR start_date IS NULL);
+
+-- The activity log tracks start dates too
+CREATE OR REPLACE FUNCTION public.log_task_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_events (task_id, actor_id, event_type)
+    VALUES (NEW.id, auth.uid(), 'created');
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_events (task_id, actor_id, event_type, field, old_value, new_value)
+  SELECT NEW.id, auth.uid(), 'updated', changes.field, changes.old_value, changes.new_value
+  FROM (VALUES
+    ('status',
+      COALESCE((SELECT name FROM public.workflow_statuses WHERE id = OLD.status_id), OLD.status::text),
+      COALESCE((SELECT name FROM public.workflow_statuses WHERE id = NEW.status_id), NEW.status::text)),
+    ('priority', OLD.priority::text, NEW.priority::text),
+    ('assigned_to', OLD.assigned_to::text, NEW.assigned_to::text),
+    ('start_date', OLD.start_date::text, NEW.start_date::text),
+    ('due_date', OLD.due_date::text, NEW.due_date::text),
+    ('project_id', OLD.project_id::text, NEW.project_id::text),
+    ('description', OLD.description, NEW.description)
+  ) AS changes(field, old_value, new_value)
+  WHERE changes.old_value IS DISTINCT FROM changes.new_value;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Next occurrences keep the milestone flag, and start as long before their
+-- due date as the completed one did
+CREATE OR REPLACE FUNCTION public.create_next_occurrence(_task_id UUID, _due_date TIMESTAMP WITH TIME ZONE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+
+  IF NOT FOUND OR _task.recurrence IS NULL THEN
+    RAISE EXCEPTION 'Task is not recurring';
+  END IF;
+
+  IF NOT (public.is_task_assignee(auth.uid(), _task.id) OR public.can_manage_task(auth.uid(), _task.project_id, _task.assigned_to)) THEN
+    RAISE EXCEPTION 'Not allowed to schedule this task' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _task.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed occurrences can be rescheduled';
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, priority, status, project_id, assigned_to, created_by,
+    start_date, due_date, is_milestone, recurrence, recurrence_series_id, occurrence_number
+  )
+  VALUES (
+    _task.title, _task.description, _task.priority, 'pending', _task.project_id, _task.assigned_to, _task.created_by,
+    _due_date - (_task.due_date - _task.start_date), _due_date, _task.is_milestone,
+    _task.recurrence, _task.recurrence_series_id, _task.occurrence_number + 1
+  )
+  ON CONFLICT (recurrence_series_id, occurrence_number) WHERE recurrence_series_id IS NOT NULL DO NOTHING
+  RETURNING id INTO _new_id;
+
+  IF _new_id IS NOT NULL THEN
+    INSERT INTO public.task_assignees (task_id, user_id, created_by)
+    SELECT _new_id, user_id, created_by FROM public.task_assignees WHERE task_id = _task_id
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+
+    INSERT INTO public.task_watchers (task_id, user_id, created_by)
+    SELECT _new_id, user_id, created_by FROM public.task_watchers WHERE task_id = _task_id;
+
+    INSERT INTO public.task_labels (task_id, label_id, created_by)
+    SELECT _new_id, label_id, created_by FROM public.task_labels WHERE task_id = _task_id;
+  END IF;
+
+  RETURN _new_id;
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Role changes go through one function that swaps the role atomically,
+-- keeps at least one admin and records who changed what
+CREATE TABLE public.role_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  old_role app_role,
+  new_role app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX role_changes_created_at_idx ON public.role_changes (created_at DESC);
+CREATE INDEX role_changes_user_id_idx ON public.role_changes (user_id);
+
+ALTER TABLE public.role_changes ENABLE ROW LEVEL SECURITY;
+
+-- Role changes policies (rows are only written by change_user_role)
+CREATE POLICY "Admins can view role changes" ON public.role_changes
+  FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- Admins no longer write user_roles directly; that would skip the checks below
+DROP POLICY "Admins can manage all roles" ON public.user_roles;
+
+CREATE OR REPLACE FUNCTION public.change_user_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_role app_role;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the admin rows so two demotions can't each leave the other as the last admin
+  PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+
+  SELECT role INTO _old_role FROM public.user_roles WHERE user_id = _user_id FOR UPDATE;
+
+  IF _old_role IS NOT DISTINCT FROM _role THEN
+    RETURN;
+  END IF;
+
+  IF _old_role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE role = 'admin' AND user_id <> _user_id
+  ) THEN
+    RAISE EXCEPTION 'Cannot demote the last admin';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+
+  INSERT INTO public.role_changes (user_id, changed_by, old_role, new_role)
+  VALUES (_user_id, auth.uid(), _old_role, _role);
+END;
+$$;
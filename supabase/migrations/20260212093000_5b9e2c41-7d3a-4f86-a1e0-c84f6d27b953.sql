@@ -0,0 +1,82 @@
+-- Invitations: admins invite people by email with the role and department
+-- they should get. The signup link carries the token, and handle_new_user
+-- consumes the invitation when the account is created.
+CREATE TABLE public.invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  role app_role NOT NULL DEFAULT 'employee',
+  department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '14 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One open invitation per address
+CREATE UNIQUE INDEX invitations_pending_email_idx ON public.invitations (lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+-- Invitations policies
+CREATE POLICY "Admins can manage invitations" ON public.invitations
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- What the signup page shows for an invite link. Callers are signed out, so
+-- this only answers for a valid token and only with what the form needs.
+CREATE OR REPLACE FUNCTION public.get_invitation(_token UUID)
+RETURNS TABLE (email TEXT, role app_role, department_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.email, i.role, d.name
+  FROM public.invitations i
+  LEFT JOIN public.departments d ON d.id = i.department_id
+  WHERE i.token = _token
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now()
+$$;
+
+-- New users get the role and department of their invitation, if they signed
+-- up through a valid one for the same address; everyone else is an employee
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _invitation public.invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO _invitation
+  FROM public.invitations
+  WHERE token::text = new.raw_user_meta_data->>'invite_token'
+    AND lower(email) = lower(new.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  INSERT INTO public.profiles (id, email, full_name, department_id)
+  VALUES (new.id, new.email, COALESCE(new.raw_user_meta_data->>'full_name', new.email), _invitation.department_id);
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (new.id, COALESCE(_invitation.role, 'employee'));
+
+  IF _invitation.id IS NOT NULL THEN
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = new.id
+    WHERE id = _invitation.id;
+  END IF;
+
+  RETURN new;
+END;
+$$;
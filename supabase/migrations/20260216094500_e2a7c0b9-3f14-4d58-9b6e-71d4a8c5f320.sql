@@ -0,0 +1,150 @@
+-- Deactivated users: people who left keep their profile (so history and
+-- comments still show their name) but can no longer sign in
+ALTER TABLE public.profiles
+  ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deactivated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Deactivated admins don't count towards keeping an admin around
+CREATE OR REPLACE FUNCTION public.change_user_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_role app_role;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the admin rows so two demotions can't each leave the other as the last admin
+  PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+
+  SELECT role INTO _old_role FROM public.user_roles WHERE user_id = _user_id FOR UPDATE;
+
+  IF _old_role IS NOT DISTINCT FROM _role THEN
+    RETURN;
+  END IF;
+
+  IF _old_role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles r
+    JOIN public.profiles p ON p.id = r.user_id
+    WHERE r.role = 'admin' AND r.user_id <> _user_id AND p.deactivated_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Cannot demote the last admin';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+
+  INSERT INTO public.role_changes (user_id, changed_by, old_role, new_role)
+  VALUES (_user_id, auth.uid(), _old_role, _role);
+END;
+$$;
+
+-- Offboard a user in one transaction: hand their open tasks to _reassign_to
+-- (or just take them off when null), stop them watching open tasks, mark the
+-- profile deactivated and ban the auth user so they can't sign in again
+CREATE OR REPLACE FUNCTION public.deactivate_user(_user_id UUID, _reassign_to UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reassigned INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can deactivate users' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  IF _reassign_to = _user_id THEN
+    RAISE EXCEPTION 'Tasks must be reassigned to someone else';
+  END IF;
+
+  IF _reassign_to IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = _reassign_to AND deactivated_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Tasks can only be reassigned to an active user';
+  END IF;
+
+  -- Same lock as change_user_role, so the two can't race past the last admin
+  PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+
+  IF public.has_role(_user_id, 'admin') AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles r
+    JOIN public.profiles p ON p.id = r.user_id
+    WHERE r.role = 'admin' AND r.user_id <> _user_id AND p.deactivated_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Cannot deactivate the last admin';
+  END IF;
+
+  UPDATE public.profiles
+  SET deactivated_at = now(), deactivated_by = auth.uid()
+  WHERE id = _user_id AND deactivated_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User is already deactivated';
+  END IF;
+
+  CREATE TEMP TABLE _open_tasks ON COMMIT DROP AS
+  SELECT t.id, t.assigned_to = _user_id AS is_primary
+  FROM public.tasks t
+  JOIN public.task_assignees a ON a.task_id = t.id AND a.user_id = _user_id
+  WHERE t.status <> 'completed' AND t.deleted_at IS NULL;
+
+  GET DIAGNOSTICS _reassigned = ROW_COUNT;
+
+  IF _reassign_to IS NOT NULL THEN
+    -- Replacing the primary swaps the assignee rows through sync_primary_assignee
+    UPDATE public.tasks SET assigned_to = _reassign_to
+    WHERE id IN (SELECT id FROM _open_tasks WHERE is_primary);
+
+    INSERT INTO public.task_assignees (task_id, user_id, created_by)
+    SELECT id, _reassign_to, auth.uid() FROM _open_tasks WHERE NOT is_primary
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+  END IF;
+
+  -- Without a new owner, sync_task_assigned_to promotes a co-assignee or leaves the task unassigned
+  DELETE FROM public.task_assignees
+  WHERE user_id = _user_id AND task_id IN (SELECT id FROM _open_tasks);
+
+  DELETE FROM public.task_watchers w
+  USING public.tasks t
+  WHERE w.task_id = t.id AND w.user_id = _user_id
+    AND t.status <> 'completed' AND t.deleted_at IS NULL;
+
+  UPDATE auth.users SET banned_until = 'infinity' WHERE id = _user_id;
+
+  RETURN _reassigned;
+END;
+$$;
+
+-- Let a deactivated user sign in again. Their old tasks stay with whoever took them over.
+CREATE OR REPLACE FUNCTION public.reactivate_user(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reactivate users' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.profiles
+  SET deactivated_at = NULL, deactivated_by = NULL
+  WHERE id = _user_id AND deactivated_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User is not deactivated';
+  END IF;
+
+  UPDATE auth.users SET banned_until = NULL WHERE id = _user_id;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Account settings: avatar, timezone and locale on profiles. Null timezone
+-- and locale mean "use the browser's".
+ALTER TABLE public.profiles
+  ADD COLUMN avatar_url TEXT,
+  ADD COLUMN timezone TEXT,
+  ADD COLUMN locale TEXT;
+
+-- Public bucket so avatars load anywhere without signing URLs; objects are
+-- stored as <user_id>/<unique name>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies: everyone can see avatars, users only manage their own folder
+CREATE POLICY "Anyone can view avatars" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload own avatar" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own avatar" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Email changes happen in auth and only take effect once confirmed; keep the
+-- profile copy in step when they do
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles SET email = NEW.email WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.handle_user_email_change();
@@ -0,0 +1,35 @@
+-- "Users can update own profile" has no column limits, but department_id
+-- decides what department heads can manage, and email and deactivation are
+-- owned by auth. Guard those columns on direct writes from clients:
+-- - department_id only changes through admins
+-- - email only follows auth.users (handle_user_email_change)
+-- - deactivated_at/by only change through deactivate_user/reactivate_user
+-- SECURITY DEFINER functions run as their owner, so their writes pass.
+CREATE OR REPLACE FUNCTION public.guard_profile_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.department_id IS DISTINCT FROM OLD.department_id AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change departments' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    RAISE EXCEPTION 'Change your email from the account settings' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at OR NEW.deactivated_by IS DISTINCT FROM OLD.deactivated_by THEN
+    RAISE EXCEPTION 'Users are deactivated from user management' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_columns BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_columns();
@@ -0,0 +1,81 @@
+-- Enforce task blockers in the database rather than only in the client,
+-- including blockers the user can't see
+
+-- Whether a user can see a task (mirrors the tasks select policy)
+CREATE OR REPLACE FUNCTION public.can_view_task(_user_id UUID, _task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = _task_id
+      AND (
+        assigned_to = _user_id OR
+        public.is_task_assignee(_user_id, id) OR
+        public.is_task_watcher(_user_id, id) OR
+        public.can_manage_task(_user_id, project_id, assigned_to)
+      )
+  )
+$$;
+
+-- Set together with a status change to start or finish a task whose blockers
+-- are still open; the trigger below clears it again, so it never persists
+ALTER TABLE public.tasks ADD COLUMN override_blockers BOOLEAN NOT NULL DEFAULT false;
+
+-- Starting or completing a task needs every blocker completed (blockers in
+-- the trash don't count). Only direct changes are checked: roll-ups done by
+-- other triggers aren't. Named to run after sync_task_status has settled
+-- the status category.
+CREATE OR REPLACE FUNCTION public.verify_task_blockers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _open INTEGER;
+BEGIN
+  IF pg_trigger_depth() = 1
+    AND NOT NEW.override_blockers
+    AND NEW.status IN ('in_progress', 'completed')
+    AND NEW.status IS DISTINCT FROM OLD.status
+  THEN
+    SELECT count(*) INTO _open
+    FROM public.task_dependencies d
+    JOIN public.tasks b ON b.id = d.depends_on_task_id
+    WHERE d.task_id = NEW.id AND b.status <> 'completed' AND b.deleted_at IS NULL;
+
+    IF _open > 0 THEN
+      RAISE EXCEPTION 'Task is blocked by % open task%', _open, CASE WHEN _open = 1 THEN '' ELSE 's' END
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.override_blockers := false;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER verify_task_blockers BEFORE UPDATE OF status, status_id, override_blockers ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.verify_task_blockers();
+
+-- Open blockers the caller can't see, per visible task they block. Lists
+-- only show visible blockers, so without these such tasks would look free.
+CREATE OR REPLACE FUNCTION public.hidden_open_blockers()
+RETURNS TABLE (task_id UUID, blocker_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.task_id, count(*)::INTEGER
+  FROM public.task_dependencies d
+  JOIN public.tasks b ON b.id = d.depends_on_task_id
+  WHERE b.status <> 'completed'
+    AND b.deleted_at IS NULL
+    AND public.can_view_task(auth.uid(), d.task_id)
+    AND NOT public.can_view_task(auth.uid(), b.id)
+  GROUP BY d.task_id
+$$;
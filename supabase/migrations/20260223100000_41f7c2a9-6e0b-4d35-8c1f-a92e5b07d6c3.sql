@@ -0,0 +1,58 @@
+-- Mentions only notify people who can see the task; the message carries its title
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _previous UUID[] := '{}';
+  _author_name TEXT;
+  _task_title TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _previous := OLD.mentions;
+  END IF;
+
+  SELECT full_name INTO _author_name FROM public.profiles WHERE id = NEW.author_id;
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+
+  INSERT INTO public.notifications (user_id, type, task_id, comment_id, actor_id, message)
+  SELECT DISTINCT mentioned, 'mention', NEW.task_id, NEW.id, NEW.author_id,
+    COALESCE(_author_name, 'Someone') || ' mentioned you on "' || _task_title || '"'
+  FROM unnest(NEW.mentions) AS mentioned
+  WHERE mentioned <> NEW.author_id
+    AND NOT (mentioned = ANY (_previous))
+    AND public.can_view_task(mentioned, NEW.task_id);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Comments stay on their task and in their thread: editing may change the
+-- body and mentions only, and a reply must answer a comment on the same task
+CREATE OR REPLACE FUNCTION public.guard_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    NEW.task_id IS DISTINCT FROM OLD.task_id OR
+    NEW.parent_id IS DISTINCT FROM OLD.parent_id OR
+    NEW.author_id IS DISTINCT FROM OLD.author_id
+  ) THEN
+    RAISE EXCEPTION 'Comments cannot be moved to another task or thread';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.task_comments WHERE id = NEW.parent_id AND task_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must be on the same task as the comment they answer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_comment_thread BEFORE INSERT OR UPDATE ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_comment_thread();
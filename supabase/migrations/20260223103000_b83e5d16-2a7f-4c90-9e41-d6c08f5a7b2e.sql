@@ -0,0 +1,33 @@
+-- Postgres may evaluate AND operands in any order, so the task-attachments
+-- policies could cast another bucket's folder name (e.g. an avatars user id
+-- folder, or any non-uuid name) to uuid and fail. Only cast once the bucket
+-- and folder shape are known.
+CREATE OR REPLACE FUNCTION public.can_work_on_task_file(_user_id UUID, _bucket_id TEXT, _name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _bucket_id = 'task-attachments'
+      AND (storage.foldername(_name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN public.can_work_on_task(_user_id, ((storage.foldername(_name))[1])::uuid)
+    ELSE false
+  END
+$$;
+
+DROP POLICY "Assignees and managers can read task files" ON storage.objects;
+DROP POLICY "Assignees and managers can upload task files" ON storage.objects;
+DROP POLICY "Assignees and managers can delete task files" ON storage.objects;
+
+CREATE POLICY "Assignees and managers can read task files" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (public.can_work_on_task_file(auth.uid(), bucket_id, name));
+
+CREATE POLICY "Assignees and managers can upload task files" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_work_on_task_file(auth.uid(), bucket_id, name));
+
+CREATE POLICY "Assignees and managers can delete task files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (public.can_work_on_task_file(auth.uid(), bucket_id, name));
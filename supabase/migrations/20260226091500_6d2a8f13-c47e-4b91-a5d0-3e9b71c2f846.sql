@@ -0,0 +1,202 @@
+-- Archive: finished projects and tasks leave the everyday lists without going
+-- to the trash. Archived items stay intact and can be unarchived at any time.
+
+ALTER TABLE public.tasks
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN archived_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.projects
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN archived_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX tasks_archived_at_idx ON public.tasks (archived_at) WHERE archived_at IS NOT NULL;
+CREATE INDEX projects_archived_at_idx ON public.projects (archived_at) WHERE archived_at IS NOT NULL;
+
+-- Assignees may update their own tasks, but only managers may archive or unarchive them
+CREATE OR REPLACE FUNCTION public.guard_task_archive()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.archived_at IS DISTINCT FROM OLD.archived_at
+    AND NOT public.can_manage_task(auth.uid(), OLD.project_id, OLD.assigned_to)
+  THEN
+    RAISE EXCEPTION 'Only managers can archive or unarchive tasks';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_task_archive BEFORE UPDATE OF archived_at ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.guard_task_archive();
+
+-- Archive a top-level task and its subtasks; returns how many tasks were archived
+CREATE OR REPLACE FUNCTION public.archive_task(_task_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.tasks WHERE id = _task_id AND parent_task_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Subtasks are archived with their parent task';
+  END IF;
+
+  WITH RECURSIVE tree AS (
+    SELECT id FROM public.tasks WHERE id = _task_id
+    UNION
+    SELECT t.id FROM public.tasks t JOIN tree ON t.parent_task_id = tree.id
+  )
+  UPDATE public.tasks
+  SET archived_at = now(), archived_by = auth.uid()
+  WHERE id IN (SELECT id FROM tree) AND archived_at IS NULL AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  IF _count = 0 THEN
+    RAISE EXCEPTION 'Task not found or already archived';
+  END IF;
+  RETURN _count;
+END;
+$$;
+
+-- Bring a task back together with the subtasks that were archived with it
+CREATE OR REPLACE FUNCTION public.unarchive_task(_task_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+  _count INTEGER;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id AND archived_at IS NOT NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found in the archive';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.projects WHERE id = _task.project_id AND archived_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Unarchive the task''s project first';
+  END IF;
+
+  WITH RECURSIVE tree AS (
+    SELECT id FROM public.tasks WHERE id = _task_id
+    UNION
+    SELECT t.id FROM public.tasks t JOIN tree ON t.parent_task_id = tree.id
+    WHERE t.archived_at = _task.archived_at
+  )
+  UPDATE public.tasks
+  SET archived_at = NULL, archived_by = NULL
+  WHERE id IN (SELECT id FROM tree);
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Archive a project and all of its tasks; returns how many tasks went with it
+CREATE OR REPLACE FUNCTION public.archive_project(_project_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  UPDATE public.projects
+  SET archived_at = now(), archived_by = auth.uid()
+  WHERE id = _project_id AND archived_at IS NULL AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found or already archived';
+  END IF;
+
+  -- Same timestamp as the project, so unarchiving it brings back exactly these tasks
+  UPDATE public.tasks
+  SET archived_at = now(), archived_by = auth.uid()
+  WHERE project_id = _project_id AND archived_at IS NULL AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Bring a project back together with the tasks that were archived with it
+CREATE OR REPLACE FUNCTION public.unarchive_project(_project_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _archived_at TIMESTAMP WITH TIME ZONE;
+  _count INTEGER;
+BEGIN
+  SELECT archived_at INTO _archived_at FROM public.projects WHERE id = _project_id AND archived_at IS NOT NULL;
+  IF _archived_at IS NULL THEN
+    RAISE EXCEPTION 'Project not found in the archive';
+  END IF;
+
+  UPDATE public.projects SET archived_at = NULL, archived_by = NULL WHERE id = _project_id;
+
+  UPDATE public.tasks
+  SET archived_at = NULL, archived_by = NULL
+  WHERE project_id = _project_id AND archived_at = _archived_at;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Search leaves out archived projects and tasks, and comments on tasks that
+-- are archived or sit in an archived project
+CREATE OR REPLACE FUNCTION public.search_all(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (kind TEXT, id UUID, task_id UUID, title TEXT, snippet TEXT, rank REAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (SELECT public.to_prefix_tsquery(_query) AS query),
+  opts AS (SELECT 'MaxFragments=1, MaxWords=18, MinWords=6, StartSel=«, StopSel=»' AS o)
+  SELECT * FROM (
+    (SELECT 'task', t.id, t.id,
+       ts_headline('simple', t.title, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       ts_headline('simple', coalesce(t.description, ''), q.query, opts.o),
+       ts_rank(public.search_document(t.title, t.description), q.query)
+     FROM public.tasks t, q, opts
+     WHERE public.search_document(t.title, t.description) @@ q.query AND t.deleted_at IS NULL AND t.archived_at IS NULL
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'project', p.id, NULL::UUID,
+       ts_headline('simple', p.name, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       ts_headline('simple', coalesce(p.description, ''), q.query, opts.o),
+       ts_rank(public.search_document(p.name, p.description), q.query)
+     FROM public.projects p, q, opts
+     WHERE public.search_document(p.name, p.description) @@ q.query AND p.deleted_at IS NULL AND p.archived_at IS NULL
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'comment', c.id, c.task_id,
+       t.title,
+       ts_headline('simple', c.body, q.query, opts.o),
+       ts_rank(public.search_document(c.body, NULL), q.query)
+     FROM public.task_comments c
+     JOIN public.tasks t ON t.id = c.task_id
+     LEFT JOIN public.projects p ON p.id = t.project_id, q, opts
+     WHERE public.search_document(c.body, NULL) @@ q.query AND t.deleted_at IS NULL
+       AND t.archived_at IS NULL AND p.archived_at IS NULL
+     ORDER BY 6 DESC
+     LIMIT _limit)
+    UNION ALL
+    (SELECT 'person', pr.id, NULL::UUID,
+       ts_headline('simple', pr.full_name, q.query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+       pr.email,
+       ts_rank(public.search_document(pr.full_name, pr.email), q.query)
+     FROM public.profiles pr, q
+     WHERE public.search_document(pr.full_name, pr.email) @@ q.query
+     ORDER BY 6 DESC
+     LIMIT _limit)
+  ) AS results (kind, id, task_id, title, snippet, rank)
+  ORDER BY rank DESC
+  LIMIT _limit
+$$;
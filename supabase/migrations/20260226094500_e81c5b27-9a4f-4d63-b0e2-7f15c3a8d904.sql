@@ -0,0 +1,22 @@
+-- An expired invitation still counts as open for invitations_pending_email_idx,
+-- and the index can't compare against now(). Inviting the address again
+-- revokes its expired invitation first, so it no longer has to be revoked or
+-- renewed by hand.
+CREATE OR REPLACE FUNCTION public.replace_expired_invitation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.invitations
+  SET revoked_at = now()
+  WHERE lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at <= now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER replace_expired_invitation BEFORE INSERT ON public.invitations
+  FOR EACH ROW EXECUTE FUNCTION public.replace_expired_invitation();
@@ -0,0 +1,61 @@
+-- Blockers hold for every status change, including the parent roll-up:
+-- a parent with open blockers stays open when its last subtask completes
+
+CREATE OR REPLACE FUNCTION public.verify_task_blockers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _open INTEGER;
+BEGIN
+  IF NOT NEW.override_blockers
+    AND NEW.status IN ('in_progress', 'completed')
+    AND NEW.status IS DISTINCT FROM OLD.status
+  THEN
+    SELECT count(*) INTO _open
+    FROM public.task_dependencies d
+    JOIN public.tasks b ON b.id = d.depends_on_task_id
+    WHERE d.task_id = NEW.id AND b.status <> 'completed' AND b.deleted_at IS NULL;
+
+    IF _open > 0 THEN
+      RAISE EXCEPTION 'Task is blocked by % open task%', _open, CASE WHEN _open = 1 THEN '' ELSE 's' END
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.override_blockers := false;
+  RETURN NEW;
+END;
+$$;
+
+-- Completing the last subtask only completes a parent that nothing blocks;
+-- otherwise the subtask's own update would fail on the parent's blockers
+CREATE OR REPLACE FUNCTION public.complete_parent_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_task_id IS NOT NULL
+    AND NEW.status = 'completed'
+    AND OLD.status IS DISTINCT FROM 'completed'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE parent_task_id = NEW.parent_task_id AND status <> 'completed' AND deleted_at IS NULL
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.task_dependencies d
+      JOIN public.tasks b ON b.id = d.depends_on_task_id
+      WHERE d.task_id = NEW.parent_task_id AND b.status <> 'completed' AND b.deleted_at IS NULL
+    )
+  THEN
+    UPDATE public.tasks
+    SET status = 'completed', completed_at = now()
+    WHERE id = NEW.parent_task_id AND status <> 'completed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;